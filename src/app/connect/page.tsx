@@ -2,6 +2,7 @@
 
 import {
   useEffect,
+  useMemo,
   useState,
 } from 'react';
 
@@ -16,37 +17,53 @@ import {
   FaTwitter,
 } from 'react-icons/fa';
 
+import UnlockVaultForm from '@/components/UnlockVaultForm';
+import { createSignedProof } from '@/lib/blockchain/signedProofs';
 import {
-  createProofRecord,
-  generateProofHash,
-} from '@/lib/blockchain/solana';
+  createConnectedAccount,
+  getAccountKey,
+  normalizeHandle,
+} from '@/lib/storage/accounts';
 import {
-  decryptStorage,
-  encryptStorage,
-  loadEncryptedStorage,
-  saveEncryptedStorage,
-} from '@/lib/storage/localStore';
-import { Persona } from '@/types';
+  formatFingerprint,
+  shortFingerprint,
+} from '@/lib/storage/identity';
+import { getActiveSubkey } from '@/lib/storage/subkeys';
+import { useSecureStorage } from '@/lib/storage/useSecureStorage';
+import { StoredPersona } from '@/types';
 
 export default function ConnectPage() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [personas, setPersonas] = useState<Persona[]>([]);
+  const {
+    storage,
+    isLoading: isStorageLoading,
+    isLocked,
+    lockReason,
+    hasVault,
+    isLegacyVault,
+    error: storageError,
+    unlock,
+    openPersona,
+    updatePersona,
+  } = useSecureStorage();
+  const personas: StoredPersona[] = useMemo(() => storage?.personas || [], [storage?.personas]);
+  const [isLoading, setIsLoading] = useState(false);
   const [selectedPersona, setSelectedPersona] = useState<string>('');
   const [platform, setPlatform] = useState<string>('twitter');
   const [username, setUsername] = useState<string>('');
   const [proofMessage, setProofMessage] = useState<string>('');
   const [proofUrl, setProofUrl] = useState<string>('');
-  const [privateKey, setPrivateKey] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [step, setStep] = useState(1);
   const [isPublic, setIsPublic] = useState(true);
-  const [selectedPersonaDetails, setSelectedPersonaDetails] = useState<Persona | null>(null);
+  const [selectedPersonaDetails, setSelectedPersonaDetails] = useState<StoredPersona | null>(null);
   const [isCreatingProof, setIsCreatingProof] = useState(false);
 
   useEffect(() => {
-    loadPersonas();
-  }, []);
+    if (!selectedPersona && personas.length > 0) {
+      setSelectedPersona(personas[0].id);
+    }
+  }, [personas, selectedPersona]);
 
   useEffect(() => {
     if (selectedPersona && personas.length > 0) {
@@ -59,32 +76,6 @@ export default function ConnectPage() {
     }
   }, [selectedPersona, personas]);
 
-  const loadPersonas = async () => {
-    setIsLoading(true);
-    try {
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData) {
-        // In a real app, we would prompt for the master key
-        // For demo purposes, we'll use a simulated key retrieval
-        const simulatedPrivateKey = localStorage.getItem('whoim_demo_private_key') || '';
-        setPrivateKey(simulatedPrivateKey);
-        
-        if (simulatedPrivateKey) {
-          const storage = await decryptStorage(encryptedData, simulatedPrivateKey);
-          setPersonas(storage.personas);
-          if (storage.personas.length > 0) {
-            setSelectedPersona(storage.personas[0].id);
-          }
-        }
-      }
-    } catch (err) {
-      console.error('Failed to load personas:', err);
-      setError('Failed to load personas. Please check your private key.');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const generateProofMessage = async () => {
     if (!selectedPersona || !platform || !username) {
       setError('Please select a persona and enter your username');
@@ -100,8 +91,12 @@ export default function ConnectPage() {
         throw new Error('Selected persona not found');
       }
 
+      if (!persona.fingerprint) {
+        throw new Error('This persona has no readable PGP key, so there is no fingerprint to claim the account for');
+      }
+
       const timestamp = new Date().toISOString();
-      const message = `I hereby claim that the ${platform} account @${username} belongs to the owner of the PGP key with fingerprint ${persona.id}. This claim was made on ${timestamp}.`;
+      const message = `I hereby claim that the ${platform} account @${username} belongs to the owner of the PGP key with fingerprint ${formatFingerprint(persona.fingerprint)}. This claim was made on ${timestamp}.`;
       
       setProofMessage(message);
       setStep(2);
@@ -128,39 +123,53 @@ export default function ConnectPage() {
       // and verify that it contains the proof message
       // For demo purposes, we'll simulate this verification
 
-      // Create a proof record on the blockchain
-      const proofHash = generateProofHash(proofMessage);
-      await createProofRecord(selectedPersona, proofHash, [proofUrl], isPublic);
-
-      // Update the persona's connected accounts
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData && privateKey) {
-        const storage = await decryptStorage(encryptedData, privateKey);
+      // Sign the proof with the persona's key, record it on the blockchain
+      // and update the persona's connected accounts inside its compartment
+      if (storage) {
+        const persona = await openPersona(selectedPersona);
+        if (!persona) {
+          throw new Error('Could not open the selected persona');
+        }
+        if (persona.revocation) {
+          throw new Error('This persona\'s key has been revoked, so it can no longer sign proofs.');
+        }
         
-        const updatedPersonas = storage.personas.map(persona => {
-          if (persona.id === selectedPersona) {
-            return {
-              ...persona,
-              isPublic: isPublic,
-              privateData: {
-                ...persona.privateData,
-                accounts: [...persona.privateData.accounts, `${platform}:@${username}`],
-                signedProofs: [...persona.privateData.signedProofs, proofHash]
-              }
-            };
+        const proof = await createSignedProof({
+          personaId: selectedPersona,
+          fingerprint: persona.fingerprint,
+          publicKey: persona.publicKey,
+          signingSubkey: getActiveSubkey(persona.subkeys, 'signing'),
+          message: proofMessage,
+          accounts: [{ platform, handle: normalizeHandle(username) }],
+          urls: [proofUrl],
+          ledger: 'solana',
+          isPublic,
+        });
+        const account = createConnectedAccount({
+          platform,
+          handle: username,
+          proofUrl,
+          proofHash: proof.hash,
+          onChainProofId: proof.transactionId,
+          status: 'verified',
+          verifiedAt: proof.createdAt,
+        });
+        // Linking an account again replaces its earlier record
+        const saved = await updatePersona(selectedPersona, {
+          isPublic: isPublic,
+          privateData: {
+            ...persona.privateData,
+            accounts: [
+              ...persona.privateData.accounts.filter(existing => getAccountKey(existing) !== getAccountKey(account)),
+              account,
+            ],
+            signedProofs: [...persona.privateData.signedProofs, proof]
           }
-          return persona;
         });
+        if (!saved) {
+          throw new Error('Failed to save vault');
+        }
         
-        const updatedStorage = {
-          ...storage,
-          personas: updatedPersonas
-        };
-        
-        const newEncryptedStorage = await encryptStorage(updatedStorage, privateKey);
-        await saveEncryptedStorage(newEncryptedStorage);
-        
-        setPersonas(updatedPersonas);
         setSuccess('Account successfully connected and proof recorded on blockchain!');
         setStep(3);
       }
@@ -200,7 +209,7 @@ export default function ConnectPage() {
     }
   };
 
-  if (isLoading && !isCreatingProof) {
+  if ((isLoading || isStorageLoading) && !isCreatingProof) {
     return (
       <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
         <div className="text-center">
@@ -211,6 +220,18 @@ export default function ConnectPage() {
     );
   }
 
+  if (isLocked) {
+    return (
+      <UnlockVaultForm
+        hasVault={hasVault}
+        isLegacyVault={isLegacyVault}
+        error={storageError}
+        lockReason={lockReason}
+        onUnlock={unlock}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <header className="bg-gray-800 shadow-md">
@@ -315,10 +336,15 @@ export default function ConnectPage() {
                     >
                       {personas.map(persona => (
                         <option key={persona.id} value={persona.id}>
-                          {persona.name || persona.id.substring(0, 8)}
+                          {persona.name || shortFingerprint(persona.fingerprint)}
                         </option>
                       ))}
                     </select>
+                    {selectedPersonaDetails?.fingerprint && (
+                      <p className="mt-1 text-xs text-gray-400 font-mono break-words">
+                        {formatFingerprint(selectedPersonaDetails.fingerprint)}
+                      </p>
+                    )}
                   </div>
                   
                   <div>
@@ -15,10 +15,15 @@ import {
   FaUserCircle,
 } from 'react-icons/fa';
 
+import RestoreVaultForm from '@/components/RestoreVaultForm';
+import VaultSwitcher from '@/components/VaultSwitcher';
 import {
+  hasVault,
   initializeStorage,
-  loadEncryptedStorage,
 } from '@/lib/storage/localStore';
+import { generateRecoveryPhrase } from '@/lib/storage/mnemonic';
+import { RecoveryRestoreResult } from '@/lib/storage/recovery';
+import { getActiveVault } from '@/lib/storage/vaultRegistry';
 
 export default function Dashboard() {
   const [isLoading, setIsLoading] = useState(true);
@@ -26,15 +31,28 @@ export default function Dashboard() {
   const [showSetup, setShowSetup] = useState(false);
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const [privateKey, setPrivateKey] = useState('');
+  const [useRecoveryPhrase, setUseRecoveryPhrase] = useState(true);
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [showRestore, setShowRestore] = useState(false);
+  const [restoreResult, setRestoreResult] = useState<RecoveryRestoreResult | null>(null);
   const [showPrivateKey, setShowPrivateKey] = useState(false);
+  const [vaultName, setVaultName] = useState('');
   const [error, setError] = useState('');
 
+  // Check whether the active vault has been set up
+  const checkVault = () => {
+    setVaultName(getActiveVault().name);
+    hasVault().then(exists => {
+      setHasStorage(exists);
+      setIsLoading(false);
+    });
+  };
+
   useEffect(() => {
-    // Check if user has existing storage
-    const encryptedStorage = loadEncryptedStorage();
-    setHasStorage(!!encryptedStorage);
-    setIsLoading(false);
+    checkVault();
   }, []);
 
   const handleInitializeStorage = async (e: React.FormEvent) => {
@@ -45,14 +63,30 @@ export default function Dashboard() {
       return;
     }
     
+    if (passphrase.length < 12) {
+      setError('Please choose a passphrase of at least 12 characters');
+      return;
+    }
+    
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+    
     setIsLoading(true);
     setError('');
     
     try {
-      const { privateKey: newPrivateKey } = await initializeStorage(name, email);
-      setPrivateKey(newPrivateKey);
+      const phrase = useRecoveryPhrase ? generateRecoveryPhrase() : undefined;
+      const { privateKey: newPrivateKey } = await initializeStorage({ name, email, passphrase, recoveryPhrase: phrase });
+      if (phrase) {
+        setRecoveryPhrase(phrase);
+      } else {
+        setPrivateKey(newPrivateKey);
+      }
+      setPassphrase('');
+      setConfirmPassphrase('');
       setShowSetup(false);
-      setHasStorage(true);
     } catch (err) {
       setError('Failed to initialize storage: ' + (err instanceof Error ? err.message : String(err)));
     } finally {
@@ -75,9 +109,72 @@ export default function Dashboard() {
     return (
       <div className="min-h-screen bg-gray-900 text-white p-4">
         <div className="max-w-md mx-auto bg-gray-800 rounded-xl p-6 shadow-lg mt-12">
-          <h1 className="text-2xl font-bold mb-6 text-center">Welcome to WHOIM V2</h1>
+          <h1 className="text-2xl font-bold mb-2 text-center">Welcome to WHOIM V2</h1>
+          <p className="text-gray-400 text-sm mb-6 text-center">Setting up the vault &quot;{vaultName}&quot;</p>
           
-          {privateKey ? (
+          {recoveryPhrase ? (
+            <div className="mb-6">
+              <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-4">
+                <h2 className="text-xl font-semibold text-yellow-400 mb-2 flex items-center">
+                  <FaKey className="mr-2" /> Your Recovery Phrase
+                </h2>
+                <p className="text-yellow-200 mb-4 text-sm">
+                  Write these words down in order and keep them offline. With them and a backup you can
+                  restore your vault and persona keys on any device. They will only be shown once!
+                </p>
+                <ol className="grid grid-cols-3 gap-2 bg-gray-900 p-3 rounded font-mono text-sm">
+                  {recoveryPhrase.split(' ').map((word, index) => (
+                    <li key={index} className="text-gray-300">
+                      <span className="text-gray-500 mr-1">{index + 1}.</span>{word}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+              
+              <Link 
+                href="/dashboard" 
+                onClick={() => {
+                  setRecoveryPhrase('');
+                  setHasStorage(true);
+                }}
+                className="block w-full bg-green-600 hover:bg-green-700 text-white text-center py-3 rounded-lg transition-colors"
+              >
+                I&apos;ve Written Down My Words
+              </Link>
+            </div>
+          ) : restoreResult ? (
+            <div className="mb-6">
+              <div className="bg-green-900/30 border border-green-700 rounded-lg p-4 mb-4 text-sm text-green-200">
+                <p className="mb-2">Your vault was restored.</p>
+                {restoreResult.restoredKeys.length > 0 && (
+                  <p className="mb-2">Keys re-derived for: {restoreResult.restoredKeys.join(', ')}</p>
+                )}
+                {restoreResult.unrecoverableKeys.length > 0 && (
+                  <p className="text-yellow-200">
+                    These personas have keys that were not derived from your recovery phrase. Import them from a
+                    key backup: {restoreResult.unrecoverableKeys.join(', ')}
+                  </p>
+                )}
+              </div>
+              
+              <Link 
+                href="/dashboard" 
+                onClick={() => {
+                  setRestoreResult(null);
+                  setShowRestore(false);
+                  setHasStorage(true);
+                }}
+                className="block w-full bg-green-600 hover:bg-green-700 text-white text-center py-3 rounded-lg transition-colors"
+              >
+                Continue to Dashboard
+              </Link>
+            </div>
+          ) : showRestore ? (
+            <RestoreVaultForm
+              onRestored={setRestoreResult}
+              onCancel={() => setShowRestore(false)}
+            />
+          ) : privateKey ? (
             <div className="mb-6">
               <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-4">
                 <h2 className="text-xl font-semibold text-yellow-400 mb-2 flex items-center">
@@ -130,6 +227,10 @@ export default function Dashboard() {
               
               <Link 
                 href="/dashboard" 
+                onClick={() => {
+                  setPrivateKey('');
+                  setHasStorage(true);
+                }}
                 className="block w-full bg-green-600 hover:bg-green-700 text-white text-center py-3 rounded-lg transition-colors"
               >
                 Continue to Dashboard
@@ -150,7 +251,7 @@ export default function Dashboard() {
                 />
               </div>
               
-              <div className="mb-6">
+              <div className="mb-4">
                 <label htmlFor="email" className="block text-gray-300 mb-2">Email</label>
                 <input
                   type="email"
@@ -163,6 +264,50 @@ export default function Dashboard() {
                 />
               </div>
               
+              <div className="mb-4">
+                <label htmlFor="passphrase" className="block text-gray-300 mb-2">Vault Passphrase</label>
+                <input
+                  type="password"
+                  id="passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  autoComplete="new-password"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  Your vault is encrypted with a key derived from this passphrase. It cannot be recovered if lost.
+                </p>
+              </div>
+              
+              <div className="mb-6">
+                <label htmlFor="confirm-passphrase" className="block text-gray-300 mb-2">Confirm Passphrase</label>
+                <input
+                  type="password"
+                  id="confirm-passphrase"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              
+              <div className="mb-6">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={useRecoveryPhrase}
+                    onChange={(e) => setUseRecoveryPhrase(e.target.checked)}
+                    className="form-checkbox h-5 w-5 text-indigo-600 rounded focus:ring-indigo-500 border-gray-600 bg-gray-700"
+                  />
+                  <span className="ml-2 text-gray-300">Derive my keys from a recovery phrase</span>
+                </label>
+                <p className="mt-1 text-xs text-gray-400 ml-7">
+                  You will get 24 words instead of a private key file. The words and a backup restore your whole vault.
+                </p>
+              </div>
+              
               {error && (
                 <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
                   {error}
@@ -178,6 +323,13 @@ export default function Dashboard() {
               </button>
               
               <div className="mt-4 text-center">
+                <button
+                  type="button"
+                  onClick={() => setShowRestore(true)}
+                  className="text-indigo-400 hover:text-indigo-300 mr-6"
+                >
+                  Restore from recovery phrase
+                </button>
                 <button
                   type="button"
                   onClick={() => setShowSetup(false)}
@@ -189,6 +341,12 @@ export default function Dashboard() {
             </form>
           )}
         </div>
+        
+        {!recoveryPhrase && !privateKey && !restoreResult && (
+          <div className="max-w-md mx-auto mt-6">
+            <VaultSwitcher onSwitch={checkVault} />
+          </div>
+        )}
       </div>
     );
   }
@@ -223,6 +381,8 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Sidebar */}
           <div className="md:col-span-1">
+            <VaultSwitcher onSwitch={checkVault} />
+            
             <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
               <div className="flex items-center mb-4">
                 <div className="bg-indigo-600 w-12 h-12 rounded-full flex items-center justify-center mr-4">
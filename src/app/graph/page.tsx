@@ -13,31 +13,50 @@ import {
   FaLink,
   FaNetworkWired,
   FaTimes,
+  FaUnlock,
 } from 'react-icons/fa';
 
+import ConnectedAccountList from '@/components/ConnectedAccountList';
+import UnlockVaultForm from '@/components/UnlockVaultForm';
 import {
-  analyzePrivacy,
   generatePrivacyGraph,
+  PrivacyAnalyzer,
 } from '@/lib/privacy/analyzer';
-import {
-  decryptStorage,
-  loadEncryptedStorage,
-} from '@/lib/storage/localStore';
+import { closeAllPersonas } from '@/lib/storage/compartments';
+import { shortFingerprint } from '@/lib/storage/identity';
+import { useSecureStorage } from '@/lib/storage/useSecureStorage';
 import {
   Persona,
   PrivacyWarning,
 } from '@/types';
 
 export default function GraphPage() {
-  const [isLoading, setIsLoading] = useState(true);
+  const {
+    storage,
+    isLoading,
+    isLocked,
+    lockReason,
+    hasVault,
+    isLegacyVault,
+    error: storageError,
+    unlock,
+  } = useSecureStorage();
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [warnings, setWarnings] = useState<PrivacyWarning[]>([]);
+  const [analysisUnlocked, setAnalysisUnlocked] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState('');
-  const [privateKey, setPrivateKey] = useState('');
+  const storedPersonaCount = storage?.personas.length || 0;
 
   useEffect(() => {
-    loadData();
-  }, []);
+    // A previous analysis no longer matches the stored personas
+    setAnalysisUnlocked(false);
+    setPersonas([]);
+    setWarnings([]);
+  }, [storage]);
+
+  // Close the compartments opened for analysis when leaving the page
+  useEffect(() => closeAllPersonas, []);
 
   useEffect(() => {
     if (personas.length > 0) {
@@ -45,33 +64,31 @@ export default function GraphPage() {
     }
   }, [personas, warnings]);
 
-  const loadData = async () => {
-    setIsLoading(true);
+  const unlockAllForAnalysis = async () => {
+    if (!storage) return;
+    
+    setIsAnalyzing(true);
+    setError('');
     try {
-      const encryptedData = loadEncryptedStorage();
-      if (encryptedData) {
-        // In a real app, we would prompt for the master key
-        // For demo purposes, we'll use a simulated key retrieval
-        const simulatedPrivateKey = localStorage.getItem('whoim_demo_private_key') || '';
-        setPrivateKey(simulatedPrivateKey);
-        
-        if (simulatedPrivateKey) {
-          const storage = await decryptStorage(encryptedData, simulatedPrivateKey);
-          setPersonas(storage.personas);
-          
-          // Analyze privacy
-          const privacyWarnings = analyzePrivacy(storage.personas);
-          setWarnings(privacyWarnings);
-        }
-      }
+      const result = await PrivacyAnalyzer.analyzeVaultPersonas(storage.personas, { unlockAllForAnalysis: true });
+      setPersonas(result.personas);
+      setWarnings(result.warnings);
+      setAnalysisUnlocked(true);
     } catch (err) {
-      console.error('Failed to load data:', err);
-      setError('Failed to load data. Please check your private key.');
+      console.error('Failed to analyze personas:', err);
+      setError('Failed to analyze personas.');
     } finally {
-      setIsLoading(false);
+      setIsAnalyzing(false);
     }
   };
 
+  const endAnalysis = () => {
+    closeAllPersonas();
+    setPersonas([]);
+    setWarnings([]);
+    setAnalysisUnlocked(false);
+  };
+
   const renderGraph = () => {
     // Clear previous graph
     d3.select('#privacy-graph').selectAll('*').remove();
@@ -197,6 +214,18 @@ export default function GraphPage() {
     );
   }
 
+  if (isLocked) {
+    return (
+      <UnlockVaultForm
+        hasVault={hasVault}
+        isLegacyVault={isLegacyVault}
+        error={storageError}
+        lockReason={lockReason}
+        onUnlock={unlock}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <header className="bg-gray-800 shadow-md">
@@ -224,7 +253,17 @@ export default function GraphPage() {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <h1 className="text-2xl font-bold mb-6">Privacy Analysis</h1>
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-bold">Privacy Analysis</h1>
+          {analysisUnlocked && (
+            <button
+              onClick={endAnalysis}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
+            >
+              Close Personas
+            </button>
+          )}
+        </div>
 
         {error && (
           <div className="mb-6 bg-red-900/30 border border-red-700 text-red-200 p-4 rounded-lg">
@@ -232,232 +271,244 @@ export default function GraphPage() {
           </div>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2">
-            <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
-              <h2 className="text-xl font-semibold mb-4 flex items-center">
-                <FaNetworkWired className="mr-2 text-indigo-400" /> Privacy Graph
-              </h2>
-              
-              {personas.length <= 1 ? (
-                <div className="bg-gray-700 p-6 rounded-lg text-center">
-                  <p className="text-gray-400 mb-4">
-                    Privacy analysis requires at least two personas to compare.
-                  </p>
-                  <Link 
-                    href="/personas" 
-                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors"
-                  >
-                    Create More Personas
-                  </Link>
-                </div>
-              ) : (
+        {!analysisUnlocked ? (
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+            <h2 className="text-xl font-semibold mb-4 flex items-center">
+              <FaNetworkWired className="mr-2 text-indigo-400" /> Privacy Graph
+            </h2>
+            
+            {storedPersonaCount <= 1 ? (
+              <div className="bg-gray-700 p-6 rounded-lg text-center">
+                <p className="text-gray-400 mb-4">
+                  Privacy analysis requires at least two personas to compare.
+                </p>
+                <Link 
+                  href="/personas" 
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors"
+                >
+                  Create More Personas
+                </Link>
+              </div>
+            ) : (
+              <div className="bg-gray-700 p-6 rounded-lg text-center">
+                <p className="text-gray-300 mb-4">
+                  Each persona&apos;s accounts and notes are sealed in their own compartment.
+                  Comparing them unlocks all {storedPersonaCount} personas at once until you close them or leave this page.
+                </p>
+                <button
+                  onClick={unlockAllForAnalysis}
+                  disabled={isAnalyzing}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors inline-flex items-center"
+                >
+                  <FaUnlock className="mr-2" /> {isAnalyzing ? 'Unlocking...' : 'Unlock All for Analysis'}
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
+                <h2 className="text-xl font-semibold mb-4 flex items-center">
+                  <FaNetworkWired className="mr-2 text-indigo-400" /> Privacy Graph
+                </h2>
+                
                 <div className="bg-gray-700 rounded-lg p-4 h-96">
                   <div id="privacy-graph" className="w-full h-full"></div>
                 </div>
-              )}
-              
-              <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-2">
-                <div className="flex items-center">
-                  <div className="w-4 h-1 bg-red-500 mr-2"></div>
-                  <span className="text-sm text-gray-300">High Risk</span>
-                </div>
-                <div className="flex items-center">
-                  <div className="w-4 h-1 bg-yellow-500 mr-2"></div>
-                  <span className="text-sm text-gray-300">Medium Risk</span>
-                </div>
-                <div className="flex items-center">
-                  <div className="w-4 h-1 bg-blue-500 mr-2"></div>
-                  <span className="text-sm text-gray-300">Low Risk</span>
-                </div>
-                <div className="flex items-center">
-                  <div className="w-4 h-1 bg-gray-500 mr-2 dashed"></div>
-                  <span className="text-sm text-gray-300">Metadata Link</span>
+                
+                <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <div className="flex items-center">
+                    <div className="w-4 h-1 bg-red-500 mr-2"></div>
+                    <span className="text-sm text-gray-300">High Risk</span>
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-4 h-1 bg-yellow-500 mr-2"></div>
+                    <span className="text-sm text-gray-300">Medium Risk</span>
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-4 h-1 bg-blue-500 mr-2"></div>
+                    <span className="text-sm text-gray-300">Low Risk</span>
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-4 h-1 bg-gray-500 mr-2 dashed"></div>
+                    <span className="text-sm text-gray-300">Metadata Link</span>
+                  </div>
                 </div>
               </div>
-            </div>
-            
-            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
-              <h2 className="text-xl font-semibold mb-4">Privacy Recommendations</h2>
               
-              {warnings.length === 0 ? (
-                <div className="bg-green-900/30 border border-green-700 text-green-200 p-4 rounded-lg flex items-start">
-                  <FaCheck className="text-green-400 mt-1 mr-3 flex-shrink-0" />
-                  <div>
-                    <p className="font-semibold mb-1">No Privacy Issues Detected</p>
-                    <p className="text-sm">Your personas are well-isolated from each other. Keep up the good privacy practices!</p>
+              <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+                <h2 className="text-xl font-semibold mb-4">Privacy Recommendations</h2>
+                
+                {warnings.length === 0 ? (
+                  <div className="bg-green-900/30 border border-green-700 text-green-200 p-4 rounded-lg flex items-start">
+                    <FaCheck className="text-green-400 mt-1 mr-3 flex-shrink-0" />
+                    <div>
+                      <p className="font-semibold mb-1">No Privacy Issues Detected</p>
+                      <p className="text-sm">Your personas are well-isolated from each other. Keep up the good privacy practices!</p>
+                    </div>
                   </div>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {warnings.map((warning, index) => (
-                    <div 
-                      key={index} 
-                      className={`border rounded-lg p-4 flex items-start ${
-                        warning.severity === 'high' 
-                          ? 'bg-red-900/30 border-red-700 text-red-200' 
-                          : warning.severity === 'medium'
-                            ? 'bg-yellow-900/30 border-yellow-700 text-yellow-200'
-                            : 'bg-blue-900/30 border-blue-700 text-blue-200'
-                      }`}
-                    >
-                      <FaExclamationTriangle className={`mt-1 mr-3 flex-shrink-0 ${
-                        warning.severity === 'high' 
-                          ? 'text-red-400' 
-                          : warning.severity === 'medium'
-                            ? 'text-yellow-400'
-                            : 'text-blue-400'
-                      }`} />
-                      <div>
-                        <p className="font-semibold mb-1">
-                          {warning.type === 'account_overlap' 
-                            ? 'Account Overlap Detected' 
-                            : warning.type === 'username_reuse'
-                              ? 'Similar Usernames Detected'
-                              : 'Metadata Similarity Detected'}
-                        </p>
-                        <p className="text-sm mb-2">{warning.description}</p>
-                        <div className="text-xs">
-                          <span className="font-semibold">Affected Personas: </span>
-                          {warning.affectedPersonas.map(id => id.substring(0, 8)).join(', ')}
+                ) : (
+                  <div className="space-y-4">
+                    {warnings.map((warning, index) => (
+                      <div 
+                        key={index} 
+                        className={`border rounded-lg p-4 flex items-start ${
+                          warning.severity === 'high' 
+                            ? 'bg-red-900/30 border-red-700 text-red-200' 
+                            : warning.severity === 'medium'
+                              ? 'bg-yellow-900/30 border-yellow-700 text-yellow-200'
+                              : 'bg-blue-900/30 border-blue-700 text-blue-200'
+                        }`}
+                      >
+                        <FaExclamationTriangle className={`mt-1 mr-3 flex-shrink-0 ${
+                          warning.severity === 'high' 
+                            ? 'text-red-400' 
+                            : warning.severity === 'medium'
+                              ? 'text-yellow-400'
+                              : 'text-blue-400'
+                        }`} />
+                        <div>
+                          <p className="font-semibold mb-1">
+                            {warning.type === 'account_overlap' 
+                              ? 'Account Overlap Detected' 
+                              : warning.type === 'username_reuse'
+                                ? 'Similar Usernames Detected'
+                                : 'Metadata Similarity Detected'}
+                          </p>
+                          <p className="text-sm mb-2">{warning.description}</p>
+                          <div className="text-xs">
+                            <span className="font-semibold">Affected Personas: </span>
+                            {warning.affectedPersonas.map(id => id.substring(0, 8)).join(', ')}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          </div>
-          
-          <div className="lg:col-span-1">
-            <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
-              <h2 className="text-xl font-semibold mb-4 flex items-center">
-                <FaLink className="mr-2 text-indigo-400" /> Persona Links
-              </h2>
-              
-              {personas.length === 0 ? (
-                <p className="text-gray-400">No personas available.</p>
-              ) : (
-                <div className="space-y-3">
-                  {personas.map(persona => (
-                    <div key={persona.id} className="bg-gray-700 p-3 rounded-lg">
-                      <div className="flex justify-between items-center mb-2">
-                        <h3 className="font-semibold">{persona.id.substring(0, 8)}</h3>
-                        <span className="bg-indigo-600 text-xs px-2 py-1 rounded-full">
-                          {persona.privateData.accounts.length} accounts
-                        </span>
-                      </div>
-                      
-                      {persona.privateData.accounts.length > 0 ? (
-                        <ul className="space-y-1 text-sm">
-                          {persona.privateData.accounts.map((account, idx) => (
-                            <li key={idx} className="bg-gray-600 px-2 py-1 rounded text-gray-300">
-                              {account}
-                            </li>
-                          ))}
-                        </ul>
-                      ) : (
-                        <p className="text-sm text-gray-400">No connected accounts</p>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              )}
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
             
-            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
-              <h2 className="text-xl font-semibold mb-4">Privacy Score</h2>
+            <div className="lg:col-span-1">
+              <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
+                <h2 className="text-xl font-semibold mb-4 flex items-center">
+                  <FaLink className="mr-2 text-indigo-400" /> Persona Links
+                </h2>
+                
+                {personas.length === 0 ? (
+                  <p className="text-gray-400">No personas available.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {personas.map(persona => (
+                      <div key={persona.id} className="bg-gray-700 p-3 rounded-lg">
+                        <div className="flex justify-between items-center mb-2">
+                          <h3 className="font-semibold">{persona.name || shortFingerprint(persona.fingerprint)}</h3>
+                          <span className="bg-indigo-600 text-xs px-2 py-1 rounded-full">
+                            {persona.privateData.accounts.length} accounts
+                          </span>
+                        </div>
+                        
+                        <ConnectedAccountList accounts={persona.privateData.accounts} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
               
-              <div className="bg-gray-700 p-4 rounded-lg">
-                <div className="flex justify-between items-center mb-2">
-                  <h3 className="font-semibold">Overall Rating</h3>
-                  <span className={`text-xs px-2 py-1 rounded-full ${
-                    warnings.length === 0 
-                      ? 'bg-green-600' 
-                      : warnings.some(w => w.severity === 'high')
-                        ? 'bg-red-600'
-                        : warnings.some(w => w.severity === 'medium')
-                          ? 'bg-yellow-600'
-                          : 'bg-blue-600'
-                  }`}>
-                    {warnings.length === 0 
-                      ? 'A+' 
-                      : warnings.some(w => w.severity === 'high')
-                        ? 'C'
-                        : warnings.some(w => w.severity === 'medium')
-                          ? 'B'
-                          : 'A'}
-                  </span>
-                </div>
+              <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+                <h2 className="text-xl font-semibold mb-4">Privacy Score</h2>
                 
-                <div className="space-y-2 mt-4">
-                  <div>
-                    <div className="flex justify-between text-sm mb-1">
-                      <span>Account Isolation</span>
-                      <span>
-                        {warnings.filter(w => w.type === 'account_overlap').length === 0 
-                          ? <FaCheck className="text-green-400" /> 
-                          : <FaTimes className="text-red-400" />}
-                      </span>
-                    </div>
-                    <div className="w-full bg-gray-600 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full ${
-                          warnings.filter(w => w.type === 'account_overlap').length === 0 
-                            ? 'bg-green-500' 
-                            : 'bg-red-500'
-                        }`}
-                        style={{ width: warnings.filter(w => w.type === 'account_overlap').length === 0 ? '100%' : '30%' }}
-                      ></div>
-                    </div>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="font-semibold">Overall Rating</h3>
+                    <span className={`text-xs px-2 py-1 rounded-full ${
+                      warnings.length === 0 
+                        ? 'bg-green-600' 
+                        : warnings.some(w => w.severity === 'high')
+                          ? 'bg-red-600'
+                          : warnings.some(w => w.severity === 'medium')
+                            ? 'bg-yellow-600'
+                            : 'bg-blue-600'
+                    }`}>
+                      {warnings.length === 0 
+                        ? 'A+' 
+                        : warnings.some(w => w.severity === 'high')
+                          ? 'C'
+                          : warnings.some(w => w.severity === 'medium')
+                            ? 'B'
+                            : 'A'}
+                    </span>
                   </div>
                   
-                  <div>
-                    <div className="flex justify-between text-sm mb-1">
-                      <span>Username Uniqueness</span>
-                      <span>
-                        {warnings.filter(w => w.type === 'username_reuse').length === 0 
-                          ? <FaCheck className="text-green-400" /> 
-                          : <FaExclamationTriangle className="text-yellow-400" />}
-                      </span>
-                    </div>
-                    <div className="w-full bg-gray-600 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full ${
-                          warnings.filter(w => w.type === 'username_reuse').length === 0 
-                            ? 'bg-green-500' 
-                            : 'bg-yellow-500'
-                        }`}
-                        style={{ width: warnings.filter(w => w.type === 'username_reuse').length === 0 ? '100%' : '60%' }}
-                      ></div>
+                  <div className="space-y-2 mt-4">
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>Account Isolation</span>
+                        <span>
+                          {warnings.filter(w => w.type === 'account_overlap').length === 0 
+                            ? <FaCheck className="text-green-400" /> 
+                            : <FaTimes className="text-red-400" />}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-600 rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full ${
+                            warnings.filter(w => w.type === 'account_overlap').length === 0 
+                              ? 'bg-green-500' 
+                              : 'bg-red-500'
+                          }`}
+                          style={{ width: warnings.filter(w => w.type === 'account_overlap').length === 0 ? '100%' : '30%' }}
+                        ></div>
+                      </div>
                     </div>
-                  </div>
-                  
-                  <div>
-                    <div className="flex justify-between text-sm mb-1">
-                      <span>Metadata Separation</span>
-                      <span>
-                        {warnings.filter(w => w.type === 'metadata_similarity').length === 0 
-                          ? <FaCheck className="text-green-400" /> 
-                          : <FaExclamationTriangle className="text-blue-400" />}
-                      </span>
+                    
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>Username Uniqueness</span>
+                        <span>
+                          {warnings.filter(w => w.type === 'username_reuse').length === 0 
+                            ? <FaCheck className="text-green-400" /> 
+                            : <FaExclamationTriangle className="text-yellow-400" />}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-600 rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full ${
+                            warnings.filter(w => w.type === 'username_reuse').length === 0 
+                              ? 'bg-green-500' 
+                              : 'bg-yellow-500'
+                          }`}
+                          style={{ width: warnings.filter(w => w.type === 'username_reuse').length === 0 ? '100%' : '60%' }}
+                        ></div>
+                      </div>
                     </div>
-                    <div className="w-full bg-gray-600 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full ${
-                          warnings.filter(w => w.type === 'metadata_similarity').length === 0 
-                            ? 'bg-green-500' 
-                            : 'bg-blue-500'
-                        }`}
-                        style={{ width: warnings.filter(w => w.type === 'metadata_similarity').length === 0 ? '100%' : '80%' }}
-                      ></div>
+                    
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>Metadata Separation</span>
+                        <span>
+                          {warnings.filter(w => w.type === 'metadata_similarity').length === 0 
+                            ? <FaCheck className="text-green-400" /> 
+                            : <FaExclamationTriangle className="text-blue-400" />}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-600 rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full ${
+                            warnings.filter(w => w.type === 'metadata_similarity').length === 0 
+                              ? 'bg-green-500' 
+                              : 'bg-blue-500'
+                          }`}
+                          style={{ width: warnings.filter(w => w.type === 'metadata_similarity').length === 0 ? '100%' : '80%' }}
+                        ></div>
+                      </div>
                     </div>
                   </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
       </main>
     </div>
   );
@@ -1,113 +1,83 @@
 'use client';
 
-import {
-  useEffect,
-  useState,
-} from 'react';
+import { useState } from 'react';
 
 import Link from 'next/link';
 import {
-  FaCopy,
-  FaDownload,
-  FaKey,
+  FaFileImport,
+  FaLock,
   FaPlus,
   FaUserCircle,
 } from 'react-icons/fa';
 
+import ConnectedAccountList from '@/components/ConnectedAccountList';
+import CreatePersonaForm from '@/components/CreatePersonaForm';
+import ExportPersonaForm from '@/components/ExportPersonaForm';
+import ImportPersonaForm from '@/components/ImportPersonaForm';
+import KeyRotationPanel from '@/components/KeyRotationPanel';
+import PersonaTrash from '@/components/PersonaTrash';
+import RevokePersonaPanel from '@/components/RevokePersonaPanel';
+import SignedProofList from '@/components/SignedProofList';
+import SubkeyPanel from '@/components/SubkeyPanel';
+import UnlockVaultForm from '@/components/UnlockVaultForm';
 import { updateProofVisibility } from '@/lib/blockchain/contractInteractions';
 import {
-  createPersona,
-  decryptStorage,
-  encryptStorage,
-  loadEncryptedStorage,
-  saveEncryptedStorage,
-} from '@/lib/storage/localStore';
-import { Persona } from '@/types';
+  formatFingerprint,
+  shortFingerprint,
+} from '@/lib/storage/identity';
+import { KeyManager } from '@/lib/storage/keyManager';
+import { createPersona } from '@/lib/storage/personaCreation';
+import { useSecureStorage } from '@/lib/storage/useSecureStorage';
+import {
+  CreatePersonaInput,
+  StoredPersona,
+} from '@/types';
 
 export default function PersonasPage() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [personas, setPersonas] = useState<Persona[]>([]);
+  const {
+    storage,
+    isLoading,
+    isLocked,
+    lockReason,
+    hasVault,
+    isLegacyVault,
+    error: storageError,
+    unlock,
+    loadStorage,
+    updateStorage,
+    removePersona,
+    updatePersona,
+    restorePersona,
+    purgePersona,
+    rotatePersonaKey,
+    rotatePersonaSubkey,
+    revokePersona,
+    activePersona,
+    openPersona,
+    closePersona,
+  } = useSecureStorage();
+  const personas: StoredPersona[] = storage?.personas || [];
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
-  const [isPublic, setIsPublic] = useState(false);
-  const [privateKey, setPrivateKey] = useState('');
+  const [showImportForm, setShowImportForm] = useState(false);
+  const [exportingPersona, setExportingPersona] = useState<StoredPersona | null>(null);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [newPersonaKey, setNewPersonaKey] = useState('');
-  const [showNewKey, setShowNewKey] = useState(false);
   const [updateStatus, setUpdateStatus] = useState<{id: string, status: 'updating' | 'success' | 'error'} | null>(null);
   const [isCreating, setIsCreating] = useState(false);
-  const [copySuccess, setCopySuccess] = useState('');
-
-  useEffect(() => {
-    loadPersonas();
-  }, []);
-
-  const loadPersonas = async () => {
-    setIsLoading(true);
-    try {
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData) {
-        // In a real app, we would prompt for the master key
-        // For demo purposes, we'll use a simulated key retrieval
-        const simulatedPrivateKey = localStorage.getItem('whoim_demo_private_key') || '';
-        setPrivateKey(simulatedPrivateKey);
-        
-        if (simulatedPrivateKey) {
-          const storage = await decryptStorage(encryptedData, simulatedPrivateKey);
-          setPersonas(storage.personas);
-        }
-      }
-    } catch (err) {
-      console.error('Failed to load personas:', err);
-      setError('Failed to load personas. Please check your private key.');
-    } finally {
-      setIsLoading(false);
-    }
-  };
 
-  const handleCreatePersona = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!name || !email) {
-      setError('Please provide both name and email');
-      return;
-    }
-    
-    setIsLoading(true);
+  const handleCreatePersona = async (input: CreatePersonaInput) => {
     setIsCreating(true);
     setError('');
-    
+
     try {
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData && privateKey) {
-        const storage = await decryptStorage(encryptedData, privateKey);
-        
-        const { updatedStorage, persona, privateKey: newKey } = await createPersona({
-          name,
-          email,
-          isPublic
-        });
-        
-        const newEncryptedStorage = await encryptStorage(updatedStorage, privateKey);
-        await saveEncryptedStorage(newEncryptedStorage);
-        
-        setPersonas(updatedStorage.personas);
-        setShowCreateForm(false);
-        setName('');
-        setEmail('');
-        setIsPublic(false);
-        setNewPersonaKey(newKey);
-        setShowNewKey(true);
-        setSuccess('Persona created successfully!');
-      } else {
-        setError('No storage or private key available');
-      }
-    } catch (err) {
-      setError('Failed to create persona: ' + (err instanceof Error ? err.message : String(err)));
+      // The new persona's key is sealed in its compartment; close it again
+      const { persona } = await createPersona(input);
+      closePersona();
+
+      await loadStorage();
+      setShowCreateForm(false);
+      setSuccess(`Persona "${persona.name}" created. Use Export to keep a passphrase-protected backup of its key.`);
     } finally {
-      setIsLoading(false);
       setIsCreating(false);
     }
   };
@@ -115,12 +85,10 @@ export default function PersonasPage() {
   const handleManagePersona = async (personaId: string) => {
     setUpdateStatus({ id: personaId, status: 'updating' });
     try {
-      const encryptedData = await loadEncryptedStorage();
-      if (!encryptedData || !privateKey) {
-        throw new Error('Missing encrypted data or private key');
+      if (!storage) {
+        throw new Error('Vault is locked');
       }
   
-      const storage = await decryptStorage(encryptedData, privateKey);
       const persona = storage.personas.find((p) => p.id === personaId);
   
       if (!persona) {
@@ -129,15 +97,17 @@ export default function PersonasPage() {
   
       // Example: Toggle the visibility status on blockchain
       const newVisibility = !persona.isPublic;
-      await updateProofVisibility(persona.id, newVisibility);
+      await updateProofVisibility(persona.fingerprint, newVisibility);
   
       // Update local storage to reflect change
-      persona.isPublic = newVisibility;
-  
-      const newEncryptedStorage = await encryptStorage(storage, privateKey);
-      await saveEncryptedStorage(newEncryptedStorage);
+      const saved = await updateStorage({
+        ...storage,
+        personas: storage.personas.map(p => p.id === personaId ? { ...p, isPublic: newVisibility, updatedAt: new Date().toISOString() } : p)
+      });
+      if (!saved) {
+        throw new Error('Failed to save vault');
+      }
   
-      setPersonas([...storage.personas]);
       setUpdateStatus({ id: personaId, status: 'success' });
       setSuccess(`Persona ${newVisibility ? 'made public' : 'made private'} successfully.`);
     } catch (err) {
@@ -150,33 +120,31 @@ export default function PersonasPage() {
   const togglePersonaVisibility = async (personaId: string, currentVisibility: boolean) => {
     setUpdateStatus({id: personaId, status: 'updating'});
     try {
-      // Update on blockchain
-      await updateProofVisibility(personaId, !currentVisibility);
+      // Update on blockchain, where the persona is known by its fingerprint
+      const fingerprint = storage?.personas.find(persona => persona.id === personaId)?.fingerprint;
+      if (!fingerprint) {
+        throw new Error('Persona has no key fingerprint');
+      }
+      await updateProofVisibility(fingerprint, !currentVisibility);
       
       // Update in local storage
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData && privateKey) {
-        const storage = await decryptStorage(encryptedData, privateKey);
-        
+      if (storage) {
         const updatedPersonas = storage.personas.map(persona => {
           if (persona.id === personaId) {
             return {
               ...persona,
-              isPublic: !currentVisibility
+              isPublic: !currentVisibility,
+              updatedAt: new Date().toISOString()
             };
           }
           return persona;
         });
         
-        const updatedStorage = {
+        await updateStorage({
           ...storage,
           personas: updatedPersonas
-        };
-        
-        const newEncryptedStorage = await encryptStorage(updatedStorage, privateKey);
-        await saveEncryptedStorage(newEncryptedStorage);
+        });
         
-        setPersonas(updatedPersonas);
         setUpdateStatus({id: personaId, status: 'success'});
         
         // Reset status after 2 seconds
@@ -196,28 +164,17 @@ export default function PersonasPage() {
   };
 
   const handleDeletePersona = async (personaId: string) => {
-    if (!confirm('Are you sure you want to delete this persona? This action cannot be undone.')) {
+    if (!confirm('Move this persona to the trash? You can restore it until the trash is purged.')) {
       return;
     }
 
-    setIsLoading(true);
     try {
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData && privateKey) {
-        const storage = await decryptStorage(encryptedData, privateKey);
-        
-        const updatedPersonas = storage.personas.filter(persona => persona.id !== personaId);
-        
-        const updatedStorage = {
-          ...storage,
-          personas: updatedPersonas
-        };
-        
-        const newEncryptedStorage = await encryptStorage(updatedStorage, privateKey);
-        await saveEncryptedStorage(newEncryptedStorage);
+      if (storage) {
+        if (!(await removePersona(personaId))) {
+          throw new Error('Failed to save vault');
+        }
         
-        setPersonas(updatedPersonas);
-        setSuccess('Persona deleted successfully');
+        setSuccess('Persona moved to the trash');
         
         // Clear success message after 3 seconds
         setTimeout(() => {
@@ -232,15 +189,13 @@ export default function PersonasPage() {
       setTimeout(() => {
         setError('');
       }, 5000);
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    setCopySuccess('Copied!');
-    setTimeout(() => setCopySuccess(''), 2000);
+  const handlePersonaImported = async (personaId: string) => {
+    setShowImportForm(false);
+    await loadStorage();
+    setSuccess(`Persona ${personaId} imported successfully.`);
   };
 
   if (isLoading && !isCreating) {
@@ -254,6 +209,18 @@ export default function PersonasPage() {
     );
   }
 
+  if (isLocked) {
+    return (
+      <UnlockVaultForm
+        hasVault={hasVault}
+        isLegacyVault={isLegacyVault}
+        error={storageError}
+        lockReason={lockReason}
+        onUnlock={unlock}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <header className="bg-gray-800 shadow-md">
@@ -286,12 +253,20 @@ export default function PersonasPage() {
       <main className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-2xl font-bold">Your Personas</h1>
-          <button
-            onClick={() => setShowCreateForm(true)}
-            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors flex items-center"
-          >
-            <FaPlus className="mr-2" /> Create New Persona
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setShowImportForm(true)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors flex items-center"
+            >
+              <FaFileImport className="mr-2" /> Import Persona
+            </button>
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors flex items-center"
+            >
+              <FaPlus className="mr-2" /> Create New Persona
+            </button>
+          </div>
         </div>
 
         {error && (
@@ -306,129 +281,26 @@ export default function PersonasPage() {
           </div>
         )}
 
-        {showNewKey && (
-          <div className="mb-6 bg-yellow-900/30 border border-yellow-700 rounded-lg p-4">
-            <h2 className="text-xl font-semibold text-yellow-400 mb-2 flex items-center">
-              <FaKey className="mr-2" /> New Persona Private Key
-            </h2>
-            <p className="text-yellow-200 mb-4 text-sm">
-              This is the private key for your new persona. Save it somewhere safe. It will only be shown once!
-            </p>
-            <div className="relative">
-              <textarea 
-                className="w-full h-40 bg-gray-900 text-gray-300 p-3 rounded font-mono text-xs"
-                value={newPersonaKey}
-                readOnly
-              />
-              {copySuccess && (
-                <div className="absolute top-2 right-2 bg-green-800 text-green-200 px-2 py-1 rounded text-xs">
-                  {copySuccess}
-                </div>
-              )}
-            </div>
-            <div className="mt-4 flex justify-between">
-              <button
-                onClick={() => copyToClipboard(newPersonaKey)}
-                className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded flex items-center"
-              >
-                <FaCopy className="mr-2" /> Copy to Clipboard
-              </button>
-              <button
-                onClick={() => {
-                  const blob = new Blob([newPersonaKey], { type: 'text/plain' });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = `whoim_persona_key_${Date.now()}.txt`;
-                  document.body.appendChild(a);
-                  a.click();
-                  document.body.removeChild(a);
-                  URL.revokeObjectURL(url);
-                }}
-                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded flex items-center"
-              >
-                <FaDownload className="mr-2" /> Download Key
-              </button>
-            </div>
-            <button
-              onClick={() => setShowNewKey(false)}
-              className="mt-4 w-full bg-green-600 hover:bg-green-700 text-white py-2 rounded"
-            >
-              I've Saved My Key
-            </button>
-          </div>
+        {showImportForm && (
+          <ImportPersonaForm
+            onImported={handlePersonaImported}
+            onCancel={() => setShowImportForm(false)}
+          />
+        )}
+
+        {exportingPersona && (
+          <ExportPersonaForm
+            persona={exportingPersona}
+            onClose={() => setExportingPersona(null)}
+          />
         )}
 
         {showCreateForm && (
-          <div className="mb-6 bg-gray-800 rounded-xl p-6 shadow-lg">
-            <h2 className="text-xl font-semibold mb-4">Create New Persona</h2>
-            <form onSubmit={handleCreatePersona}>
-              <div className="mb-4">
-                <label htmlFor="name" className="block text-gray-300 mb-2">Name</label>
-                <input
-                  type="text"
-                  id="name"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  placeholder="Persona name"
-                  required
-                />
-              </div>
-              
-              <div className="mb-4">
-                <label htmlFor="email" className="block text-gray-300 mb-2">Email</label>
-                <input
-                  type="email"
-                  id="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  placeholder="persona.email@example.com"
-                  required
-                />
-              </div>
-              
-              <div className="mb-6">
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={isPublic}
-                    onChange={(e) => setIsPublic(e.target.checked)}
-                    className="form-checkbox h-5 w-5 text-indigo-600 rounded focus:ring-indigo-500 border-gray-600 bg-gray-700"
-                  />
-                  <span className="ml-2 text-gray-300">Make this persona publicly visible</span>
-                </label>
-                <p className="mt-1 text-xs text-gray-400 ml-7">
-                  Public personas can be verified by others. Private personas are only visible to you.
-                </p>
-              </div>
-              
-              <div className="flex justify-end space-x-4">
-                <button
-                  type="button"
-                  onClick={() => setShowCreateForm(false)}
-                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors flex items-center"
-                  disabled={isCreating}
-                >
-                  {isCreating ? (
-                    <>
-                      <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2"></div>
-                      Creating...
-                    </>
-                  ) : (
-                    'Create Persona'
-                  )}
-                </button>
-              </div>
-            </form>
-          </div>
+          <CreatePersonaForm
+            canDeriveKeys={!!storage?.recovery}
+            onSubmit={handleCreatePersona}
+            onCancel={() => setShowCreateForm(false)}
+          />
         )}
 
         {personas.length === 0 ? (
@@ -454,18 +326,35 @@ export default function PersonasPage() {
                     <FaUserCircle className="text-2xl" />
                   </div>
                   <div>
-                    <h3 className="font-semibold">{persona.name || persona.id.substring(0, 8)}</h3>
+                    <h3 className="font-semibold">{persona.name || shortFingerprint(persona.fingerprint)}</h3>
                     <p className="text-gray-400 text-sm">
-                      {persona.privateData.accounts.length} connected accounts
+                      {activePersona?.id === persona.id
+                        ? `${activePersona.privateData.accounts.length} connected accounts`
+                        : <span className="flex items-center"><FaLock className="mr-1" /> Private data sealed</span>}
                     </p>
                   </div>
                 </div>
                 
                 <div className="mb-4">
-                <h4 className="text-gray-400 text-xs uppercase mb-2">Persona ID</h4>
-                <p className="text-gray-300 font-mono text-sm break-words">{persona.id}</p>
+                <h4 className="text-gray-400 text-xs uppercase mb-2">Key Fingerprint</h4>
+                <p className="text-gray-300 font-mono text-sm break-words">
+                  {persona.fingerprint ? formatFingerprint(persona.fingerprint) : 'No readable key'}
+                </p>
+                <p className="text-gray-500 text-xs mt-1">Local alias: {persona.id}</p>
+                {persona.revocation && (
+                  <p className="text-red-300 text-xs mt-1">
+                    Revoked on {new Date(persona.revocation.revokedAt).toLocaleDateString()}
+                  </p>
+                )}
               </div>
 
+              {activePersona?.id === persona.id && (
+                <div className="mb-4">
+                  <h4 className="text-gray-400 text-xs uppercase mb-2">Connected Accounts</h4>
+                  <ConnectedAccountList accounts={activePersona.privateData.accounts} />
+                </div>
+              )}
+
               <div className="flex justify-between items-center">
                 <button
                   onClick={() => handleManagePersona(persona.id)}
@@ -473,6 +362,18 @@ export default function PersonasPage() {
                 >
                   Manage
                 </button>
+                <button
+                  onClick={() => activePersona?.id === persona.id ? closePersona() : openPersona(persona.id)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm transition-colors"
+                >
+                  {activePersona?.id === persona.id ? 'Close' : 'Open'}
+                </button>
+                <button
+                  onClick={() => setExportingPersona(persona)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm transition-colors"
+                >
+                  Export
+                </button>
                 <button
                   onClick={() => handleDeletePersona(persona.id)}
                   className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded text-sm transition-colors"
@@ -484,6 +385,55 @@ export default function PersonasPage() {
           ))}
         </div>
       )}
+
+      <PersonaTrash
+        trash={storage?.trash || []}
+        retentionDays={storage?.settings.trashRetentionDays}
+        onRestore={restorePersona}
+        onPurge={purgePersona}
+      />
+
+      {activePersona && (
+        <SignedProofList
+          persona={activePersona}
+          onChange={(privateData) => updatePersona(activePersona.id, { privateData })}
+        />
+      )}
+
+      {activePersona && (
+        <KeyRotationPanel
+          persona={activePersona}
+          onRotate={(options) => rotatePersonaKey(activePersona.id, options)}
+          onRotated={(fingerprint) => {
+            setSuccess(`Key rotated to ${shortFingerprint(fingerprint)}. Export the persona to back up its new key.`);
+          }}
+        />
+      )}
+
+      {activePersona && (
+        <SubkeyPanel
+          persona={activePersona}
+          onRotate={(role, options) => rotatePersonaSubkey(activePersona.id, role, options)}
+          onRotated={(fingerprint) => {
+            setSuccess(`Subkey rotated to ${shortFingerprint(fingerprint)}. Export the persona to back up its new key.`);
+          }}
+          onExportLoginKey={async (passphrase) => {
+            const stored = personas.find(persona => persona.id === activePersona.id);
+            if (!stored) {
+              throw new Error('Persona not found');
+            }
+            return await KeyManager.exportPersonaLoginKey(stored, passphrase);
+          }}
+        />
+      )}
+
+      {activePersona && (
+        <RevokePersonaPanel
+          persona={activePersona}
+          onRevoke={(ledger) => revokePersona(activePersona.id, ledger)}
+          onRevoked={(revokedProofs) => setSuccess(`Persona revoked, along with ${revokedProofs} proof(s) signed with its key.`)}
+        />
+      )}
     </main>
   </div>
   )}
@@ -2,28 +2,103 @@
 
 import { useState } from 'react';
 
+import AuditLogViewer from '@/components/AuditLogViewer';
+import ChangePassphraseForm from '@/components/ChangePassphraseForm';
+import KeySharesPanel from '@/components/KeySharesPanel';
+import MergeImportPreview from '@/components/MergeImportPreview';
+import UnlockVaultForm from '@/components/UnlockVaultForm';
+import VaultIntegrityPanel from '@/components/VaultIntegrityPanel';
+import { resolveAutoLockSettings } from '@/lib/storage/autoLock';
 import {
+  exportRecoveryBackup,
   exportStorage,
+  ImportMode,
   importStorage,
+  previewStorageImport,
 } from '@/lib/storage/localStore';
+import {
+  MergeChoices,
+  mergeChoiceKey,
+  MergeStrategy,
+  VaultMergePreview,
+} from '@/lib/storage/merge';
+import { RekeyResult } from '@/lib/storage/rekey';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/lib/storage/trash';
+import { useSecureStorage } from '@/lib/storage/useSecureStorage';
+import {
+  AutoLockSettings,
+  StorageBackend,
+} from '@/types';
+
+const TIMEOUT_OPTIONS = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+];
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Until I empty it' },
+];
 
 export default function SettingsPage() {
+  const {
+    storage,
+    loadStorage,
+    isLoading: isStorageLoading,
+    isLocked,
+    lockReason,
+    hasVault,
+    isLegacyVault,
+    error: storageError,
+    unlock,
+    storageBackend,
+    changeStorageBackend,
+    updateSettings,
+  } = useSecureStorage();
+  const autoLock = resolveAutoLockSettings(storage?.settings.autoLock);
   const [backupData, setBackupData] = useState<string>('');
   const [importData, setImportData] = useState<string>('');
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmExportPassphrase, setConfirmExportPassphrase] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [importMode, setImportMode] = useState<ImportMode>('replace');
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>('newerWins');
+  const [mergePreview, setMergePreview] = useState<VaultMergePreview | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<MergeChoices>({});
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [message, setMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [isSwitchingBackend, setIsSwitchingBackend] = useState(false);
 
   const handleExport = async () => {
     try {
-      setIsExporting(true);
       setMessage(null);
-      const data = await exportStorage();
+      if (exportPassphrase.length < 12) {
+        setMessage({ type: 'error', text: 'Backup passphrase must be at least 12 characters.' });
+        return;
+      }
+      if (exportPassphrase !== confirmExportPassphrase) {
+        setMessage({ type: 'error', text: 'Backup passphrases do not match.' });
+        return;
+      }
+      
+      setIsExporting(true);
+      const data = await exportStorage(exportPassphrase);
       setBackupData(data);
+      setExportPassphrase('');
+      setConfirmExportPassphrase('');
       setMessage({
         type: 'success',
-        text: 'Data exported successfully. Copy the text below or download the file.'
+        text: 'Encrypted backup created. Copy the text below or download the file, and keep the passphrase somewhere safe.'
       });
     } catch (error) {
       console.error('Export error:', error);
@@ -36,6 +111,57 @@ export default function SettingsPage() {
     }
   };
 
+  const handleRecoveryBackup = async () => {
+    try {
+      setMessage(null);
+      setIsExporting(true);
+      setBackupData(await exportRecoveryBackup());
+      setMessage({
+        type: 'success',
+        text: 'Recovery backup created. Your recovery phrase alone opens it, so no backup passphrase is needed.'
+      });
+    } catch (error) {
+      console.error('Recovery backup error:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to create recovery backup.'
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const unresolvedConflicts = mergePreview?.strategy === 'manual'
+    ? mergePreview.merged.reduce((count, diff) => count + diff.fields.filter(
+      change => change.changedOn === 'both' && !mergeChoices[mergeChoiceKey(diff.personaId, change.field)]
+    ).length, 0)
+    : 0;
+
+  const resetImport = () => {
+    setImportData('');
+    setImportPassphrase('');
+    setMergePreview(null);
+    setMergeChoices({});
+  };
+
+  const handlePreviewMerge = async (strategy: MergeStrategy = mergeStrategy) => {
+    try {
+      setIsImporting(true);
+      setMessage(null);
+      setMergeStrategy(strategy);
+      setMergePreview(await previewStorageImport(importData, importPassphrase, { strategy }));
+    } catch (error) {
+      console.error('Import preview error:', error);
+      setMergePreview(null);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to read backup. Please check the format and try again.'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleImport = async () => {
     try {
       setIsImporting(true);
@@ -50,14 +176,20 @@ export default function SettingsPage() {
         return;
       }
       
-      const success = await importStorage(importData);
+      const success = await importStorage(importData, importPassphrase, {
+        mode: importMode,
+        strategy: mergeStrategy,
+        choices: mergeChoices
+      });
       
       if (success) {
         setMessage({
           type: 'success',
-          text: 'Data imported successfully. Refresh the page to see changes.'
+          text: importMode === 'merge'
+            ? 'Backup verified and merged. Refresh the page to see changes.'
+            : 'Backup verified and imported. Refresh the page to see changes.'
         });
-        setImportData('');
+        resetImport();
       } else {
         setMessage({
           type: 'error',
@@ -68,25 +200,85 @@ export default function SettingsPage() {
       console.error('Import error:', error);
       setMessage({
         type: 'error',
-        text: 'Failed to import data. Please check the format and try again.'
+        text: error instanceof Error ? error.message : 'Failed to import data. Please check the format and try again.'
       });
     } finally {
       setIsImporting(false);
     }
   };
 
+  const handleBackendChange = async (backend: StorageBackend) => {
+    if (backend === 'memory' && !confirm('The in-memory backend keeps nothing on disk. Your vault will be lost when this tab closes. Continue?')) {
+      return;
+    }
+
+    setIsSwitchingBackend(true);
+    setMessage(null);
+    const success = await changeStorageBackend(backend);
+    setMessage(success
+      ? { type: 'success', text: `Vault moved to ${backend}.` }
+      : { type: 'error', text: 'Failed to change storage backend.' });
+    setIsSwitchingBackend(false);
+  };
+
+  const handleAutoLockChange = async (changes: Partial<AutoLockSettings>) => {
+    setMessage(null);
+    const success = await updateSettings({ autoLock: { ...autoLock, ...changes } });
+    if (!success) {
+      setMessage({ type: 'error', text: 'Failed to save auto-lock settings.' });
+    }
+  };
+
+  const handleRetentionChange = async (trashRetentionDays: number) => {
+    setMessage(null);
+    if (!(await updateSettings({ trashRetentionDays }))) {
+      setMessage({ type: 'error', text: 'Failed to save trash settings.' });
+    }
+  };
+
+  const handleRekeyed = ({ rekeyedPersonas, forgottenShareSets }: RekeyResult) => {
+    setMessage({
+      type: 'success',
+      text: `Vault re-encrypted with new keys for ${rekeyedPersonas} persona(s).`
+        + (forgottenShareSets > 0 ? ` ${forgottenShareSets} key share set(s) no longer work; create new shares.` : ''),
+    });
+  };
+
   const handleDownload = () => {
     const blob = new Blob([backupData], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `whoim_backup_${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `whoim_backup_${new Date().toISOString().split('T')[0]}.whoim-backup.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  if (isStorageLoading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-xl">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLocked) {
+    return (
+      <UnlockVaultForm
+        hasVault={hasVault}
+        isLegacyVault={isLegacyVault}
+        error={storageError}
+        lockReason={lockReason}
+        onUnlock={unlock}
+      />
+    );
+  }
+
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-2xl font-bold mb-6 text-white">Settings</h1>
@@ -96,11 +288,29 @@ export default function SettingsPage() {
           <h2 className="text-xl font-semibold mb-4 text-white">Export Data</h2>
           <p className="text-gray-300 mb-4">
             Export all your personas, keys, and settings for backup or transfer to another device.
+            The backup is encrypted to a passphrase of your choice and signed with your master key.
           </p>
           
+          <input
+            type="password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder="Backup passphrase (min. 12 characters)"
+            autoComplete="new-password"
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-2"
+          />
+          <input
+            type="password"
+            value={confirmExportPassphrase}
+            onChange={(e) => setConfirmExportPassphrase(e.target.value)}
+            placeholder="Confirm backup passphrase"
+            autoComplete="new-password"
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-4"
+          />
+          
           <button
             onClick={handleExport}
-            disabled={isExporting}
+            disabled={isExporting || !exportPassphrase}
             className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded flex items-center justify-center mb-4"
           >
             {isExporting ? (
@@ -114,6 +324,16 @@ export default function SettingsPage() {
             ) : 'Export Data'}
           </button>
           
+          {storage?.recovery && (
+            <button
+              onClick={handleRecoveryBackup}
+              disabled={isExporting}
+              className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded mb-4"
+            >
+              Create Recovery Backup (opens with your recovery phrase)
+            </button>
+          )}
+          
           {backupData && (
             <>
               <div className="flex justify-end mb-2">
@@ -140,31 +360,187 @@ export default function SettingsPage() {
           <h2 className="text-xl font-semibold mb-4 text-white">Import Data</h2>
           <p className="text-gray-300 mb-4">
             Import your personas, keys, and settings from a backup.
+            The backup is verified before anything on this device is changed.
           </p>
           
           <textarea
             value={importData}
-            onChange={(e) => setImportData(e.target.value)}
+            onChange={(e) => {
+              setImportData(e.target.value);
+              setMergePreview(null);
+            }}
             placeholder="Paste your backup data here..."
-            className="w-full h-48 p-2 bg-gray-700 border border-gray-600 rounded text-white font-mono text-xs mb-4"
+            className="w-full h-48 p-2 bg-gray-700 border border-gray-600 rounded text-white font-mono text-xs mb-2"
           />
+          <input
+            type="password"
+            value={importPassphrase}
+            onChange={(e) => setImportPassphrase(e.target.value)}
+            placeholder="Backup passphrase"
+            autoComplete="current-password"
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-2"
+          />
+          <select
+            value={importMode}
+            onChange={(e) => {
+              setImportMode(e.target.value as ImportMode);
+              setMergePreview(null);
+            }}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-4"
+          >
+            <option value="replace">Replace everything on this device</option>
+            <option value="merge">Merge with this device</option>
+          </select>
           
-          <button
-            onClick={handleImport}
-            disabled={isImporting || !importData.trim()}
-            className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed text-white rounded flex items-center justify-center"
+          {importMode === 'merge' && (
+            <>
+              <select
+                value={mergeStrategy}
+                onChange={(e) => handlePreviewMerge(e.target.value as MergeStrategy)}
+                disabled={isImporting || !importData.trim() || !importPassphrase}
+                className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-4"
+              >
+                <option value="newerWins">When both sides changed a field, keep the newer one</option>
+                <option value="manual">When both sides changed a field, let me choose</option>
+              </select>
+              
+              {mergePreview && (
+                <MergeImportPreview
+                  preview={mergePreview}
+                  choices={mergeChoices}
+                  onChoose={(key, side) => setMergeChoices(current => ({ ...current, [key]: side }))}
+                />
+              )}
+            </>
+          )}
+          
+          {importMode === 'merge' && !mergePreview ? (
+            <button
+              onClick={() => handlePreviewMerge()}
+              disabled={isImporting || !importData.trim() || !importPassphrase}
+              className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed text-white rounded flex items-center justify-center"
+            >
+              {isImporting ? 'Verifying...' : 'Preview Merge'}
+            </button>
+          ) : (
+            <button
+              onClick={handleImport}
+              disabled={isImporting || !importData.trim() || !importPassphrase || unresolvedConflicts > 0}
+              className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed text-white rounded flex items-center justify-center"
+            >
+              {isImporting ? (
+                <>
+                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Importing...
+                </>
+              ) : unresolvedConflicts > 0
+                ? `Resolve ${unresolvedConflicts} conflict(s) to merge`
+                : importMode === 'merge' ? 'Apply Merge' : 'Import Data'}
+            </button>
+          )}
+        </div>
+        
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold mb-4 text-white">Auto-Lock</h2>
+          <p className="text-gray-300 mb-4">
+            Lock the vault and clear decrypted data from memory when you step away.
+          </p>
+          
+          <label className="block text-gray-300 text-sm mb-4">
+            Lock after inactivity
+            <select
+              value={autoLock.idleMinutes}
+              onChange={(e) => handleAutoLockChange({ idleMinutes: Number(e.target.value) })}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mt-1"
+            >
+              {TIMEOUT_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          
+          <label className="block text-gray-300 text-sm mb-4">
+            Always lock after
+            <select
+              value={autoLock.absoluteMinutes}
+              onChange={(e) => handleAutoLockChange({ absoluteMinutes: Number(e.target.value) })}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mt-1"
+            >
+              {TIMEOUT_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          
+          <label className="flex items-center text-gray-300">
+            <input
+              type="checkbox"
+              checked={autoLock.lockOnHide}
+              onChange={(e) => handleAutoLockChange({ lockOnHide: e.target.checked })}
+              className="mr-2"
+            />
+            Lock when this tab is hidden
+          </label>
+        </div>
+        
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold mb-4 text-white">Trash</h2>
+          <p className="text-gray-300 mb-4">
+            Deleted personas stay in the trash, with their keys, until they are purged. Personas with active
+            on-chain proofs are only purged once you decide whether to revoke those proofs.
+          </p>
+          
+          <label className="block text-gray-300 text-sm">
+            Keep deleted personas for
+            <select
+              value={storage?.settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mt-1"
+            >
+              {RETENTION_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        
+        <ChangePassphraseForm onRekeyed={handleRekeyed} />
+        
+        <KeySharesPanel
+          shareSets={storage?.keyShareSets || []}
+          onChange={loadStorage}
+        />
+        
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold mb-4 text-white">Storage Backend</h2>
+          <p className="text-gray-300 mb-4">
+            Choose where your encrypted vault is kept on this device. IndexedDB is not limited by the 5 MB localStorage quota.
+          </p>
+          
+          <select
+            value={storageBackend}
+            onChange={(e) => handleBackendChange(e.target.value as StorageBackend)}
+            disabled={isSwitchingBackend}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
           >
-            {isImporting ? (
-              <>
-                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Importing...
-              </>
-            ) : 'Import Data'}
-          </button>
+            <option value="localStorage">Browser localStorage</option>
+            <option value="indexedDB">IndexedDB</option>
+            <option value="memory">In memory (this session only)</option>
+          </select>
         </div>
+        
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold mb-4 text-white">Vault Integrity</h2>
+          <p className="text-gray-300 mb-4">
+            Check the stored vault, persona keys and audit log for damage. Repairs never write over a vault that cannot be decrypted.
+          </p>
+          <VaultIntegrityPanel onRepaired={loadStorage} />
+        </div>
+        
+        <AuditLogViewer />
       </div>
       
       {message && (
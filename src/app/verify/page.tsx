@@ -13,18 +13,33 @@ import {
   FaUserCheck,
 } from 'react-icons/fa';
 
+import UnlockVaultForm from '@/components/UnlockVaultForm';
 import { verifyProof } from '@/lib/blockchain/contractInteractions';
+import {
+  findPersonaByVerifiedKey,
+  isFingerprintRevokedOnLedger,
+  isKeyRevokedOnLedger,
+} from '@/lib/blockchain/signedProofs';
 import { verifyPersonaAcrossPlatforms } from '@/lib/blockchain/solana';
 import {
-  decryptStorage,
-  loadEncryptedStorage,
-} from '@/lib/storage/localStore';
-import { Persona } from '@/types';
+  normalizeFingerprint,
+  shortFingerprint,
+} from '@/lib/storage/identity';
+import { useSecureStorage } from '@/lib/storage/useSecureStorage';
+import { StoredPersona } from '@/types';
 
 export default function VerifyPage() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [personas, setPersonas] = useState<Persona[]>([]);
-  const [privateKey, setPrivateKey] = useState('');
+  const {
+    storage,
+    isLoading,
+    isLocked,
+    lockReason,
+    hasVault,
+    isLegacyVault,
+    error: storageError,
+    unlock,
+  } = useSecureStorage();
+  const [personas, setPersonas] = useState<StoredPersona[]>([]);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   
@@ -36,7 +51,7 @@ export default function VerifyPage() {
   const [isVerifying, setIsVerifying] = useState(false);
   
   // Cross-platform verification
-  const [personaId, setPersonaId] = useState('');
+  const [personaFingerprint, setPersonaFingerprint] = useState('');
   const [platform1, setPlatform1] = useState('twitter');
   const [platform2, setPlatform2] = useState('github');
   const [username1, setUsername1] = useState('');
@@ -47,33 +62,9 @@ export default function VerifyPage() {
   const [showVerificationCode, setShowVerificationCode] = useState(false);
 
   useEffect(() => {
-    loadPersonas();
-  }, []);
-
-  const loadPersonas = async () => {
-    setIsLoading(true);
-    try {
-      const encryptedData = await loadEncryptedStorage();
-      if (encryptedData) {
-        // In a real app, we would prompt for the master key
-        // For demo purposes, we'll use a simulated key retrieval
-        const simulatedPrivateKey = localStorage.getItem('whoim_demo_private_key') || '';
-        setPrivateKey(simulatedPrivateKey);
-        
-        if (simulatedPrivateKey) {
-          const storage = await decryptStorage(encryptedData, simulatedPrivateKey);
-          // Filter to only include public personas
-          const publicPersonas = storage.personas.filter(p => p.isPublic);
-          setPersonas(publicPersonas);
-        }
-      }
-    } catch (err) {
-      console.error('Failed to load personas:', err);
-      setError('Failed to load public personas.');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    // Filter to only include public personas
+    setPersonas(storage ? storage.personas.filter(p => p.isPublic) : []);
+  }, [storage]);
 
   const handleDirectVerification = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -92,7 +83,10 @@ export default function VerifyPage() {
       // Call the verification function
       const result = await verifyProof(proofId, publicKey, platformId);
       
-      if (result) {
+      if (result && await isKeyRevokedOnLedger(publicKey)) {
+        setVerificationResult('failure');
+        setError('Verification failed. The proof exists, but the key that made it has been revoked.');
+      } else if (result) {
         setVerificationResult('success');
         setSuccess('Verification successful! The proof is valid.');
       } else {
@@ -111,7 +105,7 @@ export default function VerifyPage() {
   const handleCrossVerification = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!personaId || !platform1 || !platform2 || !username1 || !username2) {
+    if (!personaFingerprint || !platform1 || !platform2 || !username1 || !username2) {
       setError('Please fill in all fields');
       return;
     }
@@ -122,8 +116,26 @@ export default function VerifyPage() {
     setCrossVerificationResult(null);
     
     try {
+      // A fingerprint the persona rotated away from resolves to its current key
+      const persona = await findPersonaByVerifiedKey(personas, personaFingerprint);
+      // Keys outside this vault are only known to be revoked from the ledgers
+      const revoked = !!persona?.revocation
+        || await isFingerprintRevokedOnLedger(normalizeFingerprint(personaFingerprint))
+        || (!!persona?.publicKey && await isKeyRevokedOnLedger(persona.publicKey));
+      if (revoked) {
+        setCrossVerificationResult('failure');
+        setError('Cross-platform verification failed. This persona\'s key has been revoked.');
+        return;
+      }
+      
       // Call the cross-platform verification function
-      const result = await verifyPersonaAcrossPlatforms(personaId, platform1, username1, platform2, username2);
+      const result = await verifyPersonaAcrossPlatforms(
+        persona?.fingerprint || normalizeFingerprint(personaFingerprint),
+        platform1,
+        username1,
+        platform2,
+        username2
+      );
       
       if (result) {
         setCrossVerificationResult('success');
@@ -167,6 +179,18 @@ export default function VerifyPage() {
     );
   }
 
+  if (isLocked) {
+    return (
+      <UnlockVaultForm
+        hasVault={hasVault}
+        isLegacyVault={isLegacyVault}
+        error={storageError}
+        lockReason={lockReason}
+        onUnlock={unlock}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <header className="bg-gray-800 shadow-md">
@@ -325,21 +349,25 @@ export default function VerifyPage() {
             
             <form onSubmit={handleCrossVerification}>
               <div className="mb-4">
-                <label htmlFor="personaId" className="block text-gray-300 mb-2">Persona ID</label>
-                <select
-                  id="personaId"
-                  value={personaId}
-                  onChange={(e) => setPersonaId(e.target.value)}
-                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                <label htmlFor="personaFingerprint" className="block text-gray-300 mb-2">Persona</label>
+                <input
+                  type="text"
+                  id="personaFingerprint"
+                  list="personaFingerprints"
+                  value={personaFingerprint}
+                  onChange={(e) => setPersonaFingerprint(e.target.value)}
+                  className="w-full bg-gray-700 text-white px-4 py-2 rounded font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Key fingerprint, current or earlier"
                   required
-                >
-                  <option value="">Select a persona</option>
-                  {personas.map(persona => (
-                    <option key={persona.id} value={persona.id}>
-                      {persona.name || persona.id.substring(0, 8)} {persona.isPublic ? '(Public)' : '(Private)'}
+                />
+                <datalist id="personaFingerprints">
+                  {personas.filter(persona => persona.fingerprint).map(persona => (
+                    <option key={persona.id} value={persona.fingerprint}>
+                      {persona.name || shortFingerprint(persona.fingerprint)} {persona.isPublic ? '(Public)' : '(Private)'}
+                      {persona.revocation ? ' (Revoked)' : ''}
                     </option>
                   ))}
-                </select>
+                </datalist>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
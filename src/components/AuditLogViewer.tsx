@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaCheckCircle,
+  FaExclamationTriangle,
+} from 'react-icons/fa';
+
+import { AuditVerification } from '@/lib/storage/auditLog';
+import { loadVerifiedAuditLog } from '@/lib/storage/localStore';
+import { AuditEntry } from '@/types';
+
+export default function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleLoad = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const { entries: log, verification: result } = await loadVerifiedAuditLog();
+      setEntries(log);
+      setVerification(result);
+    } catch (err) {
+      console.error('Failed to load audit log:', err);
+      setError('The audit log could not be decrypted: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const problemsBySeq = new Map<number, string[]>();
+  verification?.problems.forEach(({ seq, problem }) => {
+    problemsBySeq.set(seq, [...(problemsBySeq.get(seq) || []), problem]);
+  });
+  // Problems with entries that are no longer in the log, such as ones cut from its end
+  const missingProblems = verification?.problems.filter(({ seq }) => !entries?.some(entry => entry.seq === seq)) || [];
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg md:col-span-2">
+      <h2 className="text-xl font-semibold mb-4 text-white">Audit Log</h2>
+      <p className="text-gray-300 mb-4">
+        Every change to the vault is recorded in an encrypted log. Each entry carries the hash of the one
+        before it, so removed or altered entries show up when the log is verified.
+      </p>
+
+      <button
+        onClick={handleLoad}
+        disabled={isLoading}
+        className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded mb-4"
+      >
+        {isLoading ? 'Verifying...' : entries ? 'Reload and Verify' : 'Load and Verify'}
+      </button>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {verification && entries && (
+        <div className={`mb-4 p-3 rounded flex items-center ${
+          verification.valid ? 'bg-green-900/30 border border-green-700 text-green-200' : 'bg-red-900/30 border border-red-700 text-red-200'
+        }`}>
+          {verification.valid ? <FaCheckCircle className="mr-2" /> : <FaExclamationTriangle className="mr-2" />}
+          {verification.valid
+            ? `Chain intact: ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}.`
+            : `${verification.problems.length} problem(s) found. The log was tampered with or entries are missing.`}
+        </div>
+      )}
+
+      {missingProblems.length > 0 && (
+        <ul className="mb-4 text-sm text-red-200 space-y-1">
+          {missingProblems.map(({ seq, problem }) => (
+            <li key={`${seq}-${problem}`} className="flex items-center">
+              <FaExclamationTriangle className="mr-2" /> #{seq}: {problem}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {entries && entries.length > 0 && (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-400 text-xs uppercase">
+              <tr>
+                <th className="p-2">#</th>
+                <th className="p-2">Time</th>
+                <th className="p-2">Action</th>
+                <th className="p-2">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...entries].reverse().map(entry => {
+                const problems = problemsBySeq.get(entry.seq);
+                return (
+                  <tr
+                    key={`${entry.seq}-${entry.hash}`}
+                    className={problems ? 'bg-red-900/30 text-red-200' : 'border-t border-gray-700 text-gray-300'}
+                  >
+                    <td className="p-2 font-mono">{entry.seq}</td>
+                    <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="p-2 font-mono">{entry.action}</td>
+                    <td className="p-2">
+                      {entry.details}
+                      {problems?.map(problem => (
+                        <div key={problem} className="text-xs mt-1 flex items-center">
+                          <FaExclamationTriangle className="mr-1" /> {problem}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {entries && entries.length === 0 && (
+        <p className="text-gray-400 text-sm">No changes have been recorded yet.</p>
+      )}
+    </div>
+  );
+}
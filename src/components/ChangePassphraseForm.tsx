@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  RekeyResult,
+  rekeyVault,
+} from '@/lib/storage/rekey';
+
+interface ChangePassphraseFormProps {
+  onRekeyed: (result: RekeyResult) => void;
+}
+
+export default function ChangePassphraseForm({ onRekeyed }: ChangePassphraseFormProps) {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [keepPassphrase, setKeepPassphrase] = useState(false);
+  const [isRekeying, setIsRekeying] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!keepPassphrase) {
+      if (newPassphrase.length < 12) {
+        setError('Please choose a passphrase of at least 12 characters');
+        return;
+      }
+      if (newPassphrase !== confirmPassphrase) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setIsRekeying(true);
+    try {
+      const result = await rekeyVault({
+        currentPassphrase,
+        newPassphrase: keepPassphrase ? currentPassphrase : newPassphrase,
+      });
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      onRekeyed(result);
+    } catch (err) {
+      console.error('Failed to rekey vault:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRekeying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <h2 className="text-xl font-semibold mb-4 text-white">Change Passphrase</h2>
+      <p className="text-gray-300 mb-4">
+        Re-encrypts the vault and every persona key under new keys. If you suspect someone saw your vault
+        or passphrase, run it again; key shares handed out earlier stop working.
+      </p>
+
+      <input
+        type="password"
+        value={currentPassphrase}
+        onChange={(e) => setCurrentPassphrase(e.target.value)}
+        className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-2"
+        placeholder="Current passphrase"
+        autoComplete="current-password"
+        required
+      />
+
+      {!keepPassphrase && (
+        <>
+          <input
+            type="password"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-2"
+            placeholder="New passphrase (at least 12 characters)"
+            autoComplete="new-password"
+            required
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mb-2"
+            placeholder="Confirm new passphrase"
+            autoComplete="new-password"
+            required
+          />
+        </>
+      )}
+
+      <label className="flex items-center text-gray-300 text-sm mb-4">
+        <input
+          type="checkbox"
+          checked={keepPassphrase}
+          onChange={(e) => setKeepPassphrase(e.target.checked)}
+          className="mr-2"
+        />
+        Keep my passphrase and only replace the keys
+      </label>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isRekeying || !currentPassphrase}
+        className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded"
+      >
+        {isRekeying ? 'Re-encrypting...' : keepPassphrase ? 'Replace Vault Keys' : 'Change Passphrase'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { formatAccount } from '@/lib/storage/accounts';
+import {
+  ConnectedAccount,
+  ConnectedAccountStatus,
+} from '@/types';
+
+interface ConnectedAccountListProps {
+  accounts: ConnectedAccount[];
+}
+
+const STATUS_STYLES: Record<ConnectedAccountStatus, string> = {
+  pending: 'bg-yellow-900/50 text-yellow-200',
+  verified: 'bg-green-900/50 text-green-200',
+  stale: 'bg-gray-500 text-gray-200',
+  revoked: 'bg-red-900/50 text-red-200',
+};
+
+export default function ConnectedAccountList({ accounts }: ConnectedAccountListProps) {
+  if (accounts.length === 0) {
+    return <p className="text-sm text-gray-400">No connected accounts</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {accounts.map(account => (
+        <li
+          key={`${account.platform}:${account.handle}:${account.createdAt}`}
+          className="bg-gray-600 px-2 py-1 rounded text-gray-300 flex items-center justify-between"
+        >
+          <span className={account.status === 'revoked' ? 'line-through' : ''}>
+            {account.profileUrl ? (
+              <a href={account.profileUrl} target="_blank" rel="noopener noreferrer" className="hover:text-white">
+                {formatAccount(account)}
+              </a>
+            ) : formatAccount(account)}
+            {account.proofUrl && (
+              <a
+                href={account.proofUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-2 text-xs text-indigo-300 hover:text-indigo-200"
+              >
+                proof
+              </a>
+            )}
+          </span>
+          <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[account.status]}`}>
+            {account.status}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -2,139 +2,291 @@
 
 import { useState } from 'react';
 
-import { createIdentityProof } from '@/lib/blockchain/contractInteractions';
-import { Persona } from '@/types';
+import { PERSONA_SUBKEY_ROLES } from '@/lib/storage/subkeys';
+import {
+  CreatePersonaInput,
+  KeyUserID,
+  PersonaKeyAlgorithm,
+  PersonaSubkeyRole,
+} from '@/types';
+
+// Who the persona's key names. Any user ID is public to everyone the key is shared with.
+type UserIDMode = 'none' | 'name' | 'nameEmail' | 'custom';
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+  { days: 1825, label: '5 years' },
+];
+
+// Subkeys can be rotated on their own, so they may be kept shorter-lived than the key
+const SUBKEY_EXPIRY_OPTIONS = [
+  { days: 0, label: 'With the key' },
+  { days: 90, label: '3 months' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+];
+
+const SUBKEY_LABELS: Record<PersonaSubkeyRole, string> = {
+  signing: 'Signing Subkey',
+  encryption: 'Encryption Subkey',
+  authentication: 'Authentication Subkey',
+};
 
 interface CreatePersonaFormProps {
-  onPersonaCreated: (persona: Persona) => void;
+  // Whether the vault derives persona keys from its recovery phrase
+  canDeriveKeys?: boolean;
+  onSubmit: (input: CreatePersonaInput) => Promise<void>;
   onCancel: () => void;
 }
 
-export default function CreatePersonaForm({ onPersonaCreated, onCancel }: CreatePersonaFormProps) {
+export default function CreatePersonaForm({ canDeriveKeys = false, onSubmit, onCancel }: CreatePersonaFormProps) {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [isPublic, setIsPublic] = useState(false);
+  const [algorithm, setAlgorithm] = useState<PersonaKeyAlgorithm>('ecc');
+  // Keys from a vault's recovery phrase need a user ID to be derived again
+  const [userIDMode, setUserIDMode] = useState<UserIDMode>(canDeriveKeys ? 'name' : 'none');
+  const [customName, setCustomName] = useState('');
+  const [customEmail, setCustomEmail] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [subkeyExpiresInDays, setSubkeyExpiresInDays] = useState<Record<PersonaSubkeyRole, number>>({
+    signing: 0,
+    encryption: 0,
+    authentication: 0,
+  });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
+  const derivable = algorithm === 'ecc' && userIDMode !== 'none';
+
+  const getUserIDs = (): KeyUserID[] => {
+    switch (userIDMode) {
+      case 'name':
+        return [{ name }];
+      case 'nameEmail':
+        return [{ name, email }];
+      case 'custom':
+        return [{ name: customName.trim(), email: customEmail.trim() }];
+      default:
+        return [];
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!name || !email) {
+      setError('Please provide both name and email');
+      return;
+    }
+    if (userIDMode === 'custom' && !customName.trim() && !customEmail.trim()) {
+      setError('Please enter a name or email for the key, or choose another user ID');
+      return;
+    }
+    if (canDeriveKeys && !derivable && !confirm(
+      'This key cannot be re-created from the vault\'s recovery phrase. If this device and your backups are lost, '
+      + 'the persona is lost with them. Create it anyway?'
+    )) {
+      return;
+    }
+
     setIsLoading(true);
     setError('');
 
     try {
-      // Generate a unique platform ID for this persona
-      const platformId = `whoim_${Date.now()}`;
-      
-      // Create a proof hash (in a real app, this would be more sophisticated)
-      const proofHash = btoa(`${name}:${email}:${Date.now()}`);
-      
-      // Create the identity proof on the blockchain
-      const proofId = await createIdentityProof(
-        'dummy-public-key', // In a real app, this would be a real PGP public key
-        proofHash,
-        isPublic,
-        platformId
-      );
-      
-      // Create the new persona object
-      const newPersona: Persona = {
-        id: `persona_${Date.now()}`,
+      await onSubmit({
         name,
         email,
         isPublic,
-        proofId,
-        platformId,
-        createdAt: new Date().toISOString()
-      };
-      
-      onPersonaCreated(newPersona);
+        keyOptions: {
+          algorithm,
+          userIDs: getUserIDs(),
+          expiresInDays: expiresInDays || undefined,
+          subkeyExpiresInDays,
+        },
+      });
     } catch (err) {
       console.error('Error creating persona:', err);
-      setError('Failed to create persona. Please try again.');
+      setError('Failed to create persona: ' + (err instanceof Error ? err.message : String(err)));
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
-      <h2 className="text-xl font-bold mb-4 text-white">Create New Persona</h2>
-      
+    <div className="mb-6 bg-gray-800 rounded-xl p-6 shadow-lg">
+      <h2 className="text-xl font-semibold mb-4">Create New Persona</h2>
+
       {error && (
-        <div className="mb-4 p-3 bg-red-900/50 border border-red-500 rounded text-red-200 text-sm">
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded text-sm">
           {error}
         </div>
       )}
-      
+
       <form onSubmit={handleSubmit}>
         <div className="mb-4">
           <label htmlFor="name" className="block text-gray-300 mb-2">Name</label>
           <input
-            id="name"
             type="text"
+            id="name"
             value={name}
             onChange={(e) => setName(e.target.value)}
-            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+            className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
             placeholder="Persona name"
             required
           />
         </div>
-        
+
         <div className="mb-4">
           <label htmlFor="email" className="block text-gray-300 mb-2">Email</label>
           <input
-            id="email"
             type="email"
+            id="email"
             value={email}
             onChange={(e) => setEmail(e.target.value)}
-            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
-            placeholder="email@example.com"
+            className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="persona.email@example.com"
             required
           />
         </div>
-        
-        <div className="mb-6">
-          <label className="relative inline-flex items-center cursor-pointer">
-            <input 
-              type="checkbox" 
-              className="sr-only peer"
+
+        <div className="mb-4">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
               checked={isPublic}
               onChange={(e) => setIsPublic(e.target.checked)}
+              className="form-checkbox h-5 w-5 text-indigo-600 rounded focus:ring-indigo-500 border-gray-600 bg-gray-700"
             />
-            <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-500"></div>
-            <span className="ml-2 text-sm font-medium text-gray-300">
-              Make this persona publicly visible
-            </span>
+            <span className="ml-2 text-gray-300">Make this persona publicly visible</span>
           </label>
-          <p className="mt-1 text-xs text-gray-400">
-            Public personas can be verified by others across platforms
+          <p className="mt-1 text-xs text-gray-400 ml-7">
+            Public personas can be verified by others. Private personas are only visible to you.
           </p>
         </div>
-        
-        <div className="flex justify-end space-x-3">
+
+        <fieldset className="mb-6 border border-gray-700 rounded p-4">
+          <legend className="text-gray-300 px-1">PGP Key</legend>
+
+          <div className="mb-4">
+            <label htmlFor="keyAlgorithm" className="block text-gray-300 mb-2 text-sm">Algorithm</label>
+            <select
+              id="keyAlgorithm"
+              value={algorithm}
+              onChange={(e) => setAlgorithm(e.target.value as PersonaKeyAlgorithm)}
+              className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="ecc">ECC (Ed25519 / Curve25519)</option>
+              <option value="rsa4096">RSA-4096 (slower, for older keyrings)</option>
+            </select>
+          </div>
+
+          <div className="mb-4">
+            <label htmlFor="keyUserID" className="block text-gray-300 mb-2 text-sm">User ID</label>
+            <select
+              id="keyUserID"
+              value={userIDMode}
+              onChange={(e) => setUserIDMode(e.target.value as UserIDMode)}
+              className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="none">None</option>
+              <option value="name">Persona name</option>
+              <option value="nameEmail">Persona name and email</option>
+              <option value="custom">Custom</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-400">
+              {userIDMode === 'none'
+                ? 'The key names no one. It is created as an OpenPGP v6 key, which some older keyrings cannot read.'
+                : 'Anyone you share the public key with can read its user ID.'}
+            </p>
+          </div>
+
+          {userIDMode === 'custom' && (
+            <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={customName}
+                onChange={(e) => setCustomName(e.target.value)}
+                className="bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder="Name on the key"
+                aria-label="Name on the key"
+              />
+              <input
+                type="email"
+                value={customEmail}
+                onChange={(e) => setCustomEmail(e.target.value)}
+                className="bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder="Email on the key"
+                aria-label="Email on the key"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="keyExpiry" className="block text-gray-300 mb-2 text-sm">Expires</label>
+            <select
+              id="keyExpiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3">
+            {PERSONA_SUBKEY_ROLES.map(role => (
+              <div key={role}>
+                <label htmlFor={`${role}SubkeyExpiry`} className="block text-gray-300 mb-2 text-sm">{SUBKEY_LABELS[role]} Expires</label>
+                <select
+                  id={`${role}SubkeyExpiry`}
+                  value={subkeyExpiresInDays[role]}
+                  onChange={(e) => setSubkeyExpiresInDays(current => ({ ...current, [role]: Number(e.target.value) }))}
+                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {SUBKEY_EXPIRY_OPTIONS.map(option => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {canDeriveKeys && !derivable && (
+            <div className="mt-3 bg-yellow-900/30 border border-yellow-700 text-yellow-200 p-3 rounded text-xs">
+              This key cannot be recovered with the vault&apos;s recovery phrase: only ECC keys with a user ID can
+              be re-created from it. If this device and your backups are lost, the persona is lost too. Choose a
+              user ID and ECC to make it recoverable, or keep a backup of this key.
+            </div>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end space-x-4">
           <button
             type="button"
             onClick={onCancel}
-            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded"
+            className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
             disabled={isLoading}
           >
             Cancel
           </button>
           <button
             type="submit"
-            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded flex items-center"
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors flex items-center"
             disabled={isLoading}
           >
             {isLoading ? (
               <>
-                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
+                <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2"></div>
                 Creating...
               </>
-            ) : 'Create Persona'}
+            ) : (
+              'Create Persona'
+            )}
           </button>
         </div>
       </form>
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+
+import { FaDownload } from 'react-icons/fa';
+
+import { shortFingerprint } from '@/lib/storage/identity';
+import { exportPersona } from '@/lib/storage/personaBundle';
+import { StoredPersona } from '@/types';
+
+interface ExportPersonaFormProps {
+  persona: StoredPersona;
+  onClose: () => void;
+}
+
+export default function ExportPersonaForm({ persona, onClose }: ExportPersonaFormProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (passphrase.length < 12) {
+      setError('Bundle passphrase must be at least 12 characters.');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const bundle = await exportPersona(persona.id, passphrase);
+      const blob = new Blob([bundle], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `whoim_persona_${persona.name || persona.id}.whoim-backup.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting persona:', err);
+      setError('Failed to export persona: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-gray-800 rounded-xl p-6 shadow-lg">
+      <h2 className="text-xl font-semibold mb-2">Export {persona.name || shortFingerprint(persona.fingerprint)}</h2>
+      <p className="text-gray-300 mb-4 text-sm">
+        The bundle holds this persona&apos;s record, private key, proofs and settings, encrypted to the passphrase
+        below and signed with your master key. Import it on the other device from the Personas page.
+      </p>
+      <form onSubmit={handleSubmit}>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Bundle passphrase (min. 12 characters)"
+          autoComplete="new-password"
+          className="w-full bg-gray-700 text-white px-4 py-2 rounded mb-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <input
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          placeholder="Confirm bundle passphrase"
+          autoComplete="new-password"
+          className="w-full bg-gray-700 text-white px-4 py-2 rounded mb-4 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+
+        {error && (
+          <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isExporting || !passphrase}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors flex items-center"
+          >
+            <FaDownload className="mr-2" /> {isExporting ? 'Exporting...' : 'Download Bundle'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+
+import { FaExclamationTriangle } from 'react-icons/fa';
+
+import { formatFingerprint } from '@/lib/storage/identity';
+import {
+  importPersona,
+  PersonaImportPreview,
+  PersonaImportResolution,
+  previewPersonaImport,
+} from '@/lib/storage/personaBundle';
+
+interface ImportPersonaFormProps {
+  onImported: (personaId: string) => void;
+  onCancel: () => void;
+}
+
+export default function ImportPersonaForm({ onImported, onCancel }: ImportPersonaFormProps) {
+  const [bundleText, setBundleText] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [preview, setPreview] = useState<PersonaImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setBundleText(await file.text());
+      setPreview(null);
+    }
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsWorking(true);
+    try {
+      setPreview(await previewPersonaImport(bundleText, passphrase));
+    } catch (err) {
+      console.error('Error reading persona bundle:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async (resolution?: PersonaImportResolution) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      const personaId = await importPersona(bundleText, passphrase, resolution);
+      onImported(personaId);
+    } catch (err) {
+      console.error('Error importing persona:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-gray-800 rounded-xl p-6 shadow-lg">
+      <h2 className="text-xl font-semibold mb-4">Import Persona</h2>
+
+      {!preview ? (
+        <form onSubmit={handlePreview}>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="w-full text-gray-300 mb-2"
+          />
+          <textarea
+            value={bundleText}
+            onChange={(e) => setBundleText(e.target.value)}
+            placeholder="...or paste the persona bundle here"
+            className="w-full h-32 bg-gray-700 text-white p-2 rounded font-mono text-xs mb-2"
+          />
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Bundle passphrase"
+            autoComplete="current-password"
+            className="w-full bg-gray-700 text-white px-4 py-2 rounded mb-4 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+
+          {error && (
+            <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isWorking || !bundleText.trim() || !passphrase}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors"
+            >
+              {isWorking ? 'Verifying...' : 'Verify Bundle'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div>
+          <div className="bg-gray-700 p-4 rounded-lg mb-4 text-sm space-y-1">
+            <p><span className="text-gray-400">Persona:</span> {preview.persona.name || preview.persona.id}</p>
+            {preview.persona.fingerprint && (
+              <p><span className="text-gray-400">Fingerprint:</span> <span className="font-mono">{formatFingerprint(preview.persona.fingerprint)}</span></p>
+            )}
+            <p><span className="text-gray-400">Created:</span> {new Date(preview.persona.createdAt).toLocaleString()}</p>
+            <p>
+              <span className="text-gray-400">Contents:</span> {preview.persona.accounts} accounts, {preview.persona.proofs} proofs,
+              {preview.hasPrivateKey ? ' private key' : ' no private key'}
+            </p>
+            <p className="font-mono text-xs break-all">
+              <span className="text-gray-400 font-sans text-sm">Signed by:</span> {preview.signerFingerprint}
+              {preview.signedByThisVault ? ' (this vault)' : ' (another vault)'}
+            </p>
+          </div>
+
+          {preview.collisions.length > 0 && (
+            <div className="mb-4 bg-yellow-900/30 border border-yellow-700 text-yellow-200 p-3 rounded flex items-start">
+              <FaExclamationTriangle className="mt-1 mr-2 flex-shrink-0" />
+              <div>
+                <p className="mb-1">This persona collides with existing personas:</p>
+                <ul className="list-disc list-inside text-sm">
+                  {preview.collisions.map(collision => (
+                    <li key={collision.personaId}>
+                      {collision.name || collision.personaId} (same {collision.reason === 'id' ? 'ID' : 'key'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onCancel}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
+            >
+              Cancel
+            </button>
+            {preview.collisions.length === 0 ? (
+              <button
+                onClick={() => handleImport()}
+                disabled={isWorking}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors"
+              >
+                {isWorking ? 'Importing...' : 'Import Persona'}
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleImport('keepBoth')}
+                  disabled={isWorking}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors"
+                >
+                  Keep Both
+                </button>
+                <button
+                  onClick={() => handleImport('replace')}
+                  disabled={isWorking}
+                  className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded transition-colors"
+                >
+                  Replace Existing
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaHistory,
+  FaSyncAlt,
+} from 'react-icons/fa';
+
+import {
+  formatFingerprint,
+  shortFingerprint,
+} from '@/lib/storage/identity';
+import { KeyRotationOptions } from '@/lib/storage/keyRotation';
+import {
+  Persona,
+  PersonaKeyAlgorithm,
+  ProofLedger,
+} from '@/types';
+
+interface KeyRotationPanelProps {
+  persona: Persona;
+  // Resolves to the new key's fingerprint, or null if the rotation failed
+  onRotate: (options: KeyRotationOptions) => Promise<string | null>;
+  onRotated: (fingerprint: string) => void;
+}
+
+export default function KeyRotationPanel({ persona, onRotate, onRotated }: KeyRotationPanelProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [algorithm, setAlgorithm] = useState<PersonaKeyAlgorithm>('ecc');
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [ledger, setLedger] = useState<ProofLedger>('solana');
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState('');
+  const history = [...(persona.keyHistory || [])].reverse();
+
+  const handleRotate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Rotate this persona to a new key? The current private key is replaced on this device; proofs made with it stay valid.')) {
+      return;
+    }
+
+    setIsRotating(true);
+    setError('');
+    try {
+      const fingerprint = await onRotate({ algorithm, expiresInDays: expiresInDays || undefined, ledger });
+      if (!fingerprint) {
+        throw new Error('The key could not be rotated');
+      }
+      setShowForm(false);
+      onRotated(fingerprint);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mt-6">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <FaHistory className="mr-2 text-indigo-400" /> Key History of {persona.name || shortFingerprint(persona.fingerprint)}
+      </h2>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-4 text-sm">
+        <p className="text-gray-400 text-xs uppercase mb-1">Current Key</p>
+        <p className="font-mono text-gray-300 break-words">{formatFingerprint(persona.fingerprint)}</p>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-gray-400 text-sm mb-4">This persona has never rotated its key.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {history.map(rotation => (
+            <li key={rotation.hash} className="bg-gray-700 p-3 rounded-lg text-xs">
+              <p className="font-mono text-gray-300 break-words">{formatFingerprint(rotation.previousFingerprint)}</p>
+              <p className="text-gray-400 mt-1">
+                Handed over to {shortFingerprint(rotation.fingerprint)} on {new Date(rotation.rotatedAt).toLocaleString()}
+                {rotation.ledger !== 'none' && <>, anchored on {rotation.ledger}</>}
+                {rotation.transactionId && <span className="font-mono"> ({rotation.transactionId})</span>}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {persona.revocation ? (
+        <p className="text-gray-400 text-sm">This persona&apos;s key has been revoked, so it can no longer be rotated.</p>
+      ) : showForm ? (
+        <form onSubmit={handleRotate} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="rotateAlgorithm" className="block text-gray-300 mb-1 text-sm">Algorithm</label>
+              <select
+                id="rotateAlgorithm"
+                value={algorithm}
+                onChange={(e) => setAlgorithm(e.target.value as PersonaKeyAlgorithm)}
+                className="w-full bg-gray-700 text-white px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="ecc">ECC (Ed25519 / Curve25519)</option>
+                <option value="rsa4096">RSA-4096</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rotateExpiry" className="block text-gray-300 mb-1 text-sm">Expires</label>
+              <select
+                id="rotateExpiry"
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="w-full bg-gray-700 text-white px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value={0}>Never</option>
+                <option value={365}>1 year</option>
+                <option value={730}>2 years</option>
+                <option value={1825}>5 years</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rotateLedger" className="block text-gray-300 mb-1 text-sm">Anchor On</label>
+              <select
+                id="rotateLedger"
+                value={ledger}
+                onChange={(e) => setLedger(e.target.value as ProofLedger)}
+                className="w-full bg-gray-700 text-white px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="solana">Solana</option>
+                <option value="ethereum">Ethereum</option>
+                <option value="none">No ledger</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-gray-400 text-xs">
+            The new key keeps the current key&apos;s user IDs. The hand-over is signed by both keys, so proofs made with
+            earlier keys keep verifying.
+          </p>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm"
+              disabled={isRotating}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded text-sm flex items-center"
+              disabled={isRotating}
+            >
+              <FaSyncAlt className={`mr-2 ${isRotating ? 'animate-spin' : ''}`} />
+              {isRotating ? 'Rotating...' : 'Rotate Key'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm flex items-center"
+        >
+          <FaSyncAlt className="mr-2" /> Rotate Key
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaCopy,
+  FaDownload,
+  FaTrash,
+} from 'react-icons/fa';
+
+import {
+  createKeyShares,
+  forgetKeyShareSet,
+} from '@/lib/storage/keyShares';
+import { KeyShareSet } from '@/types';
+
+interface KeySharesPanelProps {
+  shareSets: KeyShareSet[];
+  onChange: () => void;
+}
+
+function downloadText(text: string, filename: string) {
+  const blob = new Blob([text], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export default function KeySharesPanel({ shareSets, onChange }: KeySharesPanelProps) {
+  const [shareCount, setShareCount] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  const [created, setCreated] = useState<{ shares: string[]; keyBackup: string; shareSet: KeyShareSet } | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const handleCreate = async () => {
+    setError('');
+    setIsCreating(true);
+    try {
+      // The list of share sets is refreshed once the shares are dismissed,
+      // since reloading the vault would unmount this panel
+      setCreated(await createKeyShares(shareCount, threshold));
+    } catch (err) {
+      console.error('Failed to create key shares:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleForget = async (setId: string) => {
+    if (!confirm('Forget this share set? Shares already handed out keep working until the vault passphrase is changed.')) {
+      return;
+    }
+    await forgetKeyShareSet(setId);
+    onChange();
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <h2 className="text-xl font-semibold mb-4 text-white">Key Shares</h2>
+      <p className="text-gray-300 mb-4">
+        Split access to your vault and master key between people you trust. Any {threshold} of {shareCount} shares,
+        together with the key backup, unlock the vault if the passphrase is lost. Fewer shares reveal nothing.
+      </p>
+
+      <div className="flex space-x-4 mb-4">
+        <label className="flex-1 text-gray-300 text-sm">
+          Shares
+          <input
+            type="number"
+            min={2}
+            max={255}
+            value={shareCount}
+            onChange={(e) => setShareCount(Number(e.target.value))}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mt-1"
+          />
+        </label>
+        <label className="flex-1 text-gray-300 text-sm">
+          Needed to recover
+          <input
+            type="number"
+            min={2}
+            max={shareCount}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white mt-1"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={handleCreate}
+        disabled={isCreating}
+        className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded mb-4"
+      >
+        {isCreating ? 'Creating...' : 'Create Key Shares'}
+      </button>
+
+      {created && (
+        <div className="bg-yellow-900/30 border border-yellow-700 rounded p-4 mb-4">
+          <p className="text-yellow-200 text-sm mb-3">
+            Give each share to a different person and keep the key backup with them or somewhere safe.
+            The shares will only be shown once!
+          </p>
+          <ul className="space-y-2 mb-3">
+            {created.shares.map((share, index) => (
+              <li key={share} className="flex items-center">
+                <code className="flex-1 bg-gray-900 text-gray-300 p-2 rounded text-xs break-all">{share}</code>
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(share);
+                    setCopied(index);
+                  }}
+                  className="ml-2 text-gray-400 hover:text-white"
+                  aria-label={`Copy share ${index + 1}`}
+                >
+                  {copied === index ? 'Copied' : <FaCopy />}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-between">
+            <button
+              onClick={() => downloadText(created.shares.join('\n'), `whoim_key_shares_${created.shareSet.id}.txt`)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm flex items-center"
+            >
+              <FaDownload className="mr-2" /> Shares
+            </button>
+            <button
+              onClick={() => downloadText(created.keyBackup, `whoim_key_backup_${created.shareSet.id}.json`)}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded text-sm flex items-center"
+            >
+              <FaDownload className="mr-2" /> Key Backup
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              setCreated(null);
+              onChange();
+            }}
+            className="mt-3 w-full bg-green-600 hover:bg-green-700 text-white py-2 rounded"
+          >
+            I&apos;ve Handed Out the Shares
+          </button>
+        </div>
+      )}
+
+      {shareSets.length > 0 && (
+        <div>
+          <h3 className="text-gray-400 text-xs uppercase mb-2">Issued share sets</h3>
+          <ul className="space-y-2">
+            {shareSets.map(set => (
+              <li key={set.id} className="flex items-center justify-between bg-gray-700 p-2 rounded text-sm">
+                <span>
+                  <span className="font-mono">{set.id}</span>: {set.threshold} of {set.shareCount},
+                  created {new Date(set.createdAt).toLocaleDateString()}
+                </span>
+                <button
+                  onClick={() => handleForget(set.id)}
+                  className="text-red-400 hover:text-red-300"
+                  aria-label={`Forget share set ${set.id}`}
+                >
+                  <FaTrash />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
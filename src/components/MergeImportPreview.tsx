@@ -0,0 +1,111 @@
+'use client';
+
+import { formatAccount } from '@/lib/storage/accounts';
+import {
+  FieldChange,
+  MergeChoices,
+  mergeChoiceKey,
+  MergeSide,
+  VaultMergePreview,
+} from '@/lib/storage/merge';
+
+interface MergeImportPreviewProps {
+  preview: VaultMergePreview;
+  choices: MergeChoices;
+  onChoose: (key: string, side: MergeSide) => void;
+}
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+  return text.length > 60 ? `${text.substring(0, 60)}...` : text;
+}
+
+export default function MergeImportPreview({ preview, choices, onChoose }: MergeImportPreviewProps) {
+  const renderChange = (personaId: string, change: FieldChange) => {
+    const key = mergeChoiceKey(personaId, change.field);
+    const isManual = change.changedOn === 'both' && preview.strategy === 'manual';
+    const resolution = isManual ? choices[key] ?? null : change.resolution;
+
+    return (
+      <li key={key} className="mb-2">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">{change.field}</span>
+          <span className={change.changedOn === 'both' ? 'text-yellow-400 text-xs' : 'text-gray-400 text-xs'}>
+            {change.changedOn === 'both' ? 'changed on both sides' : 'changed in backup'}
+          </span>
+        </div>
+        {(['local', 'incoming'] as MergeSide[]).map(side => (
+          <label key={side} className={`flex items-center text-xs font-mono ${resolution === side ? 'text-white' : 'text-gray-500'}`}>
+            {isManual && (
+              <input
+                type="radio"
+                name={key}
+                checked={resolution === side}
+                onChange={() => onChoose(key, side)}
+                className="mr-2"
+              />
+            )}
+            <span className="font-sans w-20">{side === 'local' ? 'This device' : 'Backup'}:</span>
+            {formatValue(side === 'local' ? change.local : change.incoming)}
+          </label>
+        ))}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-gray-700 p-4 rounded mb-4 text-sm text-gray-200">
+      <p className="mb-2">
+        {preview.added.length} new, {preview.merged.length} changed, {preview.unchanged} unchanged persona(s).
+      </p>
+
+      {preview.added.length > 0 && (
+        <div className="mb-3">
+          <h3 className="text-gray-400 text-xs uppercase mb-1">Added</h3>
+          <ul className="list-disc list-inside">
+            {preview.added.map(persona => (
+              <li key={persona.id}>{persona.name || persona.id}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview.merged.map(diff => (
+        <div key={diff.personaId} className="mb-3 border-t border-gray-600 pt-2">
+          <h3 className="font-semibold mb-1">
+            {diff.name || diff.personaId}
+            <span className="text-gray-400 text-xs ml-2">
+              matched by {diff.matchedBy === 'id' ? 'ID' : 'key fingerprint'}, {diff.newer === 'local' ? 'this device' : 'backup'} is newer
+            </span>
+          </h3>
+          {diff.addedAccounts.length > 0 && (
+            <p className="text-xs">+ {diff.addedAccounts.length} account(s): {diff.addedAccounts.map(formatAccount).join(', ')}</p>
+          )}
+          {diff.addedProofs.length > 0 && (
+            <p className="text-xs">+ {diff.addedProofs.length} proof(s)</p>
+          )}
+          <ul className="mt-1">
+            {diff.fields.map(change => renderChange(diff.personaId, change))}
+          </ul>
+        </div>
+      ))}
+
+      {preview.addedSettings.length > 0 && (
+        <p className="text-xs border-t border-gray-600 pt-2">
+          New settings from backup: {preview.addedSettings.join(', ')}
+        </p>
+      )}
+
+      {preview.quarantined.length > 0 && (
+        <div className="text-xs border-t border-gray-600 pt-2 text-yellow-300">
+          <p>{preview.quarantined.length} invalid record(s) in the backup will be kept in the quarantine instead of imported:</p>
+          <ul className="list-disc list-inside">
+            {preview.quarantined.flatMap(record => record.issues).slice(0, 10).map((issue, index) => (
+              <li key={`${issue.path}-${index}`} className="font-mono">{issue.path}: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,10 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 
 import { updateProofVisibility } from '@/lib/blockchain/contractInteractions';
+import {
+  formatFingerprint,
+  shortFingerprint,
+} from '@/lib/storage/identity';
 import { Persona } from '@/types';
 
 interface PersonaCardProps {
@@ -24,8 +28,8 @@ export default function PersonaCard({ persona, isActive, onSelect, onTogglePubli
     setIsPublic(newPublicState);
     
     try {
-      if (persona.proofId) {
-        await updateProofVisibility(persona.proofId, newPublicState);
+      if (persona.fingerprint) {
+        await updateProofVisibility(persona.fingerprint, newPublicState);
       }
       onTogglePublic(newPublicState);
     } catch (error) {
@@ -49,7 +53,7 @@ export default function PersonaCard({ persona, isActive, onSelect, onTogglePubli
           </div>
           <div>
             <h3 className="font-semibold text-white">{persona.name}</h3>
-            <p className="text-sm text-gray-300">{persona.email}</p>
+            <p className="text-sm text-gray-300 font-mono">{shortFingerprint(persona.fingerprint)}</p>
           </div>
         </div>
         
@@ -69,9 +73,9 @@ export default function PersonaCard({ persona, isActive, onSelect, onTogglePubli
         </div>
       </div>
       
-      {persona.proofId && (
+      {persona.fingerprint && (
         <div className="mt-2 text-xs text-gray-400 truncate">
-          <span className="font-semibold">Proof ID:</span> {persona.proofId}
+          <span className="font-semibold">Fingerprint:</span> {formatFingerprint(persona.fingerprint)}
         </div>
       )}
     </div>
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+
+import { FaTrashRestore } from 'react-icons/fa';
+
+import { shortFingerprint } from '@/lib/storage/identity';
+import {
+  countLedgerProofs,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashExpiry,
+  TrashPurgeResult,
+} from '@/lib/storage/trash';
+import { TrashedPersona } from '@/types';
+
+interface PersonaTrashProps {
+  trash: TrashedPersona[];
+  retentionDays?: number;
+  onRestore: (personaId: string) => Promise<boolean>;
+  onPurge: (personaId: string, options: { revokeProofs: boolean }) => Promise<TrashPurgeResult | null>;
+}
+
+export default function PersonaTrash({ trash, retentionDays = DEFAULT_TRASH_RETENTION_DAYS, onRestore, onPurge }: PersonaTrashProps) {
+  const [busyPersonaId, setBusyPersonaId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  if (trash.length === 0) {
+    return null;
+  }
+
+  const handleRestore = async (entry: TrashedPersona) => {
+    setMessage('');
+    setError('');
+    setBusyPersonaId(entry.persona.id);
+    try {
+      if (await onRestore(entry.persona.id)) {
+        setMessage(`Restored "${entry.persona.name}".`);
+      }
+    } finally {
+      setBusyPersonaId(null);
+    }
+  };
+
+  const handlePurge = async (entry: TrashedPersona) => {
+    setMessage('');
+    setError('');
+    setBusyPersonaId(entry.persona.id);
+    try {
+      const ledgerProofs = await countLedgerProofs(entry);
+      if (!confirm(`Purge "${entry.persona.name}" for good? Its private key is destroyed and it cannot be restored.`)) {
+        return;
+      }
+      // Proofs left on a ledger would keep vouching for a persona that no longer exists
+      const revokeProofs = ledgerProofs > 0 && confirm(
+        `This persona has ${ledgerProofs} active on-chain proof(s). Revoke them before purging? Proofs on Ethereum are hidden; `
+        + 'proofs on Solana stay readable on the ledger either way. Choose Cancel to leave them all on the ledger.'
+      );
+
+      const result = await onPurge(entry.persona.id, { revokeProofs });
+      if (result) {
+        setMessage(`Purged "${entry.persona.name}"${result.revokedProofs > 0 ? ` and revoked ${result.revokedProofs} proof(s)` : ''}.`
+          + (result.proofsLeftOnLedger > 0
+            ? ` ${result.proofsLeftOnLedger} proof(s) on Solana cannot be hidden and are still on the ledger.`
+            : ''));
+      }
+    } catch (err) {
+      setError('Failed to purge persona: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setBusyPersonaId(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mt-6">
+      <h2 className="text-xl font-semibold mb-4">Trash</h2>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 bg-green-900/30 border border-green-700 text-green-200 p-3 rounded text-sm">
+          {message}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {trash.map(entry => {
+          const expiry = getTrashExpiry(entry, retentionDays);
+          return (
+            <li key={entry.persona.id} className="bg-gray-700 p-3 rounded-lg flex items-center justify-between text-sm">
+              <div>
+                <p className="font-semibold">{entry.persona.name || shortFingerprint(entry.persona.fingerprint)}</p>
+                <p className="text-gray-400 text-xs">
+                  Deleted {new Date(entry.deletedAt).toLocaleString()}
+                  {expiry ? `, purged after ${expiry.toLocaleDateString()}` : ', kept until purged'}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleRestore(entry)}
+                  disabled={busyPersonaId !== null}
+                  className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-xs flex items-center"
+                >
+                  <FaTrashRestore className="mr-1" /> Restore
+                </button>
+                <button
+                  onClick={() => handlePurge(entry)}
+                  disabled={busyPersonaId !== null}
+                  className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-xs"
+                >
+                  Purge
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+
+import { validateRecoveryPhrase } from '@/lib/storage/mnemonic';
+import {
+  RecoveryRestoreResult,
+  restoreVaultFromRecoveryPhrase,
+} from '@/lib/storage/recovery';
+
+interface RestoreVaultFormProps {
+  onRestored: (result: RecoveryRestoreResult) => void;
+  onCancel: () => void;
+}
+
+export default function RestoreVaultForm({ onRestored, onCancel }: RestoreVaultFormProps) {
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [bundleText, setBundleText] = useState('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      validateRecoveryPhrase(recoveryPhrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    if (passphrase.length < 12) {
+      setError('Please choose a passphrase of at least 12 characters');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const result = await restoreVaultFromRecoveryPhrase({
+        recoveryPhrase,
+        bundleText,
+        backupPassphrase: backupPassphrase || undefined,
+        passphrase,
+      });
+      onRestored(result);
+    } catch (err) {
+      console.error('Failed to restore vault:', err);
+      setError('Failed to restore vault: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="mb-4">
+        <label htmlFor="recovery-phrase" className="block text-gray-300 mb-2">Recovery Phrase</label>
+        <textarea
+          id="recovery-phrase"
+          value={recoveryPhrase}
+          onChange={(e) => setRecoveryPhrase(e.target.value)}
+          className="w-full h-24 bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          placeholder="word1 word2 word3 ..."
+          autoComplete="off"
+          spellCheck={false}
+          required
+        />
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="backup-bundle" className="block text-gray-300 mb-2">Backup</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              setBundleText(await file.text());
+            }
+          }}
+          className="w-full text-gray-300 mb-2"
+        />
+        <textarea
+          id="backup-bundle"
+          value={bundleText}
+          onChange={(e) => setBundleText(e.target.value)}
+          className="w-full h-24 bg-gray-700 text-white p-2 rounded font-mono text-xs"
+          placeholder="...or paste the backup here"
+          required
+        />
+        <input
+          type="password"
+          value={backupPassphrase}
+          onChange={(e) => setBackupPassphrase(e.target.value)}
+          className="w-full bg-gray-700 text-white px-4 py-2 rounded mt-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          placeholder="Backup passphrase (leave empty for a recovery backup)"
+          autoComplete="off"
+        />
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="restore-passphrase" className="block text-gray-300 mb-2">New Vault Passphrase</label>
+        <input
+          type="password"
+          id="restore-passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full bg-gray-700 text-white px-4 py-2 rounded mb-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          autoComplete="new-password"
+          required
+        />
+        <input
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          placeholder="Confirm passphrase"
+          autoComplete="new-password"
+          required
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3 rounded-lg transition-colors"
+        disabled={isRestoring}
+      >
+        {isRestoring ? 'Restoring...' : 'Restore Vault'}
+      </button>
+
+      <div className="mt-4 text-center">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-gray-400 hover:text-white"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaBan,
+  FaDownload,
+} from 'react-icons/fa';
+
+import {
+  formatFingerprint,
+  shortFingerprint,
+} from '@/lib/storage/identity';
+import {
+  Persona,
+  ProofLedger,
+} from '@/types';
+
+interface RevokePersonaPanelProps {
+  persona: Persona;
+  // Resolves to the number of proofs revoked along with the key, or null if the revocation failed
+  onRevoke: (ledger: ProofLedger) => Promise<number | null>;
+  onRevoked: (revokedProofs: number) => void;
+}
+
+export default function RevokePersonaPanel({ persona, onRevoke, onRevoked }: RevokePersonaPanelProps) {
+  const [ledger, setLedger] = useState<ProofLedger>('solana');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState('');
+  const { revocation } = persona;
+
+  const handleRevoke = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Revoke the key of "${persona.name || shortFingerprint(persona.fingerprint)}"? This cannot be undone: every proof signed with it will be revoked, and the persona can no longer sign or rotate its key.`)) {
+      return;
+    }
+
+    setIsRevoking(true);
+    setError('');
+    try {
+      const revokedProofs = await onRevoke(ledger);
+      if (revokedProofs === null) {
+        throw new Error('The persona could not be revoked');
+      }
+      onRevoked(revokedProofs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const downloadRevokedKey = () => {
+    if (!revocation) {
+      return;
+    }
+    const blob = new Blob([revocation.revokedPublicKey], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `whoim_revoked_key_${shortFingerprint(revocation.fingerprint)}.asc`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mt-6">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <FaBan className="mr-2 text-red-400" /> Revoke {persona.name || shortFingerprint(persona.fingerprint)}
+      </h2>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {revocation ? (
+        <div className="text-sm">
+          <p className="text-red-200 mb-2">
+            The key {formatFingerprint(revocation.fingerprint)} was revoked on {new Date(revocation.revokedAt).toLocaleString()}
+            {revocation.ledger !== 'none' ? <>, published on {revocation.ledger}</> : <>, on this device only</>}
+            {revocation.transactionId && <span className="font-mono"> ({revocation.transactionId})</span>}.
+          </p>
+          <p className="text-gray-400 text-xs mb-3">
+            Proofs signed with it no longer verify. Hand the revoked key to keyservers or anyone who holds the old one.
+          </p>
+          <button
+            type="button"
+            onClick={downloadRevokedKey}
+            className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm flex items-center"
+          >
+            <FaDownload className="mr-2" /> Download Revoked Key
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleRevoke} className="space-y-3">
+          <p className="text-gray-400 text-sm">
+            If this persona&apos;s private key has leaked, revoke it. The revocation is published and every proof signed
+            with the key is marked as revoked; proofs made with earlier keys are kept.
+          </p>
+          {ledger === 'none' && (
+            <p className="text-yellow-300 text-xs">
+              A revocation kept on this device only is not published: anyone verifying the persona elsewhere still
+              sees its key as valid.
+            </p>
+          )}
+          {!persona.privateData.revocationCertificate && (
+            <p className="text-yellow-300 text-xs">
+              This persona was created before revocation certificates were kept, so its private key has to be on this
+              device to revoke it.
+            </p>
+          )}
+          <div className="flex items-end space-x-2">
+            <div>
+              <label htmlFor="revokeLedger" className="block text-gray-300 mb-1 text-sm">Publish On</label>
+              <select
+                id="revokeLedger"
+                value={ledger}
+                onChange={(e) => setLedger(e.target.value as ProofLedger)}
+                className="bg-gray-700 text-white px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="solana">Solana</option>
+                <option value="ethereum">Ethereum</option>
+                <option value="none">This device only (not published)</option>
+              </select>
+            </div>
+            <button
+              type="submit"
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded text-sm flex items-center"
+              disabled={isRevoking}
+            >
+              <FaBan className="mr-2" />
+              {isRevoking ? 'Revoking...' : 'Revoke Persona'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaBan,
+  FaCheckCircle,
+  FaExclamationTriangle,
+  FaSync,
+} from 'react-icons/fa';
+
+import {
+  canHideLedgerRecord,
+  revokeSignedProof,
+  verifySignedProof,
+} from '@/lib/blockchain/signedProofs';
+import { formatAccount } from '@/lib/storage/accounts';
+import { shortFingerprint } from '@/lib/storage/identity';
+import {
+  isVerificationValid,
+  updateAccountsForProof,
+} from '@/lib/storage/proofs';
+import {
+  Persona,
+  PersonaPrivateData,
+  SignedProof,
+} from '@/types';
+
+interface SignedProofListProps {
+  persona: Persona;
+  onChange: (privateData: PersonaPrivateData) => Promise<boolean>;
+}
+
+export default function SignedProofList({ persona, onChange }: SignedProofListProps) {
+  const [busyProofId, setBusyProofId] = useState<string | null>(null);
+  const [expandedProofId, setExpandedProofId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const proofs = [...persona.privateData.signedProofs].reverse();
+
+  const saveProof = async (updated: SignedProof) => {
+    const saved = await onChange({
+      ...persona.privateData,
+      accounts: updateAccountsForProof(persona.privateData.accounts, updated),
+      signedProofs: persona.privateData.signedProofs.map(proof => proof.id === updated.id ? updated : proof),
+    });
+    if (!saved) {
+      throw new Error('Failed to save vault');
+    }
+  };
+
+  const handleVerify = async (proof: SignedProof) => {
+    setError('');
+    setBusyProofId(proof.id);
+    try {
+      const verification = await verifySignedProof(proof, persona);
+      await saveProof({ ...proof, verifications: [...proof.verifications, verification] });
+    } catch (err) {
+      console.error('Failed to verify proof:', err);
+      setError('Failed to verify proof: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setBusyProofId(null);
+    }
+  };
+
+  const handleRevoke = async (proof: SignedProof) => {
+    const ledgerNote = proof.ledger !== 'none' && !canHideLedgerRecord(proof)
+      ? ' Its ledger record cannot be hidden and stays readable on the ledger.'
+      : '';
+    if (!confirm(`Revoke this proof? The accounts it links will be marked as revoked. Remember to delete the posted message too.${ledgerNote}`)) {
+      return;
+    }
+
+    setError('');
+    setBusyProofId(proof.id);
+    try {
+      await saveProof(await revokeSignedProof(proof));
+    } catch (err) {
+      console.error('Failed to revoke proof:', err);
+      setError('Failed to revoke proof: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setBusyProofId(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mt-6">
+      <h2 className="text-xl font-semibold mb-4">Signed Proofs of {persona.name || shortFingerprint(persona.fingerprint)}</h2>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {proofs.length === 0 ? (
+        <p className="text-gray-400 text-sm">This persona has not signed any proofs yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {proofs.map(proof => {
+            const latest = proof.verifications[proof.verifications.length - 1];
+            const isBusy = busyProofId === proof.id;
+            return (
+              <li key={proof.id} className="bg-gray-700 p-4 rounded-lg text-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <p className="font-mono text-gray-300">{proof.hash.substring(0, 16)}...</p>
+                    <p className="text-gray-400 text-xs">
+                      {new Date(proof.createdAt).toLocaleString()} on {proof.ledger === 'none' ? 'no ledger' : proof.ledger}
+                      {proof.transactionId && <span className="font-mono"> ({proof.transactionId})</span>}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${
+                    proof.status === 'revoked' ? 'bg-red-900/50 text-red-200' : 'bg-green-900/50 text-green-200'
+                  }`}>
+                    {proof.status}
+                  </span>
+                </div>
+
+                {proof.accounts.length > 0 && (
+                  <p className="text-gray-300 mb-1">Claims: {proof.accounts.map(formatAccount).join(', ')}</p>
+                )}
+                {proof.urls.map(url => (
+                  <a
+                    key={url}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-indigo-300 hover:text-indigo-200 text-xs break-all"
+                  >
+                    {url}
+                  </a>
+                ))}
+
+                {latest && (
+                  <p className={`mt-2 text-xs flex items-center ${isVerificationValid(latest) ? 'text-green-300' : 'text-yellow-300'}`}>
+                    {isVerificationValid(latest) ? <FaCheckCircle className="mr-1" /> : <FaExclamationTriangle className="mr-1" />}
+                    {isVerificationValid(latest) ? 'Verified' : latest.error || 'Verification failed'}
+                    {' '}({new Date(latest.checkedAt).toLocaleString()}, {proof.verifications.length} check(s))
+                  </p>
+                )}
+                {latest?.keyFingerprint && latest.keyFingerprint !== persona.fingerprint && (
+                  <p className="text-gray-400 text-xs mt-1">
+                    Signed with the earlier key {shortFingerprint(latest.keyFingerprint)}
+                  </p>
+                )}
+
+                {expandedProofId === proof.id && (
+                  <div className="mt-2">
+                    {proof.message ? (
+                      <>
+                        <pre className="bg-gray-800 p-2 rounded text-xs text-gray-300 whitespace-pre-wrap break-words">{proof.message}</pre>
+                        <pre className="bg-gray-800 p-2 rounded text-xs text-gray-400 whitespace-pre-wrap break-all mt-1">{proof.signature}</pre>
+                      </>
+                    ) : (
+                      <p className="text-gray-400 text-xs">The signed message was not kept for this proof.</p>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex space-x-2 mt-3">
+                  <button
+                    onClick={() => setExpandedProofId(expandedProofId === proof.id ? null : proof.id)}
+                    className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-xs"
+                  >
+                    {expandedProofId === proof.id ? 'Hide Message' : 'Show Message'}
+                  </button>
+                  <button
+                    onClick={() => handleVerify(proof)}
+                    disabled={busyProofId !== null}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1 rounded text-xs flex items-center"
+                  >
+                    <FaSync className={`mr-1 ${isBusy ? 'animate-spin' : ''}`} /> Re-verify
+                  </button>
+                  {proof.status === 'active' && (
+                    <button
+                      onClick={() => handleRevoke(proof)}
+                      disabled={busyProofId !== null}
+                      className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-xs flex items-center"
+                    >
+                      <FaBan className="mr-1" /> Revoke
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaDownload,
+  FaKey,
+  FaSyncAlt,
+} from 'react-icons/fa';
+
+import { shortFingerprint } from '@/lib/storage/identity';
+import { SubkeyRotationOptions } from '@/lib/storage/subkeyRotation';
+import {
+  getActiveSubkey,
+  isSubkeyExpired,
+  PERSONA_SUBKEY_ROLES,
+} from '@/lib/storage/subkeys';
+import {
+  Persona,
+  PersonaSubkeyRole,
+} from '@/types';
+
+const ROLE_DESCRIPTIONS: Record<PersonaSubkeyRole, { label: string; use: string }> = {
+  signing: { label: 'Signing', use: 'Signs account proofs' },
+  encryption: { label: 'Encryption', use: 'Receives encrypted data' },
+  authentication: { label: 'Authentication', use: 'Answers login challenges' },
+};
+
+interface SubkeyPanelProps {
+  persona: Persona;
+  // Resolves to the new subkey's fingerprint, or null if the rotation failed
+  onRotate: (role: PersonaSubkeyRole, options: SubkeyRotationOptions) => Promise<string | null>;
+  onRotated: (fingerprint: string) => void;
+  // Resolves to the login key protected with the passphrase
+  onExportLoginKey: (passphrase: string) => Promise<string>;
+}
+
+export default function SubkeyPanel({ persona, onRotate, onRotated, onExportLoginKey }: SubkeyPanelProps) {
+  const [rotatingRole, setRotatingRole] = useState<PersonaSubkeyRole | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [revokePrevious, setRevokePrevious] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+  const authSubkey = getActiveSubkey(persona.subkeys, 'authentication');
+
+  const startRotation = (role: PersonaSubkeyRole) => {
+    setRotatingRole(role);
+    setExpiresInDays(0);
+    setRevokePrevious(false);
+    setError('');
+  };
+
+  const handleRotate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rotatingRole) {
+      return;
+    }
+
+    setIsRotating(true);
+    setError('');
+    try {
+      const fingerprint = await onRotate(rotatingRole, { expiresInDays: expiresInDays || undefined, revokePrevious });
+      if (!fingerprint) {
+        throw new Error('The subkey could not be rotated');
+      }
+      setRotatingRole(null);
+      onRotated(fingerprint);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (passphrase.length < 12) {
+      setError('Login key passphrase must be at least 12 characters.');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const loginKey = await onExportLoginKey(passphrase);
+      const blob = new Blob([loginKey], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `whoim_login_key_${shortFingerprint(persona.fingerprint)}.asc`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setShowExport(false);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError('Failed to export login key: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mt-6">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <FaKey className="mr-2 text-indigo-400" /> Subkeys of {persona.name || shortFingerprint(persona.fingerprint)}
+      </h2>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {!persona.subkeys && (
+        <p className="text-gray-400 text-sm mb-4">
+          This persona&apos;s key was made before subkeys had roles, so its primary key signs proofs and answers
+          logins. Create a subkey for a role to move that job off the primary key.
+        </p>
+      )}
+
+      <ul className="space-y-2 mb-4">
+        {PERSONA_SUBKEY_ROLES.map(role => {
+          const active = getActiveSubkey(persona.subkeys, role);
+          const replaced = (persona.subkeys || []).filter(subkey => subkey.role === role && subkey.retiredAt).length;
+          return (
+            <li key={role} className="bg-gray-700 p-3 rounded-lg text-xs flex justify-between items-center">
+              <div>
+                <p className="text-gray-200 text-sm">
+                  {ROLE_DESCRIPTIONS[role].label} <span className="text-gray-400 text-xs">{ROLE_DESCRIPTIONS[role].use}</span>
+                </p>
+                {active ? (
+                  <p className="text-gray-400 mt-1">
+                    <span className="font-mono text-gray-300">{shortFingerprint(active.fingerprint)}</span>
+                    {' '}created {new Date(active.createdAt).toLocaleDateString()}
+                    {active.expiresAt && (isSubkeyExpired(active)
+                      ? <span className="text-red-300">, expired {new Date(active.expiresAt).toLocaleDateString()}</span>
+                      : <>, expires {new Date(active.expiresAt).toLocaleDateString()}</>)}
+                    {replaced > 0 && <>, {replaced} replaced</>}
+                  </p>
+                ) : (
+                  <p className="text-gray-400 mt-1">No subkey for this role</p>
+                )}
+              </div>
+              {!persona.revocation && (
+                <button
+                  type="button"
+                  onClick={() => startRotation(role)}
+                  className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-xs flex items-center"
+                  disabled={isRotating}
+                >
+                  <FaSyncAlt className="mr-1" /> {active ? 'Rotate' : 'Create'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {rotatingRole && !persona.revocation && (
+        <form onSubmit={handleRotate} className="space-y-3 mb-4">
+          <div>
+            <label htmlFor="subkeyExpiry" className="block text-gray-300 mb-1 text-sm">
+              New {ROLE_DESCRIPTIONS[rotatingRole].label.toLowerCase()} subkey expires
+            </label>
+            <select
+              id="subkeyExpiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full bg-gray-700 text-white px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value={0}>With the key</option>
+              <option value={90}>3 months</option>
+              <option value={365}>1 year</option>
+              <option value={730}>2 years</option>
+            </select>
+          </div>
+          {getActiveSubkey(persona.subkeys, rotatingRole) && (
+            <label className="flex items-center text-gray-300 text-sm">
+              <input
+                type="checkbox"
+                checked={revokePrevious}
+                onChange={(e) => setRevokePrevious(e.target.checked)}
+                className="mr-2"
+              />
+              Revoke the current subkey, if it may have leaked. Anything it signed stops counting.
+            </label>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setRotatingRole(null)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm"
+              disabled={isRotating}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded text-sm flex items-center"
+              disabled={isRotating}
+            >
+              <FaSyncAlt className={`mr-2 ${isRotating ? 'animate-spin' : ''}`} />
+              {isRotating ? 'Rotating...' : 'Rotate Subkey'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {authSubkey && !persona.revocation && (showExport ? (
+        <form onSubmit={handleExport}>
+          <p className="text-gray-400 text-xs mb-2">
+            The login key holds only the authentication subkey&apos;s secret: it can log in as this persona but cannot
+            sign proofs. If it leaks, rotate the authentication subkey.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Login key passphrase (min. 12 characters)"
+            autoComplete="new-password"
+            className="w-full bg-gray-700 text-white px-4 py-2 rounded mb-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm login key passphrase"
+            autoComplete="new-password"
+            className="w-full bg-gray-700 text-white px-4 py-2 rounded mb-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowExport(false)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm"
+              disabled={isExporting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded text-sm flex items-center"
+              disabled={isExporting || !passphrase}
+            >
+              <FaDownload className="mr-2" /> {isExporting ? 'Exporting...' : 'Download Login Key'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowExport(true)}
+          className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm flex items-center"
+        >
+          <FaDownload className="mr-2" /> Export Login Key
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import {
+  useEffect,
+  useState,
+} from 'react';
+
+import Link from 'next/link';
+import { FaLock } from 'react-icons/fa';
+
+import VaultIntegrityPanel from '@/components/VaultIntegrityPanel';
+import { restoreFromKeyShares } from '@/lib/storage/keyShares';
+import {
+  getActiveVault,
+  listVaults,
+} from '@/lib/storage/vaultRegistry';
+
+interface UnlockVaultFormProps {
+  hasVault: boolean;
+  isLegacyVault: boolean;
+  error: string | null;
+  lockReason?: string | null;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+export default function UnlockVaultForm({ hasVault, isLegacyVault, error, lockReason, onUnlock }: UnlockVaultFormProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [formError, setFormError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [useKeyShares, setUseKeyShares] = useState(false);
+  const [showIntegrity, setShowIntegrity] = useState(false);
+  const [shareText, setShareText] = useState('');
+  const [keyBackup, setKeyBackup] = useState('');
+  // Named only when there is more than one vault to tell apart
+  const [vaultName, setVaultName] = useState<string | null>(null);
+
+  useEffect(() => {
+    setVaultName(listVaults().length > 1 ? getActiveVault().name : null);
+  }, [hasVault]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    if (isLegacyVault && passphrase !== confirmPassphrase) {
+      setFormError('Passphrases do not match');
+      return;
+    }
+
+    setIsUnlocking(true);
+    const success = await onUnlock(passphrase);
+    setIsUnlocking(false);
+    if (success) {
+      setPassphrase('');
+      setConfirmPassphrase('');
+    }
+  };
+
+  const handleSharesSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+    setIsUnlocking(true);
+    try {
+      await restoreFromKeyShares(shareText.split(/\s+/), keyBackup);
+    } catch (err) {
+      console.error('Failed to unlock with key shares:', err);
+      setFormError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="max-w-md mx-auto bg-gray-800 rounded-xl p-6 shadow-lg mt-12">
+        <h1 className="text-2xl font-bold mb-4 text-center flex items-center justify-center">
+          <FaLock className="mr-2 text-indigo-400" /> {vaultName ? `Vault "${vaultName}" Locked` : 'Vault Locked'}
+        </h1>
+
+        {!hasVault ? (
+          <div className="text-center">
+            <p className="text-gray-300 mb-6">No vault exists on this device yet.</p>
+            <Link
+              href="/dashboard"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded transition-colors"
+            >
+              Create a Vault
+            </Link>
+          </div>
+        ) : useKeyShares ? (
+          <form onSubmit={handleSharesSubmit}>
+            <p className="text-gray-300 mb-4 text-sm">
+              Enter enough key shares from your share holders, one per line, and the key backup created with them.
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="key-shares" className="block text-gray-300 mb-2">Key Shares</label>
+              <textarea
+                id="key-shares"
+                value={shareText}
+                onChange={(e) => setShareText(e.target.value)}
+                className="w-full h-32 bg-gray-700 text-white p-2 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder="WHOIM-SHARE:1:..."
+                spellCheck={false}
+                required
+              />
+            </div>
+
+            <div className="mb-4">
+              <label htmlFor="key-backup" className="block text-gray-300 mb-2">Key Backup</label>
+              <input
+                type="file"
+                id="key-backup"
+                accept=".json,application/json"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    setKeyBackup(await file.text());
+                  }
+                }}
+                className="w-full text-gray-300"
+                required
+              />
+            </div>
+
+            {formError && (
+              <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+                {formError}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3 rounded-lg transition-colors"
+              disabled={isUnlocking || !shareText.trim() || !keyBackup}
+            >
+              {isUnlocking ? 'Combining...' : 'Unlock with Key Shares'}
+            </button>
+
+            <div className="mt-4 text-center">
+              <button
+                type="button"
+                onClick={() => setUseKeyShares(false)}
+                className="text-gray-400 hover:text-white text-sm"
+              >
+                Use my passphrase instead
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {lockReason && (
+              <div className="mb-4 bg-yellow-900/30 border border-yellow-700 text-yellow-200 p-3 rounded text-sm">
+                {lockReason} Unlock it to pick up where you left off.
+              </div>
+            )}
+
+            <p className="text-gray-300 mb-4 text-sm">
+              {isLegacyVault
+                ? 'Your vault was created before passphrase protection. Choose a passphrase to secure it.'
+                : 'Enter your vault passphrase to continue.'}
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="passphrase" className="block text-gray-300 mb-2">Passphrase</label>
+              <input
+                type="password"
+                id="passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+
+            {isLegacyVault && (
+              <div className="mb-4">
+                <label htmlFor="confirm-passphrase" className="block text-gray-300 mb-2">Confirm Passphrase</label>
+                <input
+                  type="password"
+                  id="confirm-passphrase"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="w-full bg-gray-700 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+            )}
+
+            {(formError || error) && (
+              <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+                {formError || error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3 rounded-lg transition-colors"
+              disabled={isUnlocking || !passphrase}
+            >
+              {isUnlocking ? 'Unlocking...' : 'Unlock Vault'}
+            </button>
+
+            {!isLegacyVault && (
+              <div className="mt-4 text-center">
+                <button
+                  type="button"
+                  onClick={() => setUseKeyShares(true)}
+                  className="text-gray-400 hover:text-white text-sm"
+                >
+                  Lost your passphrase? Unlock with key shares
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowIntegrity(!showIntegrity)}
+                  className="block mx-auto mt-2 text-gray-400 hover:text-white text-sm"
+                >
+                  {showIntegrity ? 'Hide integrity check' : 'Vault will not open? Check its integrity'}
+                </button>
+              </div>
+            )}
+
+            {showIntegrity && !isLegacyVault && (
+              <div className="mt-4 border-t border-gray-700 pt-4">
+                <p className="text-gray-400 mb-4 text-sm">
+                  Uses the passphrase entered above. Nothing is unlocked or changed until you choose a repair.
+                </p>
+                <VaultIntegrityPanel passphrase={passphrase} />
+              </div>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  FaCheckCircle,
+  FaExclamationCircle,
+  FaExclamationTriangle,
+} from 'react-icons/fa';
+
+import {
+  checkVaultIntegrity,
+  IntegrityIssue,
+  IntegrityReport,
+  repairIntegrityIssue,
+  RepairAction,
+} from '@/lib/storage/integrity';
+import { loadRawVault } from '@/lib/storage/localStore';
+
+interface VaultIntegrityPanelProps {
+  // Needed while the vault is locked
+  passphrase?: string;
+  onRepaired?: () => void;
+}
+
+const REPAIR_LABELS: Record<RepairAction, string> = {
+  rollBackInterruptedWrite: 'Roll Back',
+  removeOrphanedKey: 'Remove Key',
+  removeInvalidPersona: 'Remove Record',
+  recomputeFingerprint: 'Fix Fingerprint',
+  discardQuarantine: 'Discard Records',
+  archiveAuditLog: 'Archive Log',
+};
+
+export default function VaultIntegrityPanel({ passphrase, onRepaired }: VaultIntegrityPanelProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [repairing, setRepairing] = useState<IntegrityIssue | null>(null);
+  const [error, setError] = useState('');
+
+  const runCheck = async () => {
+    setError('');
+    setIsChecking(true);
+    try {
+      setReport(await checkVaultIntegrity(passphrase));
+    } catch (err) {
+      console.error('Integrity check failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRepair = async (issue: IntegrityIssue) => {
+    if (issue.repair === 'removeOrphanedKey' || issue.repair === 'removeInvalidPersona' || issue.repair === 'discardQuarantine') {
+      if (!confirm('This permanently removes data from this device. Make sure you have a backup. Continue?')) {
+        return;
+      }
+    }
+
+    setError('');
+    setRepairing(issue);
+    try {
+      await repairIntegrityIssue(issue);
+      onRepaired?.();
+      setReport(await checkVaultIntegrity(passphrase));
+    } catch (err) {
+      console.error('Repair failed:', err);
+      setError('Repair failed: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  const handleDownloadRaw = async () => {
+    const raw = await loadRawVault();
+    if (!raw) {
+      return;
+    }
+    const blob = new Blob([raw], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `whoim_vault_copy_${new Date().toISOString().split('T')[0]}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={runCheck}
+        disabled={isChecking}
+        className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded mb-4"
+      >
+        {isChecking ? 'Checking...' : report ? 'Check Again' : 'Check Vault Integrity'}
+      </button>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {report && report.issues.length === 0 && (
+        <div className="mb-4 bg-green-900/30 border border-green-700 text-green-200 p-3 rounded flex items-center">
+          <FaCheckCircle className="mr-2" /> No problems found.
+        </div>
+      )}
+
+      {report && report.issues.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {report.issues.map((issue, index) => (
+            <li
+              key={`${issue.kind}-${issue.subject || index}`}
+              className={`p-3 rounded text-sm flex items-start ${
+                issue.severity === 'error' ? 'bg-red-900/30 text-red-200' : 'bg-yellow-900/30 text-yellow-200'
+              }`}
+            >
+              {issue.severity === 'error'
+                ? <FaExclamationCircle className="mr-2 mt-0.5 flex-shrink-0" />
+                : <FaExclamationTriangle className="mr-2 mt-0.5 flex-shrink-0" />}
+              <span className="flex-1">{issue.message}</span>
+              {issue.repair && (
+                <button
+                  type="button"
+                  onClick={() => handleRepair(issue)}
+                  disabled={repairing !== null}
+                  className="ml-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-xs whitespace-nowrap"
+                >
+                  {repairing === issue ? 'Repairing...' : REPAIR_LABELS[issue.repair]}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report && !report.readable && report.issues.some(issue => issue.kind === 'corruptEnvelope' || issue.kind === 'corruptCiphertext') && (
+        <button
+          type="button"
+          onClick={handleDownloadRaw}
+          className="w-full bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm"
+        >
+          Download a Copy of the Damaged Vault
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import {
+  useEffect,
+  useState,
+} from 'react';
+
+import {
+  FaLayerGroup,
+  FaPlus,
+  FaTrash,
+} from 'react-icons/fa';
+
+import { deleteNamedVault } from '@/lib/storage/localStore';
+import {
+  addVault,
+  DEFAULT_VAULT_ID,
+  getActiveVaultId,
+  listVaults,
+  subscribeVaultRegistry,
+  switchVault,
+} from '@/lib/storage/vaultRegistry';
+import { VaultInfo } from '@/types';
+
+interface VaultSwitcherProps {
+  // Called once another vault is active
+  onSwitch?: () => void;
+}
+
+export default function VaultSwitcher({ onSwitch }: VaultSwitcherProps) {
+  const [vaults, setVaults] = useState<VaultInfo[]>([]);
+  const [activeVaultId, setActiveVaultId] = useState('');
+  const [newVaultName, setNewVaultName] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const refresh = () => {
+      setVaults(listVaults());
+      setActiveVaultId(getActiveVaultId());
+    };
+    refresh();
+    return subscribeVaultRegistry(refresh);
+  }, []);
+
+  const handleSwitch = (vaultId: string) => {
+    setError('');
+    try {
+      switchVault(vaultId);
+      onSwitch?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const vault = addVault(newVaultName);
+      setNewVaultName('');
+      setShowCreate(false);
+      // The new vault is set up with its own passphrase once it is open
+      handleSwitch(vault.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async (vault: VaultInfo) => {
+    if (!confirm(`Delete the vault "${vault.name}" and everything in it from this device? This cannot be undone.`)) {
+      return;
+    }
+    setError('');
+    try {
+      await deleteNamedVault(vault.id);
+    } catch (err) {
+      console.error('Failed to delete vault:', err);
+      setError('Failed to delete vault: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
+      <h2 className="text-xl font-semibold mb-2 flex items-center">
+        <FaLayerGroup className="mr-2 text-indigo-400" /> Vaults
+      </h2>
+      <p className="text-gray-400 text-xs mb-4">
+        Each vault has its own passphrase, personas and settings. Only one is unlocked at a time; switching locks the open one.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 text-red-200 p-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="space-y-2 mb-4">
+        {vaults.map(vault => (
+          <li key={vault.id} className="flex items-center">
+            <button
+              type="button"
+              onClick={() => handleSwitch(vault.id)}
+              className={`flex-1 text-left px-4 py-2 rounded text-sm ${
+                vault.id === activeVaultId ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+              }`}
+            >
+              {vault.name}
+              {vault.id === activeVaultId && <span className="text-xs text-indigo-200 ml-2">(open)</span>}
+            </button>
+            {vault.id !== activeVaultId && vault.id !== DEFAULT_VAULT_ID && (
+              <button
+                type="button"
+                onClick={() => handleDelete(vault)}
+                className="ml-2 text-gray-400 hover:text-red-400 p-2"
+                aria-label={`Delete vault ${vault.name}`}
+              >
+                <FaTrash />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {showCreate ? (
+        <form onSubmit={handleCreate} className="flex space-x-2">
+          <input
+            type="text"
+            value={newVaultName}
+            onChange={(e) => setNewVaultName(e.target.value)}
+            className="flex-1 bg-gray-700 text-white px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="Vault name, e.g. Work"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded text-sm"
+          >
+            Create
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowCreate(true)}
+          className="w-full bg-gray-700 hover:bg-gray-600 text-white py-2 rounded text-sm flex items-center justify-center"
+        >
+          <FaPlus className="mr-2" /> New Vault
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,11 @@ import * as openpgp from 'openpgp';
 import { Keypair } from '@solana/web3.js';
 import { ethers } from 'ethers';
 import { blockchainService } from '../blockchain/solana';
+import {
+  getKeyIDByFingerprint,
+  signWithAuthenticationSubkey,
+  verifyAuthenticationSignature,
+} from '../storage/subkeys';
 
 /**
  * Web3 OAuth Authentication System for WHOIM
@@ -17,16 +22,34 @@ export class Web3Auth {
   }
 
   /**
-   * Sign a challenge with PGP key
+   * Sign a challenge with PGP key. A passphrase-protected key is decrypted
+   * for this signature only and never returned. Personas answer with their
+   * authentication subkey, named by its fingerprint; keys without one sign
+   * with their primary key.
    */
-  static async signChallenge(challenge: string, privateKey: string): Promise<string> {
+  static async signChallenge(
+    challenge: string,
+    privateKey: string,
+    passphrase?: string,
+    signingKeyFingerprint?: string
+  ): Promise<string> {
     try {
-      const privateKeyObj = await openpgp.readPrivateKey({ armoredKey: privateKey });
+      let privateKeyObj = await openpgp.readPrivateKey({ armoredKey: privateKey });
+      if (!privateKeyObj.isDecrypted()) {
+        if (!passphrase) {
+          throw new Error('Private key is passphrase-protected');
+        }
+        privateKeyObj = await openpgp.decryptKey({ privateKey: privateKeyObj, passphrase });
+      }
+      if (signingKeyFingerprint && signingKeyFingerprint !== privateKeyObj.getFingerprint().toUpperCase()) {
+        return await signWithAuthenticationSubkey(privateKeyObj, signingKeyFingerprint, challenge);
+      }
       const message = await openpgp.createMessage({ text: challenge });
       
       const signed = await openpgp.sign({
         message,
-        signingKeys: privateKeyObj
+        signingKeys: privateKeyObj,
+        ...(signingKeyFingerprint ? { signingKeyIDs: [getKeyIDByFingerprint(privateKeyObj, signingKeyFingerprint)] } : {})
       });
       
       return signed.toString();
@@ -37,14 +60,20 @@ export class Web3Auth {
   }
 
   /**
-   * Verify a PGP-signed challenge
+   * Verify a PGP-signed challenge, optionally requiring that a given
+   * (sub)key signed it. A subkey must be bound for authentication.
    */
   static async verifyPgpSignature(
     signedChallenge: string,
-    publicKey: string
+    publicKey: string,
+    signingKeyFingerprint?: string
   ): Promise<{ valid: boolean; challenge: string }> {
     try {
       const publicKeyObj = await openpgp.readKey({ armoredKey: publicKey });
+      if (signingKeyFingerprint && signingKeyFingerprint !== publicKeyObj.getFingerprint().toUpperCase()) {
+        const challenge = await verifyAuthenticationSignature(publicKeyObj, signingKeyFingerprint, signedChallenge);
+        return { valid: challenge !== null, challenge: challenge ?? '' };
+      }
       const message = await openpgp.readMessage({ armoredMessage: signedChallenge });
       
       const { data, signatures } = await openpgp.verify({
@@ -53,9 +82,10 @@ export class Web3Auth {
       });
       
       const valid = await signatures[0].verified;
+      const signer = publicKeyObj.getKeys(signatures[0].keyID)[0];
       
       return {
-        valid,
+        valid: valid && (!signingKeyFingerprint || signer?.getFingerprint().toUpperCase() === signingKeyFingerprint),
         challenge: data.toString()
       };
     } catch (error) {
@@ -370,8 +400,13 @@ export function generateAuthChallenge(personaId: string): string {
 /**
  * Sign a challenge with PGP key
  */
-export async function signAuthChallenge(challenge: string, privateKey: string): Promise<string> {
-  return Web3Auth.signChallenge(challenge, privateKey);
+export async function signAuthChallenge(
+  challenge: string,
+  privateKey: string,
+  passphrase?: string,
+  signingKeyFingerprint?: string
+): Promise<string> {
+  return Web3Auth.signChallenge(challenge, privateKey, passphrase, signingKeyFingerprint);
 }
 
 /**
@@ -379,9 +414,10 @@ export async function signAuthChallenge(challenge: string, privateKey: string):
  */
 export async function verifyAuthSignature(
   signedChallenge: string,
-  publicKey: string
+  publicKey: string,
+  signingKeyFingerprint?: string
 ): Promise<{ valid: boolean; challenge: string }> {
-  return Web3Auth.verifyPgpSignature(signedChallenge, publicKey);
+  return Web3Auth.verifyPgpSignature(signedChallenge, publicKey, signingKeyFingerprint);
 }
 
 /**
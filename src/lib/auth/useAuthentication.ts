@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { Web3Auth, OAuthProvider, generateAuthChallenge, signAuthChallenge, verifyAuthSignature, generateAuthToken, verifyAuthToken } from './authentication';
+import { openPersona } from '../storage/compartments';
 import { KeyManager } from '../storage/keyManager';
+import { getActiveSubkey, isSubkeyExpired } from '../storage/subkeys';
 
 /**
  * Custom hook for authentication functionality
@@ -51,18 +53,42 @@ export function useAuthentication() {
     setError(null);
 
     try {
-      // Get the persona's private key
-      const privateKey = KeyManager.getPersonaKey(personaId);
+      // Working as this persona: open its compartment and close all others
+      const persona = await KeyManager.findPersonaById(personaId);
+      if (!persona) {
+        throw new Error('Persona not found');
+      }
+      await openPersona(persona);
+
+      // Get the persona's protected private key
+      const privateKey = await KeyManager.getPersonaKey(personaId);
       if (!privateKey) {
         throw new Error('Private key not found for this persona');
       }
 
-      // Generate and sign a challenge
+      // Challenges are answered with the authentication subkey, so a leaked
+      // login key cannot sign proofs; keys without one use their primary key
+      const authSubkey = getActiveSubkey(persona.subkeys, 'authentication');
+      if (authSubkey && isSubkeyExpired(authSubkey)) {
+        throw new Error('This persona\'s authentication subkey has expired. Rotate it to log in again.');
+      }
+      const signingKeyFingerprint = authSubkey?.fingerprint ?? persona.fingerprint;
+
+      // Generate and sign a challenge; the key is only decrypted while signing
       const challenge = generateAuthChallenge(personaId);
-      const signedChallenge = await signAuthChallenge(challenge, privateKey);
+      const signedChallenge = await signAuthChallenge(
+        challenge,
+        privateKey,
+        KeyManager.getPersonaKeyPassphrase(personaId),
+        signingKeyFingerprint
+      );
 
       // In a real app, we would send this to a server for verification
       // For demo purposes, we'll verify it locally
+      const { valid } = await verifyAuthSignature(signedChallenge, persona.publicKey, signingKeyFingerprint);
+      if (!valid) {
+        throw new Error('The challenge was not signed by this persona\'s key');
+      }
       
       // Generate an auth token
       const token = generateAuthToken(personaId);
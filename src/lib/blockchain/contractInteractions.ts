@@ -171,3 +171,47 @@ export async function isProofPublic(proofId: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Lists the public keys a key revocation has been published for (zero-cost read operation)
+ * @returns Armored public keys of the revoked keys
+ */
+export async function getRevokedKeys(): Promise<string[]> {
+  try {
+    // In a real environment, this would connect to an actual blockchain
+    // For demo purposes, we'll simulate the blockchain interaction
+    
+    // Get from localStorage for demo purposes
+    const proofs: Record<string, { publicKey: string; platformId: string }> =
+      JSON.parse(localStorage.getItem('whoim_proofs') || '{}');
+    return Object.values(proofs)
+      .filter(proof => proof.platformId === 'key-revocation')
+      .map(proof => proof.publicKey);
+  } catch (error) {
+    console.error('Error listing revoked keys:', error);
+    return [];
+  }
+}
+
+/**
+ * Checks if a key revocation has been published for a public key (zero-cost read operation)
+ * @param publicKey The PGP public key to check
+ * @returns Whether the key has been revoked
+ */
+export async function isKeyRevoked(publicKey: string): Promise<boolean> {
+  try {
+    // In a real environment, this would connect to an actual blockchain
+    // For demo purposes, we'll simulate the blockchain interaction
+    console.log('Checking if key is revoked');
+    
+    // Get from localStorage for demo purposes
+    const proofs: Record<string, { publicKey: string; platformId: string }> =
+      JSON.parse(localStorage.getItem('whoim_proofs') || '{}');
+    return Object.values(proofs).some(proof =>
+      proof.platformId === 'key-revocation' && proof.publicKey === publicKey
+    );
+  } catch (error) {
+    console.error('Error checking if key is revoked:', error);
+    return false;
+  }
+}
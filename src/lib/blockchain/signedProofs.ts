@@ -0,0 +1,494 @@
+import * as openpgp from 'openpgp';
+
+import {
+  findPersonaByIdentity,
+  formatFingerprint,
+  getKeyFingerprint,
+  normalizeFingerprint,
+} from '@/lib/storage/identity';
+import { KeyManager } from '@/lib/storage/keyManager';
+import {
+  checkSubkeyRole,
+  getKeyIDByFingerprint,
+  isSubkeyExpired,
+} from '@/lib/storage/subkeys';
+import {
+  ConnectedAccount,
+  KeyRevocation,
+  KeyRotation,
+  Persona,
+  PersonaSubkey,
+  ProofLedger,
+  ProofVerification,
+  SignedProof,
+} from '@/types';
+
+import {
+  createIdentityProof,
+  getRevokedKeys as getRevokedEthereumKeys,
+  updateProofVisibility as hideEthereumProof,
+  isKeyRevoked as isKeyRevokedOnEthereum,
+  verifyProof as verifyEthereumProof,
+} from './contractInteractions';
+import {
+  createProofRecord,
+  createRevocationRecord,
+  generateProofHash,
+  isKeyRevoked as isKeyRevokedOnSolana,
+  verifyProof as verifySolanaProof,
+} from './solana';
+
+/**
+ * Signs a proof message with a persona's key and records its hash on a ledger.
+ * Keys with role subkeys sign with the persona's signing subkey, other keys
+ * with their primary key.
+ * The persona must be open.
+ * @param input Persona, its signing subkey if it has one, message, claimed accounts, posting URLs and ledger
+ * @returns Signed proof record, to be kept in the persona's private data
+ */
+export async function createSignedProof({
+  personaId,
+  fingerprint,
+  publicKey,
+  signingSubkey,
+  message,
+  accounts,
+  urls,
+  ledger,
+  isPublic,
+}: {
+  personaId: string;
+  fingerprint: string;
+  publicKey: string;
+  signingSubkey: PersonaSubkey | undefined; // left out only for keys without role subkeys
+  message: string;
+  accounts: Array<Pick<ConnectedAccount, 'platform' | 'handle'>>;
+  urls: string[];
+  ledger: ProofLedger;
+  isPublic: boolean;
+}): Promise<SignedProof> {
+  const armoredKey = await KeyManager.getPersonaKey(personaId);
+  if (!armoredKey) {
+    throw new Error('This persona has no private key on this device, so it cannot sign proofs.');
+  }
+  if (signingSubkey && isSubkeyExpired(signingSubkey)) {
+    throw new Error('The persona\'s signing subkey has expired. Rotate it to sign new proofs.');
+  }
+
+  // The key is only decrypted for this signature
+  const signingKey = await openpgp.decryptKey({
+    privateKey: await openpgp.readPrivateKey({ armoredKey }),
+    passphrase: KeyManager.getPersonaKeyPassphrase(personaId),
+  });
+  const signature = await openpgp.sign({
+    message: await openpgp.createMessage({ text: message }),
+    signingKeys: signingKey,
+    // Left to itself openpgp could pick any subkey able to sign, the authentication one included
+    signingKeyIDs: [getKeyIDByFingerprint(signingKey, signingSubkey?.fingerprint ?? fingerprint)],
+    detached: true,
+  }) as string;
+  const hash = await generateProofHash(message);
+
+  let transactionId: string | undefined;
+  if (ledger === 'solana') {
+    // Ledger records name the persona by its fingerprint; the persona ID is only known to this vault
+    transactionId = await createProofRecord(fingerprint, hash, urls, isPublic);
+  } else if (ledger === 'ethereum') {
+    transactionId = await createIdentityProof(publicKey, hash, isPublic, accounts[0]?.platform || 'other');
+  }
+
+  return {
+    id: `proof_${hash.substring(0, 16)}_${Date.now()}`,
+    message,
+    signature,
+    hash,
+    accounts,
+    urls,
+    ledger,
+    transactionId,
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    verifications: [],
+  };
+}
+
+/**
+ * Checks a detached signature over a text against one key. The (sub)key that
+ * made it must be flagged for signing data when it signed, so signatures by
+ * an authentication or encryption subkey never count.
+ * @returns Fingerprint of the key or subkey that made the signature and when
+ * it was made, or null if the signature does not verify
+ */
+async function findSignature(
+  text: string,
+  armoredSignature: string,
+  publicKey: string
+): Promise<{ signerFingerprint: string; signedAt: Date } | null> {
+  try {
+    const key = await openpgp.readKey({ armoredKey: publicKey });
+    const { signatures: [result] } = await openpgp.verify({
+      message: await openpgp.createMessage({ text }),
+      signature: await openpgp.readSignature({ armoredSignature }),
+      verificationKeys: key,
+    });
+    await result.verified;
+    const { packets: [packet] } = await result.signature;
+    // Throws unless the signer's binding at the time carries the signData flag
+    const signer = await key.getSigningKey(result.keyID, packet.created);
+    return {
+      signerFingerprint: signer.getFingerprint().toUpperCase(),
+      signedAt: packet.created as Date,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a detached signature over a text against one key
+ */
+async function isSignedBy(text: string, armoredSignature: string, publicKey: string): Promise<boolean> {
+  return await findSignature(text, armoredSignature, publicKey) !== null;
+}
+
+/**
+ * Builds the statement a persona's keys sign when it rotates from one to the next
+ */
+function buildRotationStatement(previousFingerprint: string, fingerprint: string, rotatedAt: string): string {
+  return [
+    'WHOIM key rotation',
+    `Previous key: ${formatFingerprint(previousFingerprint)}`,
+    `New key: ${formatFingerprint(fingerprint)}`,
+    `Date: ${rotatedAt}`,
+    'The owner of the previous key hands this persona over to the new key. Proofs made with the previous key remain valid.',
+  ].join('\n');
+}
+
+/**
+ * Signs the hand-over from a persona's current key to a new one and records
+ * it on a ledger. The statement is signed by the current key, which must be on
+ * this device with the persona open, and cross-signed by the new key.
+ * @param input Persona, its current public key, the new key pair, ledger and time of the rotation
+ * @returns Rotation record, to be kept in the persona's key history
+ */
+export async function createKeyRotation({
+  personaId,
+  previousPublicKey,
+  publicKey,
+  privateKey,
+  ledger,
+  rotatedAt = new Date().toISOString(),
+}: {
+  personaId: string;
+  previousPublicKey: string;
+  publicKey: string;
+  privateKey: string;
+  ledger: ProofLedger;
+  rotatedAt?: string;
+}): Promise<KeyRotation> {
+  const armoredKey = await KeyManager.getPersonaKey(personaId);
+  if (!armoredKey) {
+    throw new Error('This persona has no private key on this device, so it cannot hand over to a new key.');
+  }
+  const previousKey = await openpgp.decryptKey({
+    privateKey: await openpgp.readPrivateKey({ armoredKey }),
+    passphrase: KeyManager.getPersonaKeyPassphrase(personaId),
+  });
+  const newKey = await openpgp.readPrivateKey({ armoredKey: privateKey });
+
+  const previousFingerprint = await getKeyFingerprint(previousPublicKey);
+  const fingerprint = await getKeyFingerprint(publicKey);
+  if (previousKey.getFingerprint().toUpperCase() !== previousFingerprint) {
+    throw new Error('The private key on this device does not belong to the persona\'s current key.');
+  }
+
+  const statement = buildRotationStatement(previousFingerprint, fingerprint, rotatedAt);
+  // Signed by the primary keys, which speak for the whole key; subkeys only act for their role
+  const sign = async (signingKey: openpgp.PrivateKey) => await openpgp.sign({
+    message: await openpgp.createMessage({ text: statement }),
+    signingKeys: signingKey,
+    signingKeyIDs: [signingKey.getKeyID()],
+    detached: true,
+  }) as string;
+  const hash = await generateProofHash(statement);
+
+  // Anchored under the previous key, which is how the ledger knows the persona so far
+  let transactionId: string | undefined;
+  if (ledger === 'solana') {
+    transactionId = await createProofRecord(previousFingerprint, hash, [], true);
+  } else if (ledger === 'ethereum') {
+    transactionId = await createIdentityProof(previousPublicKey, hash, true, 'key-rotation');
+  }
+
+  return {
+    previousPublicKey,
+    previousFingerprint,
+    fingerprint,
+    statement,
+    previousKeySignature: await sign(previousKey),
+    newKeySignature: await sign(newKey),
+    hash,
+    ledger,
+    transactionId,
+    rotatedAt,
+  };
+}
+
+/**
+ * Revokes a persona's current key and publishes the revoked key on a ledger.
+ * The revocation certificate made with the key is used when there is one;
+ * otherwise the key revokes itself, which needs its private key on this
+ * device with the persona open.
+ * @param input Persona, its current public key and revocation certificate, ledger and time of the revocation
+ * @returns Revocation record, to be kept with the persona
+ */
+export async function createKeyRevocation({
+  personaId,
+  publicKey,
+  revocationCertificate,
+  ledger,
+  revokedAt = new Date().toISOString(),
+}: {
+  personaId: string;
+  publicKey: string;
+  revocationCertificate?: string;
+  ledger: ProofLedger;
+  revokedAt?: string;
+}): Promise<KeyRevocation> {
+  let revokedPublicKey: string;
+  if (revocationCertificate) {
+    ({ publicKey: revokedPublicKey } = await openpgp.revokeKey({
+      key: await openpgp.readKey({ armoredKey: publicKey }),
+      revocationCertificate,
+      format: 'armored',
+    }));
+  } else {
+    const armoredKey = await KeyManager.getPersonaKey(personaId);
+    if (!armoredKey) {
+      throw new Error('This persona has no revocation certificate and no private key on this device, so its key cannot be revoked.');
+    }
+    const key = await openpgp.decryptKey({
+      privateKey: await openpgp.readPrivateKey({ armoredKey }),
+      passphrase: KeyManager.getPersonaKeyPassphrase(personaId),
+    });
+    ({ publicKey: revokedPublicKey } = await openpgp.revokeKey({
+      key,
+      reasonForRevocation: { string: 'Key revoked by its owner' },
+      format: 'armored',
+    }));
+  }
+
+  const fingerprint = await getKeyFingerprint(publicKey);
+  if (await getKeyFingerprint(revokedPublicKey) !== fingerprint) {
+    throw new Error('The revocation does not belong to the persona\'s current key.');
+  }
+  const hash = await generateProofHash(revokedPublicKey);
+
+  let transactionId: string | undefined;
+  if (ledger === 'solana') {
+    transactionId = await createRevocationRecord(fingerprint, hash);
+  } else if (ledger === 'ethereum') {
+    transactionId = await createIdentityProof(publicKey, hash, true, 'key-revocation');
+  }
+
+  return {
+    fingerprint,
+    revokedPublicKey,
+    hash,
+    ledger,
+    transactionId,
+    revokedAt,
+  };
+}
+
+/**
+ * Checks whether a revocation of a key was published on any ledger
+ * @param publicKey Armored public key
+ * @returns Whether the key has been revoked
+ */
+export async function isKeyRevokedOnLedger(publicKey: string): Promise<boolean> {
+  const fingerprint = await getKeyFingerprint(publicKey).catch(() => '');
+  return await isKeyRevokedOnEthereum(publicKey) || (!!fingerprint && await isKeyRevokedOnSolana(fingerprint));
+}
+
+/**
+ * Checks whether a revocation of a key known only by its fingerprint was
+ * published on any ledger
+ * @param fingerprint Key fingerprint
+ * @returns Whether the key has been revoked
+ */
+export async function isFingerprintRevokedOnLedger(fingerprint: string): Promise<boolean> {
+  if (await isKeyRevokedOnSolana(fingerprint)) {
+    return true;
+  }
+  for (const publicKey of await getRevokedEthereumKeys()) {
+    if (await getKeyFingerprint(publicKey).catch(() => '') === fingerprint) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks one link of a key chain: the statement names both keys, is unchanged
+ * and is signed by both of them
+ * @param rotation Rotation record
+ * @param publicKey Armored key the persona rotated to
+ * @returns Problems found; empty when the link holds
+ */
+export async function verifyKeyRotation(rotation: KeyRotation, publicKey: string): Promise<string[]> {
+  const problems: string[] = [];
+  const [previousFingerprint, fingerprint] = await Promise.all([
+    getKeyFingerprint(rotation.previousPublicKey).catch(() => ''),
+    getKeyFingerprint(publicKey).catch(() => ''),
+  ]);
+  if (previousFingerprint !== rotation.previousFingerprint || fingerprint !== rotation.fingerprint) {
+    problems.push('The rotation names other keys than the ones it links.');
+  }
+  if (rotation.statement !== buildRotationStatement(rotation.previousFingerprint, rotation.fingerprint, rotation.rotatedAt)
+    || await generateProofHash(rotation.statement) !== rotation.hash) {
+    problems.push('The rotation statement was altered.');
+  }
+  if (!(await isSignedBy(rotation.statement, rotation.previousKeySignature, rotation.previousPublicKey))) {
+    problems.push('The rotation is not signed by the previous key.');
+  }
+  if (!(await isSignedBy(rotation.statement, rotation.newKeySignature, publicKey))) {
+    problems.push('The rotation is not cross-signed by the new key.');
+  }
+  return problems;
+}
+
+/**
+ * Walks a persona's key history back from its current key, accepting each
+ * earlier key whose hand-over to the next one verifies. The walk stops at the
+ * first broken link, so keys before it are not trusted.
+ * @param publicKey Current armored public key
+ * @param keyHistory Earlier keys, oldest first
+ * @returns Armored keys accepted for the persona, newest first
+ */
+export async function getVerifiedKeyChain(publicKey: string, keyHistory: KeyRotation[] = []): Promise<string[]> {
+  const keys = [publicKey];
+  for (let index = keyHistory.length - 1; index >= 0; index--) {
+    const rotation = keyHistory[index];
+    const problems = await verifyKeyRotation(rotation, keys[keys.length - 1]);
+    if (problems.length > 0) {
+      console.warn(`Key history of the persona breaks at the rotation from ${rotation.previousFingerprint}:`, problems);
+      break;
+    }
+    keys.push(rotation.previousPublicKey);
+  }
+  return keys;
+}
+
+/**
+ * Finds a persona by its fingerprint or local alias, or by an earlier
+ * fingerprint its verified key history hands over from. A persona whose
+ * history breaks before that key is not matched by it.
+ * @param personas Personas to search
+ * @param identity Fingerprint in any formatting, or local persona ID
+ * @returns The matching persona, if any
+ */
+export async function findPersonaByVerifiedKey<T extends Pick<Persona, 'id' | 'fingerprint' | 'publicKey' | 'keyHistory'>>(
+  personas: T[],
+  identity: string
+): Promise<T | undefined> {
+  const persona = findPersonaByIdentity(personas, identity);
+  const fingerprint = normalizeFingerprint(identity);
+  if (!persona || persona.id === identity || persona.fingerprint === fingerprint) {
+    return persona;
+  }
+  const keys = await getVerifiedKeyChain(persona.publicKey, persona.keyHistory);
+  const fingerprints = await Promise.all(keys.map(key => getKeyFingerprint(key).catch(() => '')));
+  return fingerprints.includes(fingerprint) ? persona : undefined;
+}
+
+/**
+ * Checks a signed proof again: its hash against the message, its signature
+ * against the persona's key or an earlier key in its verified key history,
+ * whether that key has been revoked, and its record on the ledger. Where the
+ * signing key has role subkeys, only its signing subkey may have signed, so
+ * a leaked authentication subkey cannot forge proofs.
+ * @param proof Signed proof
+ * @param persona The persona's public key, subkey roles, earlier keys and revocation
+ * @returns Verification result, to be appended to the proof's history
+ */
+export async function verifySignedProof(
+  proof: SignedProof,
+  { publicKey, subkeys, keyHistory = [], revocation }: Pick<Persona, 'publicKey' | 'subkeys' | 'keyHistory' | 'revocation'>
+): Promise<ProofVerification> {
+  const verification: ProofVerification = {
+    checkedAt: new Date().toISOString(),
+    hashValid: false,
+    signatureValid: false,
+    ledgerValid: null,
+  };
+  const problems: string[] = [];
+
+  // The ledger record names the key the proof was made with
+  let signingKey = publicKey;
+  if (!proof.message || !proof.signature) {
+    problems.push('The signed message was not kept for this proof.');
+  } else {
+    verification.hashValid = await generateProofHash(proof.message) === proof.hash;
+    const keys = await getVerifiedKeyChain(publicKey, keyHistory);
+    let roleProblem: string | null = null;
+    for (const [index, key] of keys.entries()) {
+      const signed = await findSignature(proof.message, proof.signature, key);
+      if (!signed) {
+        continue;
+      }
+      // Keys come newest first; each earlier key's subkey roles are kept with its hand-over
+      const keySubkeys = index === 0 ? subkeys : keyHistory[keyHistory.length - index].previousSubkeys;
+      roleProblem = keySubkeys ? checkSubkeyRole(keySubkeys, 'signing', signed.signerFingerprint, signed.signedAt) : null;
+      verification.signatureValid = !roleProblem;
+      verification.keyFingerprint = await getKeyFingerprint(key);
+      signingKey = key;
+      break;
+    }
+    if (roleProblem) {
+      problems.push(roleProblem);
+    } else if (!verification.signatureValid) {
+      problems.push('The signature does not verify against the persona\'s key or any earlier key in its history.');
+    }
+  }
+  if (revocation && verification.keyFingerprint === revocation.fingerprint) {
+    verification.keyRevoked = true;
+    problems.push(`The key that signed this proof was revoked on ${new Date(revocation.revokedAt).toLocaleDateString()}.`);
+  }
+
+  if (proof.ledger !== 'none') {
+    const platformId = proof.accounts[0]?.platform || 'other';
+    verification.ledgerValid = !!proof.transactionId && (proof.ledger === 'solana'
+      ? await verifySolanaProof(proof.transactionId, signingKey, platformId)
+      : await verifyEthereumProof(proof.transactionId, signingKey, platformId));
+    if (!verification.ledgerValid) {
+      problems.push(`The proof was not found on ${proof.ledger}.`);
+    }
+  }
+
+  if (problems.length > 0) {
+    verification.error = problems.join(' ');
+  }
+  return verification;
+}
+
+/**
+ * Checks whether revoking a proof hides its ledger record. The Solana
+ * program cannot hide a single record, so those stay readable on the ledger.
+ */
+export function canHideLedgerRecord(proof: SignedProof): boolean {
+  return proof.ledger === 'ethereum' && !!proof.transactionId;
+}
+
+/**
+ * Revokes a signed proof. Its ledger record is hidden where the ledger
+ * supports it; the posted message itself has to be taken down by hand.
+ * @param proof Signed proof
+ * @returns The proof marked as revoked
+ */
+export async function revokeSignedProof(proof: SignedProof): Promise<SignedProof> {
+  if (canHideLedgerRecord(proof) && proof.transactionId) {
+    await hideEthereumProof(proof.transactionId, false);
+  }
+  return { ...proof, status: 'revoked', revokedAt: new Date().toISOString() };
+}
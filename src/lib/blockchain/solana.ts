@@ -4,6 +4,9 @@
 // Contract address for the WHOIM identity proof system
 const CONTRACT_ADDRESS = "whoim1111111111111111111111111111111111111";
 
+// Simulated revocation accounts, readable by anyone verifying a persona
+const REVOCATIONS_KEY = 'whoim_solana_revocations';
+
 /**
  * Generate a proof hash from a message
  * @param message The message to hash
@@ -21,19 +24,19 @@ export async function generateProofHash(message: string): Promise<string> {
 
 /**
  * Create a proof record on the blockchain
- * @param personaId The ID of the persona
+ * @param personaFingerprint The key fingerprint identifying the persona
  * @param proofHash The hash of the proof
  * @param urls The URLs where the proof is posted
  * @param isPublic Whether the proof is public
- * @returns A promise that resolves when the proof is created
+ * @returns A promise that resolves to the ID of the proof record
  */
 export async function createProofRecord(
-  personaId: string,
+  personaFingerprint: string,
   proofHash: string,
   urls: string[],
   isPublic: boolean
-): Promise<boolean> {
-  console.log(`Creating proof record for persona ${personaId}`);
+): Promise<string> {
+  console.log(`Creating proof record for persona ${personaFingerprint}`);
   console.log(`Proof hash: ${proofHash}`);
   console.log(`URLs: ${urls.join(', ')}`);
   console.log(`Public: ${isPublic}`);
@@ -42,7 +45,42 @@ export async function createProofRecord(
   await new Promise(resolve => setTimeout(resolve, 1500));
   
   // In a real implementation, this would create a transaction on the Solana blockchain
-  return true;
+  // and return the address of the new proof account
+  return `${CONTRACT_ADDRESS.substring(0, 8)}_${proofHash.substring(0, 16)}`;
+}
+
+/**
+ * Create a key revocation record on the blockchain
+ * @param personaFingerprint The key fingerprint of the revoked key
+ * @param revocationHash The hash of the revoked public key
+ * @returns A promise that resolves to the ID of the revocation record
+ */
+export async function createRevocationRecord(
+  personaFingerprint: string,
+  revocationHash: string
+): Promise<string> {
+  const recordId = await createProofRecord(personaFingerprint, revocationHash, [], true);
+
+  // Store in localStorage for demo purposes, so verifiers can read it back
+  const revocations = JSON.parse(localStorage.getItem(REVOCATIONS_KEY) || '{}');
+  revocations[personaFingerprint] = { recordId, revocationHash, timestamp: Date.now() };
+  localStorage.setItem(REVOCATIONS_KEY, JSON.stringify(revocations));
+  return recordId;
+}
+
+/**
+ * Checks if a key revocation has been recorded for a key fingerprint
+ * @param personaFingerprint The key fingerprint to check
+ * @returns A promise that resolves to true if the key has been revoked
+ */
+export async function isKeyRevoked(personaFingerprint: string): Promise<boolean> {
+  try {
+    const revocations = JSON.parse(localStorage.getItem(REVOCATIONS_KEY) || '{}');
+    return !!revocations[personaFingerprint];
+  } catch (error) {
+    console.error('Error checking if key is revoked:', error);
+    return false;
+  }
 }
 
 /**
@@ -71,15 +109,15 @@ export async function verifyProof(
 
 /**
  * Update the visibility of a proof on the blockchain
- * @param personaId The ID of the persona
+ * @param personaFingerprint The key fingerprint identifying the persona
  * @param isPublic Whether the proof should be public
  * @returns A promise that resolves when the visibility is updated
  */
 export async function updateProofVisibility(
-  personaId: string,
+  personaFingerprint: string,
   isPublic: boolean
 ): Promise<boolean> {
-  console.log(`Updating visibility for persona ${personaId} to ${isPublic ? 'public' : 'private'}`);
+  console.log(`Updating visibility for persona ${personaFingerprint} to ${isPublic ? 'public' : 'private'}`);
   
   // Simulate blockchain transaction
   await new Promise(resolve => setTimeout(resolve, 1000));
@@ -90,7 +128,7 @@ export async function updateProofVisibility(
 
 /**
  * Verify that a persona owns accounts across different platforms
- * @param personaId The ID of the persona
+ * @param personaFingerprint The key fingerprint identifying the persona
  * @param platform1 The first platform
  * @param username1 The username on the first platform
  * @param platform2 The second platform
@@ -99,13 +137,13 @@ export async function updateProofVisibility(
  */
 
 export async function verifyPersonaAcrossPlatforms(
-  personaId: string,
+  personaFingerprint: string,
   platform1: string,
   username1: string,
   platform2: string,
   username2: string
 ): Promise<boolean> {
-  console.log(`Verifying persona ${personaId} across platforms`);
+  console.log(`Verifying persona ${personaFingerprint} across platforms`);
   console.log(`Platform 1: ${platform1}, Username 1: ${username1}`);
   console.log(`Platform 2: ${platform2}, Username 2: ${username2}`);
   
@@ -115,7 +153,7 @@ export async function verifyPersonaAcrossPlatforms(
   // In a real implementation, this would verify the proofs on the Solana blockchain
   // For demo purposes, we'll return true if all inputs are non-empty
   const proofHash = generateProofHash(`${platform1}:${username1}`);
-  const personaPublicKey = personaId;
+  const personaPublicKey = personaFingerprint;
   
-  return !!(personaId && platform1 && username1 && platform2 && username2);
+  return !!(personaFingerprint && platform1 && username1 && platform2 && username2);
 }
@@ -1,5 +1,11 @@
 import * as d3 from 'd3';
-import { Persona, PrivacyWarning } from '@/types';
+import {
+  getAccountKey,
+  normalizeHandle,
+} from '@/lib/storage/accounts';
+import { openAllPersonas } from '@/lib/storage/compartments';
+import { shortFingerprint } from '@/lib/storage/identity';
+import { Persona, PrivacyWarning, StoredPersona } from '@/types';
 
 /**
  * Enhanced privacy analyzer for detecting potential privacy leaks between personas
@@ -31,6 +37,26 @@ export class PrivacyAnalyzer {
     return warnings;
   }
 
+  /**
+   * Opens every persona compartment and analyzes the personas together.
+   * This puts all personas' private data in memory at once, so callers have
+   * to opt in with unlockAllForAnalysis and close the compartments when done.
+   */
+  static async analyzeVaultPersonas(
+    personas: StoredPersona[],
+    options: { unlockAllForAnalysis: boolean }
+  ): Promise<{ personas: Persona[]; warnings: PrivacyWarning[] }> {
+    if (!options.unlockAllForAnalysis) {
+      throw new Error('Privacy analysis needs every persona unlocked. Pass unlockAllForAnalysis to confirm.');
+    }
+    
+    const openedPersonas = await openAllPersonas(personas);
+    return {
+      personas: openedPersonas,
+      warnings: this.analyzePrivacy(openedPersonas)
+    };
+  }
+
   /**
    * Detects if the same accounts are used across different personas
    */
@@ -41,8 +67,11 @@ export class PrivacyAnalyzer {
     // Build a map of accounts to persona IDs
     personas.forEach(persona => {
       persona.privateData.accounts.forEach(account => {
-        const personasWithAccount = accountMap.get(account) || [];
-        accountMap.set(account, [...personasWithAccount, persona.id]);
+        const key = getAccountKey(account);
+        const personasWithAccount = accountMap.get(key) || [];
+        if (!personasWithAccount.includes(persona.id)) {
+          accountMap.set(key, [...personasWithAccount, persona.id]);
+        }
       });
     });
     
@@ -71,9 +100,8 @@ export class PrivacyAnalyzer {
     // Extract usernames from accounts
     personas.forEach(persona => {
       persona.privateData.accounts.forEach(account => {
-        const parts = account.split(':');
-        if (parts.length === 2) {
-          const username = parts[1].toLowerCase();
+        const username = normalizeHandle(account.handle).toLowerCase();
+        if (username) {
           const personasWithUsername = usernameMap.get(username) || [];
           usernameMap.set(username, [...personasWithUsername, persona.id]);
         }
@@ -283,7 +311,7 @@ export class PrivacyGraph {
       id: persona.id,
       type: 'persona',
       accounts: persona.privateData.accounts.length,
-      label: persona.id.substring(0, 8)
+      label: persona.name || shortFingerprint(persona.fingerprint)
     }));
     
     const links = warnings.flatMap(warning => {
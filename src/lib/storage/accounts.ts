@@ -0,0 +1,113 @@
+import {
+  ConnectedAccount,
+  ConnectedAccountStatus,
+} from '@/types';
+
+const ACCOUNT_STATUSES: ConnectedAccountStatus[] = ['pending', 'verified', 'stale', 'revoked'];
+
+// Profile pages of the platforms offered on the connect page
+const PROFILE_URLS: Record<string, (handle: string) => string> = {
+  twitter: handle => `https://twitter.com/${handle}`,
+  github: handle => `https://github.com/${handle}`,
+  reddit: handle => `https://www.reddit.com/user/${handle}`,
+};
+
+/**
+ * Normalizes a handle as typed by the user, without a leading @
+ */
+export function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, '');
+}
+
+/**
+ * Builds the profile URL of an account, where the platform has a known layout
+ * @returns Profile URL, or undefined
+ */
+export function getProfileUrl(platform: string, handle: string): string | undefined {
+  return PROFILE_URLS[platform]?.(normalizeHandle(handle));
+}
+
+/**
+ * Identifies an account independently of its proof and status, for spotting
+ * the same account linked twice or to several personas
+ */
+export function getAccountKey(account: Pick<ConnectedAccount, 'platform' | 'handle'>): string {
+  return `${account.platform.toLowerCase()}:${normalizeHandle(account.handle).toLowerCase()}`;
+}
+
+/**
+ * Formats an account for display, e.g. "twitter:@alice"
+ */
+export function formatAccount(account: Pick<ConnectedAccount, 'platform' | 'handle'>): string {
+  return `${account.platform}:@${normalizeHandle(account.handle)}`;
+}
+
+/**
+ * Creates the record of a newly linked account
+ * @param fields Platform, handle and whatever is known about its proof
+ * @returns Connected account
+ */
+export function createConnectedAccount(
+  fields: Pick<ConnectedAccount, 'platform' | 'handle'> & Partial<ConnectedAccount>
+): ConnectedAccount {
+  const now = new Date().toISOString();
+  const handle = normalizeHandle(fields.handle);
+  return {
+    profileUrl: getProfileUrl(fields.platform, handle),
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+    handle,
+  };
+}
+
+/**
+ * Reads a connected account from stored data. Accepts the old
+ * "platform:@handle" strings, which the connect page only saved once the
+ * account's proof was recorded, so they come back as verified.
+ * @param value Stored account
+ * @param linkedAt Timestamp to use where the stored data has none
+ * @returns Connected account, or null if the value is not an account
+ */
+export function toConnectedAccount(value: unknown, linkedAt: string): ConnectedAccount | null {
+  if (typeof value === 'string') {
+    if (!value.trim()) {
+      return null;
+    }
+    // Strings without a platform are kept rather than dropped
+    const separator = value.indexOf(':');
+    const hasPlatform = separator > 0 && separator < value.length - 1;
+    return createConnectedAccount({
+      platform: hasPlatform ? value.slice(0, separator) : 'other',
+      handle: hasPlatform ? value.slice(separator + 1) : value,
+      status: 'verified',
+      createdAt: linkedAt,
+      updatedAt: linkedAt,
+      verifiedAt: linkedAt,
+    });
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.platform !== 'string' || typeof record.handle !== 'string') {
+    return null;
+  }
+  const optionalString = (field: string) => typeof record[field] === 'string' ? record[field] as string : undefined;
+  return {
+    platform: record.platform,
+    handle: normalizeHandle(record.handle),
+    profileUrl: optionalString('profileUrl'),
+    proofUrl: optionalString('proofUrl'),
+    proofHash: optionalString('proofHash'),
+    onChainProofId: optionalString('onChainProofId'),
+    status: ACCOUNT_STATUSES.includes(record.status as ConnectedAccountStatus)
+      ? record.status as ConnectedAccountStatus
+      : 'pending',
+    createdAt: optionalString('createdAt') || linkedAt,
+    updatedAt: optionalString('updatedAt') || linkedAt,
+    verifiedAt: optionalString('verifiedAt'),
+  };
+}
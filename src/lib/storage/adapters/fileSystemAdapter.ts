@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * Persists the vault as one file per key in a directory (Node only).
+ * Not reachable from the browser bundle; install it with setStorageAdapter().
+ */
+export class FileSystemStorageAdapter implements StorageAdapter {
+  readonly backend = 'fileSystem' as const;
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, encodeURIComponent(key));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so a crash never leaves a half-written value
+    const target = this.filePath(key);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, value, { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(temporary, target);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries
+        .filter(entry => !entry.endsWith('.tmp'))
+        .map(entry => decodeURIComponent(entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { StorageBackend } from '@/types';
+
+import {
+  getVaultNamespace,
+  stripVaultNamespace,
+} from '../vaultRegistry';
+import { IndexedDbStorageAdapter } from './indexedDbAdapter';
+import { LocalStorageAdapter } from './localStorageAdapter';
+import { MemoryStorageAdapter } from './memoryAdapter';
+import { NamespacedStorageAdapter } from './namespacedAdapter';
+import { StorageAdapter } from './storageAdapter';
+
+export type { StorageAdapter } from './storageAdapter';
+export { IndexedDbStorageAdapter } from './indexedDbAdapter';
+export { LocalStorageAdapter } from './localStorageAdapter';
+export { MemoryStorageAdapter } from './memoryAdapter';
+export { NamespacedStorageAdapter } from './namespacedAdapter';
+
+// The backend has to be known before the vault (and its settings) can be read,
+// so the choice is mirrored in plain localStorage
+const BACKEND_PREFERENCE_KEY = 'whoim_storage_backend';
+
+let activeAdapter: StorageAdapter | null = null;
+let vaultAdapter: NamespacedStorageAdapter | null = null;
+
+/**
+ * Creates an adapter for a browser-capable backend
+ * @param backend Backend name
+ * @returns New storage adapter
+ */
+export function createStorageAdapter(backend: StorageBackend): StorageAdapter {
+  switch (backend) {
+    case 'localStorage':
+      return new LocalStorageAdapter();
+    case 'indexedDB':
+      return new IndexedDbStorageAdapter();
+    case 'memory':
+      return new MemoryStorageAdapter();
+    case 'fileSystem':
+      throw new Error('The file system backend is only available in Node. Install a FileSystemStorageAdapter with setStorageAdapter().');
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
+
+/**
+ * Reads the backend chosen on this device
+ * @returns Preferred backend (localStorage in the browser, memory elsewhere)
+ */
+export function loadStorageBackendPreference(): StorageBackend {
+  if (typeof window === 'undefined') {
+    return 'memory';
+  }
+  const preference = window.localStorage.getItem(BACKEND_PREFERENCE_KEY);
+  return preference === 'indexedDB' || preference === 'memory' ? preference : 'localStorage';
+}
+
+/**
+ * Returns the backend adapter holding every vault on this device, creating it
+ * from the saved preference on first use
+ */
+export function getDeviceStorageAdapter(): StorageAdapter {
+  if (!activeAdapter) {
+    activeAdapter = createStorageAdapter(loadStorageBackendPreference());
+  }
+  return activeAdapter;
+}
+
+/**
+ * Returns the storage adapter of the active vault, scoped to its namespace
+ */
+export function getStorageAdapter(): StorageAdapter {
+  const device = getDeviceStorageAdapter();
+  const namespace = getVaultNamespace();
+  if (!vaultAdapter || vaultAdapter.inner !== device || vaultAdapter.namespace !== namespace) {
+    vaultAdapter = new NamespacedStorageAdapter(device, namespace);
+  }
+  return vaultAdapter;
+}
+
+/**
+ * Replaces the active storage adapter (e.g. a FileSystemStorageAdapter in Node).
+ * Every vault on the device is read through it.
+ * @param adapter Adapter to use from now on
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+}
+
+/**
+ * Moves the selected keys of every vault from the active adapter to a new
+ * backend and makes it active. Values are copied before anything is removed
+ * from the old backend.
+ * @param backend Backend to switch to
+ * @param shouldMove Selects which keys belong to a vault, given without the vault namespace
+ */
+export async function switchStorageBackend(
+  backend: StorageBackend,
+  shouldMove: (key: string) => boolean
+): Promise<void> {
+  const source = getDeviceStorageAdapter();
+  if (source.backend === backend) {
+    return;
+  }
+
+  const target = createStorageAdapter(backend);
+  const keys = (await source.keys()).filter(key => shouldMove(stripVaultNamespace(key)));
+
+  for (const key of keys) {
+    const value = await source.getItem(key);
+    if (value !== null) {
+      await target.setItem(key, value);
+    }
+  }
+  for (const key of keys) {
+    await source.removeItem(key);
+  }
+
+  activeAdapter = target;
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(BACKEND_PREFERENCE_KEY, backend);
+  }
+}
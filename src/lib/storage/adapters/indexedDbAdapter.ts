@@ -0,0 +1,60 @@
+import { StorageAdapter } from './storageAdapter';
+
+const DB_NAME = 'whoim';
+const DB_VERSION = 1;
+const STORE_NAME = 'vault';
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persists the vault in IndexedDB, which is not bound by the localStorage quota
+ */
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  readonly backend = 'indexedDB' as const;
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available in this environment');
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      this.db = promisifyRequest(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await promisifyRequest((await this.store('readonly')).get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await promisifyRequest((await this.store('readwrite')).put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await promisifyRequest((await this.store('readwrite')).delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await promisifyRequest((await this.store('readonly')).getAllKeys());
+    return keys.map(key => String(key));
+  }
+}
@@ -0,0 +1,38 @@
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * Persists the vault in window.localStorage (limited to about 5 MB)
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = 'localStorage' as const;
+
+  private get storage(): Storage {
+    if (typeof window === 'undefined') {
+      throw new Error('localStorage is not available in this environment');
+    }
+    return window.localStorage;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,26 @@
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * Keeps the vault in memory only. Used in Node, workers and tests,
+ * and for throwaway sessions that should leave nothing on disk.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend = 'memory' as const;
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+}
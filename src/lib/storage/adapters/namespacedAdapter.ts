@@ -0,0 +1,37 @@
+import { StorageBackend } from '@/types';
+
+import { isNamespacedKey } from '../vaultRegistry';
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * Scopes another adapter to one vault's namespace. Keys are prefixed on the
+ * way in and listed without the prefix, so the vault code never sees the
+ * entries of other vaults on the same backend.
+ */
+export class NamespacedStorageAdapter implements StorageAdapter {
+  constructor(readonly inner: StorageAdapter, readonly namespace: string) {}
+
+  get backend(): StorageBackend {
+    return this.inner.backend;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return await this.inner.getItem(this.namespace + key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.inner.setItem(this.namespace + key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.inner.removeItem(this.namespace + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.inner.keys();
+    // The default vault has no prefix; it owns every key outside the named vaults
+    return this.namespace
+      ? keys.filter(key => key.startsWith(this.namespace)).map(key => key.slice(this.namespace.length))
+      : keys.filter(key => !isNamespacedKey(key));
+  }
+}
@@ -0,0 +1,28 @@
+import { StorageBackend } from '@/types';
+
+/**
+ * Key-value backend the vault is persisted to
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+
+  /**
+   * Reads a value, or null if the key does not exist
+   */
+  getItem(key: string): Promise<string | null>;
+
+  /**
+   * Writes a value, replacing any existing one
+   */
+  setItem(key: string, value: string): Promise<void>;
+
+  /**
+   * Deletes a value if it exists
+   */
+  removeItem(key: string): Promise<void>;
+
+  /**
+   * Lists every stored key
+   */
+  keys(): Promise<string[]>;
+}
@@ -0,0 +1,224 @@
+import { sha256 } from '@noble/hashes/sha2';
+import {
+  bytesToHex,
+  utf8ToBytes,
+} from '@noble/hashes/utils';
+
+import {
+  AuditEntry,
+  AuditEvent,
+  AuditHead,
+  LocalStorage,
+  PersonaPrivateData,
+} from '@/types';
+
+import {
+  formatAccount,
+  getAccountKey,
+} from './accounts';
+import { getStorageAdapter } from './adapters';
+import {
+  decryptData,
+  encryptData,
+} from './encryption';
+import { getVaultKey } from './vaultSession';
+
+// The log is kept outside the vault document, so replacing the document on
+// import does not replace its history
+export const AUDIT_LOG_KEY = 'whoim_audit_log';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditProblem {
+  seq: number;
+  problem: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  problems: AuditProblem[];
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { seq, timestamp, action, personaId, details, prevHash } = entry;
+  const canonical = JSON.stringify([seq, timestamp, action, personaId ?? null, details, prevHash]);
+  return bytesToHex(sha256(utf8ToBytes(canonical)));
+}
+
+/**
+ * Loads and decrypts the audit log
+ * @param vaultKey Key the log is encrypted under (defaults to the unlocked vault key)
+ * @returns Entries, oldest first
+ */
+export async function loadAuditLog(vaultKey: string = getVaultKey()): Promise<AuditEntry[]> {
+  const encrypted = await getStorageAdapter().getItem(AUDIT_LOG_KEY);
+  if (!encrypted) {
+    return [];
+  }
+  return await decryptData(encrypted, vaultKey) as AuditEntry[];
+}
+
+/**
+ * Chains events onto the audit log. They follow the head the vault recorded
+ * when the log ends before it, so entries cut from the log stay missing
+ * instead of being written over.
+ * @param entries Audit log entries, oldest first
+ * @param events Events in the order they happened
+ * @param head Last entry recorded in the vault document
+ * @returns The log with the new entries appended
+ */
+export function chainAuditEvents(entries: AuditEntry[], events: AuditEvent[], head?: AuditHead): AuditEntry[] {
+  const chained = [...entries];
+  const last = entries[entries.length - 1];
+  let previous: AuditHead | undefined = head && (!last || head.seq > last.seq) ? head : last;
+  for (const event of events) {
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      ...event,
+      seq: previous ? previous.seq + 1 : 1,
+      timestamp: new Date().toISOString(),
+      prevHash: previous ? previous.hash : GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+    chained.push(entry);
+    previous = entry;
+  }
+  return chained;
+}
+
+/**
+ * Checks that every entry is intact and follows the previous one, and that
+ * the log still reaches the head the vault document recorded
+ * @param entries Audit log entries, oldest first
+ * @param head Last entry recorded in the vault document
+ * @returns Whether the chain is intact, and the problems found
+ */
+export function verifyAuditLog(entries: AuditEntry[], head?: AuditHead): AuditVerification {
+  const problems: AuditProblem[] = [];
+
+  entries.forEach((entry, index) => {
+    const previous = entries[index - 1];
+    const expectedSeq = previous ? previous.seq + 1 : 1;
+    if (entry.seq > expectedSeq) {
+      const missing = entry.seq - expectedSeq;
+      problems.push({ seq: entry.seq, problem: `${missing} entr${missing === 1 ? 'y is' : 'ies are'} missing before this one.` });
+    } else if (entry.seq < expectedSeq) {
+      problems.push({ seq: entry.seq, problem: 'This entry is out of order.' });
+    }
+
+    if (entry.prevHash !== (previous ? previous.hash : GENESIS_HASH)) {
+      problems.push({ seq: entry.seq, problem: 'This entry does not follow the one before it.' });
+    }
+    const { hash, ...unhashed } = entry;
+    if (hashEntry(unhashed) !== hash) {
+      problems.push({ seq: entry.seq, problem: 'This entry was altered after it was written.' });
+    }
+  });
+
+  if (head) {
+    const last = entries[entries.length - 1];
+    const recorded = entries.find(entry => entry.seq === head.seq);
+    if (!last || last.seq < head.seq) {
+      const missing = head.seq - (last ? last.seq : 0);
+      problems.push({ seq: head.seq, problem: `${missing} entr${missing === 1 ? 'y is' : 'ies are'} missing at the end of the log.` });
+    } else if (recorded?.hash !== head.hash) {
+      problems.push({ seq: head.seq, problem: 'This is not the entry the vault recorded as the last one.' });
+    }
+  }
+
+  return { valid: problems.length === 0, problems };
+}
+
+/**
+ * Re-encrypts the audit log under a new vault key, for rekeying the vault
+ * @param vaultKey New vault key
+ * @returns Storage entry to write together with the rekeyed vault, if there is a log
+ */
+export async function reencryptAuditLog(vaultKey: string): Promise<Record<string, string>> {
+  const entries = await loadAuditLog();
+  if (entries.length === 0) {
+    return {};
+  }
+  return { [AUDIT_LOG_KEY]: await encryptData(entries, vaultKey) };
+}
+
+/**
+ * Describes the changes between two versions of the vault document that can
+ * be seen without opening compartments
+ * @param before Document before the change
+ * @param after Document after the change
+ * @returns One event per created, updated, trashed, restored or removed
+ * persona, and for settings
+ */
+export function describeVaultChanges(before: LocalStorage | null, after: LocalStorage): AuditEvent[] {
+  const events: AuditEvent[] = [];
+  const previous = new Map((before?.personas || []).map(persona => [persona.id, persona]));
+  const trashedBefore = new Set((before?.trash || []).map(entry => entry.persona.id));
+  const trashedAfter = new Set((after.trash || []).map(entry => entry.persona.id));
+
+  for (const persona of after.personas) {
+    const old = previous.get(persona.id);
+    previous.delete(persona.id);
+    if (!old && trashedBefore.has(persona.id)) {
+      events.push({ action: 'persona.restored', personaId: persona.id, details: `Restored persona "${persona.name}" from the trash` });
+    } else if (!old) {
+      events.push({ action: 'persona.created', personaId: persona.id, details: `Created persona "${persona.name}"` });
+    } else if (JSON.stringify(old) !== JSON.stringify(persona)) {
+      const changed = Object.keys({ ...old, ...persona }).filter(field =>
+        field !== 'updatedAt'
+        && JSON.stringify(old[field as keyof typeof old]) !== JSON.stringify(persona[field as keyof typeof persona])
+      ).map(field => field === 'compartment' ? 'private data' : field);
+      events.push({ action: 'persona.updated', personaId: persona.id, details: `Updated ${changed.join(', ') || 'persona'} of "${persona.name}"` });
+    }
+  }
+  for (const removed of previous.values()) {
+    events.push(trashedAfter.has(removed.id)
+      ? { action: 'persona.trashed', personaId: removed.id, details: `Moved persona "${removed.name}" to the trash` }
+      : { action: 'persona.removed', personaId: removed.id, details: `Removed persona "${removed.name}"` });
+  }
+
+  if (before && JSON.stringify(before.settings) !== JSON.stringify(after.settings)) {
+    const changed = Object.keys({ ...before.settings, ...after.settings }).filter(field =>
+      JSON.stringify(before.settings[field as keyof LocalStorage['settings']])
+        !== JSON.stringify(after.settings[field as keyof LocalStorage['settings']])
+    );
+    events.push({ action: 'settings.updated', details: `Changed settings: ${changed.join(', ')}` });
+  }
+
+  return events;
+}
+
+/**
+ * Describes accounts linked or changing status, and proofs added or
+ * revoked, in a persona's private data
+ * @param personaId Persona ID
+ * @param before Private data before the change
+ * @param after Private data after the change
+ * @returns One event per linked or changed account and per added or revoked proof
+ */
+export function describePrivateDataChanges(
+  personaId: string,
+  before: PersonaPrivateData,
+  after: PersonaPrivateData
+): AuditEvent[] {
+  const previous = new Map(before.accounts.map(account => [getAccountKey(account), account]));
+  const linked = after.accounts.filter(account => !previous.has(getAccountKey(account)));
+  const restated = after.accounts.filter(account => {
+    const earlier = previous.get(getAccountKey(account));
+    return earlier && earlier.status !== account.status;
+  });
+  const earlierProofs = new Map(before.signedProofs.map(proof => [proof.id, proof]));
+  const proofs = after.signedProofs.filter(proof => !earlierProofs.has(proof.id));
+  const revoked = after.signedProofs.filter(proof =>
+    proof.status === 'revoked' && earlierProofs.get(proof.id)?.status === 'active'
+  );
+  return [
+    ...linked.map(account => ({ action: 'account.linked' as const, personaId, details: `Linked account ${formatAccount(account)}` })),
+    ...restated.map(account => ({
+      action: 'account.updated' as const,
+      personaId,
+      details: `Account ${formatAccount(account)} is now ${account.status}`,
+    })),
+    ...proofs.map(proof => ({ action: 'proof.added' as const, personaId, details: `Added proof ${proof.hash.slice(0, 16)}` })),
+    ...revoked.map(proof => ({ action: 'proof.revoked' as const, personaId, details: `Revoked proof ${proof.hash.slice(0, 16)}` })),
+  ];
+}
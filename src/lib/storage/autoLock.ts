@@ -0,0 +1,83 @@
+import { AutoLockSettings } from '@/types';
+
+export const DEFAULT_AUTO_LOCK: AutoLockSettings = {
+  idleMinutes: 15,
+  absoluteMinutes: 0,
+  lockOnHide: false,
+};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+const CHECK_INTERVAL_MS = 5000;
+
+// Shared by every page, so navigating between them does not reset the idle timer
+let lastActivityAt = Date.now();
+
+function recordActivity(): void {
+  lastActivityAt = Date.now();
+}
+
+/**
+ * Fills in missing auto-lock settings with the defaults
+ */
+export function resolveAutoLockSettings(settings?: Partial<AutoLockSettings>): AutoLockSettings {
+  return { ...DEFAULT_AUTO_LOCK, ...settings };
+}
+
+/**
+ * Checks whether an unlocked session has run past one of its timeouts
+ * @param settings Auto-lock settings
+ * @param unlockedAt When the vault was unlocked
+ * @param now Current time
+ * @returns Why the vault should lock, or null while the session is still valid
+ */
+export function checkAutoLock(settings: AutoLockSettings, unlockedAt: number, now: number = Date.now()): string | null {
+  if (settings.absoluteMinutes > 0 && now - unlockedAt >= settings.absoluteMinutes * 60000) {
+    return `The vault locked after being unlocked for ${settings.absoluteMinutes} minutes.`;
+  }
+  if (settings.idleMinutes > 0 && now - Math.max(lastActivityAt, unlockedAt) >= settings.idleMinutes * 60000) {
+    return `The vault locked after ${settings.idleMinutes} minutes without activity.`;
+  }
+  return null;
+}
+
+/**
+ * Watches for idle and absolute timeouts, and for the tab being hidden
+ * @param settings Auto-lock settings
+ * @param getUnlockedAt Returns when the vault was unlocked, or null if it is locked
+ * @param onLock Called with the reason once the vault should lock
+ * @returns Function that stops watching
+ */
+export function watchAutoLock(
+  settings: AutoLockSettings,
+  getUnlockedAt: () => number | null,
+  onLock: (reason: string) => void
+): () => void {
+  const check = () => {
+    const unlockedAt = getUnlockedAt();
+    const reason = unlockedAt === null ? null : checkAutoLock(settings, unlockedAt);
+    if (reason) {
+      onLock(reason);
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden' && settings.lockOnHide) {
+      if (getUnlockedAt() !== null) {
+        onLock('The vault locked when this tab was hidden.');
+      }
+    } else if (document.visibilityState === 'visible') {
+      // Timers are throttled in background tabs
+      check();
+    }
+  };
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+
+  return () => {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.clearInterval(interval);
+  };
+}
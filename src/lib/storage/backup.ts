@@ -0,0 +1,207 @@
+import { sha256 } from '@noble/hashes/sha2';
+import {
+  bytesToHex,
+  utf8ToBytes,
+} from '@noble/hashes/utils';
+import * as openpgp from 'openpgp';
+
+import {
+  BackupBundle,
+  BackupContents,
+} from '@/types';
+
+import {
+  decryptData,
+  encryptData,
+} from './encryption';
+import {
+  createKdfParams,
+  deriveVaultKey,
+} from './vaultKey';
+
+const BACKUP_FORMAT = 'whoim-backup';
+
+/**
+ * Version of the backup bundle layout written by this version of the app
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+const CONTENTS_LABELS: Record<BackupContents, string> = {
+  vault: 'a full vault backup',
+  persona: 'a single persona',
+};
+
+const REQUIRED_FIELDS: Array<keyof BackupBundle> = [
+  'format',
+  'formatVersion',
+  'contents',
+  'exportVersion',
+  'schemaVersion',
+  'createdAt',
+  'kdf',
+  'payload',
+  'payloadHash',
+  'signature',
+  'signerPublicKey',
+];
+
+function hashPayload(payload: string): string {
+  return bytesToHex(sha256(utf8ToBytes(payload)));
+}
+
+/**
+ * Serializes every bundle field covered by the signature in a fixed order
+ */
+function signedContent(bundle: Omit<BackupBundle, 'signature' | 'signerPublicKey'>): string {
+  return JSON.stringify([
+    bundle.format,
+    bundle.formatVersion,
+    bundle.contents,
+    bundle.exportVersion,
+    bundle.schemaVersion,
+    bundle.createdAt,
+    bundle.kdf,
+    bundle.payloadHash,
+  ]);
+}
+
+/**
+ * Checks whether two armored keys share the same primary key
+ */
+export async function isSameKey(armoredKeyA: string, armoredKeyB: string): Promise<boolean> {
+  const [keyA, keyB] = await Promise.all([
+    openpgp.readKey({ armoredKey: armoredKeyA }),
+    openpgp.readKey({ armoredKey: armoredKeyB }),
+  ]);
+  return keyA.getFingerprint() === keyB.getFingerprint();
+}
+
+/**
+ * Builds an encrypted, signed backup bundle
+ * @param document Export document to protect
+ * @param options What the bundle holds, backup passphrase, master key pair used to sign and version metadata
+ * @returns Bundle as a JSON string
+ */
+export async function createBackupBundle(
+  document: unknown,
+  { contents, passphrase, masterKey, exportVersion, schemaVersion }: {
+    contents: BackupContents;
+    passphrase: string;
+    masterKey: { publicKey: string; privateKey: string };
+    exportVersion: string;
+    schemaVersion: number;
+  }
+): Promise<string> {
+  if (!passphrase) {
+    throw new Error('A backup passphrase is required.');
+  }
+
+  const kdf = createKdfParams();
+  const payload = await encryptData(document, await deriveVaultKey(passphrase, kdf));
+  const unsigned = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    contents,
+    exportVersion,
+    schemaVersion,
+    createdAt: new Date().toISOString(),
+    kdf,
+    payload,
+    payloadHash: hashPayload(payload),
+  } as const;
+
+  const signingKey = await openpgp.readPrivateKey({ armoredKey: masterKey.privateKey });
+  const signature = await openpgp.sign({
+    message: await openpgp.createMessage({ text: signedContent(unsigned) }),
+    signingKeys: signingKey,
+    detached: true,
+  });
+
+  const bundle: BackupBundle = {
+    ...unsigned,
+    signature: signature as string,
+    signerPublicKey: masterKey.publicKey,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Parses a backup bundle and checks its structure, format version and contents
+ * @param bundleText Bundle as a JSON string
+ * @param expectedContents What the caller expects the bundle to hold
+ * @returns Parsed bundle
+ */
+function parseBackupBundle(bundleText: string, expectedContents: BackupContents): BackupBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(bundleText);
+  } catch {
+    throw new Error('Backup rejected: the bundle is truncated or not valid JSON.');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || (parsed as BackupBundle).format !== BACKUP_FORMAT) {
+    throw new Error('Backup rejected: this is not a WHOIM backup bundle. Unsigned plain-JSON exports are no longer accepted.');
+  }
+
+  const bundle = parsed as BackupBundle;
+  const missing = REQUIRED_FIELDS.filter(field => bundle[field] === undefined || bundle[field] === '');
+  if (missing.length > 0) {
+    throw new Error(`Backup rejected: the bundle is incomplete (missing ${missing.join(', ')}).`);
+  }
+  if (bundle.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      `Backup rejected: bundle format version ${bundle.formatVersion} is newer than this app supports (${BACKUP_FORMAT_VERSION}).`
+    );
+  }
+  if (bundle.contents !== expectedContents) {
+    throw new Error(
+      `Backup rejected: this bundle holds ${CONTENTS_LABELS[bundle.contents] ?? bundle.contents}, not ${CONTENTS_LABELS[expectedContents]}.`
+    );
+  }
+  return bundle;
+}
+
+/**
+ * Verifies a backup bundle's integrity hash and signature, then decrypts it.
+ * Nothing is decrypted unless both checks pass.
+ * @param bundleText Bundle as a JSON string
+ * @param passphrase Backup passphrase
+ * @param expectedContents What the caller expects the bundle to hold
+ * @returns Decrypted export document and the public key that signed it
+ */
+export async function openBackupBundle(
+  bundleText: string,
+  passphrase: string,
+  expectedContents: BackupContents
+): Promise<{ document: Record<string, unknown>; signerPublicKey: string }> {
+  const bundle = parseBackupBundle(bundleText, expectedContents);
+
+  if (hashPayload(bundle.payload) !== bundle.payloadHash) {
+    throw new Error('Backup rejected: the integrity hash does not match. The bundle was modified or truncated.');
+  }
+
+  try {
+    const verificationKey = await openpgp.readKey({ armoredKey: bundle.signerPublicKey });
+    const { signatures } = await openpgp.verify({
+      message: await openpgp.createMessage({ text: signedContent(bundle) }),
+      signature: await openpgp.readSignature({ armoredSignature: bundle.signature }),
+      verificationKeys: verificationKey,
+    });
+    await signatures[0].verified;
+  } catch (error) {
+    console.error('Backup signature verification failed:', error);
+    throw new Error('Backup rejected: the master key signature is invalid.');
+  }
+
+  let document: unknown;
+  try {
+    document = await decryptData(bundle.payload, await deriveVaultKey(passphrase, bundle.kdf));
+  } catch {
+    throw new Error('Backup rejected: incorrect backup passphrase.');
+  }
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Backup rejected: the bundle does not contain an export document.');
+  }
+
+  return { document: document as Record<string, unknown>, signerPublicKey: bundle.signerPublicKey };
+}
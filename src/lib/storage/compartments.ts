@@ -0,0 +1,225 @@
+import {
+  bytesToHex,
+  randomBytes,
+} from '@noble/hashes/utils';
+
+import {
+  Persona,
+  StoredPersona,
+} from '@/types';
+
+import {
+  decryptData,
+  encryptData,
+} from './encryption';
+import { quarantinePrivateData } from './validation';
+import {
+  isVaultUnlocked,
+  subscribeVaultSession,
+} from './vaultSession';
+
+// Compartment keys of the personas opened in this session
+const openCompartments = new Map<string, string>();
+
+// Locking the vault closes every compartment
+subscribeVaultSession(() => {
+  if (!isVaultUnlocked()) {
+    openCompartments.clear();
+  }
+});
+
+/**
+ * Checks whether a persona record has its private data sealed in a compartment
+ */
+export function isSealedPersona(persona: Persona | StoredPersona): persona is StoredPersona {
+  return 'compartment' in persona && !!persona.compartment;
+}
+
+/**
+ * Recovers a persona's compartment key without opening the compartment,
+ * from the session if it is already open
+ * @param persona Sealed persona
+ * @returns Hex-encoded compartment key
+ */
+export async function unwrapCompartmentKey(persona: StoredPersona): Promise<string> {
+  const openKey = openCompartments.get(persona.id);
+  if (openKey) {
+    return openKey;
+  }
+  return await decryptData(persona.compartment.wrappedKey) as string;
+}
+
+/**
+ * Seals a persona's private data under its compartment key.
+ * Resealing an existing persona keeps its compartment key, so anything
+ * already wrapped under it (such as the persona's private key) stays readable.
+ * @param persona Persona with plaintext private data
+ * @param existing Currently stored record of the same persona, if any
+ * @returns Persona record safe to persist in the vault
+ */
+export async function sealPersona(persona: Persona, existing?: StoredPersona): Promise<StoredPersona> {
+  const { privateData, ...publicFields } = persona;
+
+  let compartmentKey: string;
+  let wrappedKey: string;
+  if (existing) {
+    compartmentKey = await unwrapCompartmentKey(existing);
+    wrappedKey = existing.compartment.wrappedKey;
+  } else {
+    compartmentKey = bytesToHex(randomBytes(32));
+    wrappedKey = await encryptData(compartmentKey);
+  }
+
+  return {
+    ...publicFields,
+    compartment: {
+      wrappedKey,
+      data: await encryptData(privateData, compartmentKey),
+    },
+  };
+}
+
+/**
+ * Moves a persona into a new compartment wrapped under another vault key, for
+ * rekeying the vault. The persona's current compartment is left untouched.
+ * @param persona Sealed persona
+ * @param vaultKey Vault key to wrap the new compartment key under
+ * @returns Resealed persona and its new compartment key
+ */
+export async function resealPersona(
+  persona: StoredPersona,
+  vaultKey: string
+): Promise<{ persona: StoredPersona; compartmentKey: string }> {
+  const { privateData } = await unsealPersona(persona);
+  const compartmentKey = bytesToHex(randomBytes(32));
+  return {
+    persona: {
+      ...persona,
+      compartment: {
+        wrappedKey: await encryptData(compartmentKey, vaultKey),
+        data: await encryptData(privateData, compartmentKey),
+      },
+    },
+    compartmentKey,
+  };
+}
+
+/**
+ * Seals every persona that still carries plaintext private data, as found in
+ * exports and documents written before compartments existed
+ * @param personas Sealed or plaintext persona records
+ * @returns Sealed persona records
+ */
+export async function sealPersonas(personas: Array<Persona | StoredPersona>): Promise<StoredPersona[]> {
+  const sealed: StoredPersona[] = [];
+  for (const persona of personas) {
+    sealed.push(isSealedPersona(persona) ? persona : await sealPersona(persona));
+  }
+  return sealed;
+}
+
+/**
+ * Decrypts a persona's private data without opening its compartment
+ * for the rest of the session
+ * @param persona Sealed persona
+ * @returns Persona with plaintext private data
+ */
+export async function unsealPersona(persona: StoredPersona): Promise<Persona> {
+  return await decryptCompartment(persona, await unwrapCompartmentKey(persona));
+}
+
+/**
+ * Decrypts a persona's private data as it was stored, without validating it
+ * against the current schema. Only meant for migrating older records.
+ * @param persona Sealed persona
+ * @returns Persona with its private data as stored
+ */
+export async function unsealStoredPersona(persona: StoredPersona): Promise<Persona> {
+  const privateData = await decryptData(persona.compartment.data, await unwrapCompartmentKey(persona));
+  return withPrivateData(persona, privateData as Persona['privateData']);
+}
+
+async function decryptCompartment(persona: StoredPersona, compartmentKey: string): Promise<Persona> {
+  // Invalid accounts and proofs are set aside in the persona's quarantine, so the rest stays usable
+  const { privateData, quarantined } = quarantinePrivateData(await decryptData(persona.compartment.data, compartmentKey));
+  if (quarantined.length > 0) {
+    console.warn(`Quarantined ${quarantined.length} invalid record(s) of persona ${persona.id}`);
+  }
+  return withPrivateData(persona, privateData);
+}
+
+function withPrivateData(persona: StoredPersona, privateData: Persona['privateData']): Persona {
+  const publicFields: Partial<StoredPersona> = { ...persona };
+  delete publicFields.compartment;
+  return { ...publicFields, privateData } as Persona;
+}
+
+/**
+ * Opens a persona's compartment and decrypts its private data.
+ * By default every other compartment is closed first, so only the persona
+ * being worked on is readable in this session.
+ * @param persona Sealed persona
+ * @param options Set exclusive to false to keep other compartments open
+ * @returns Persona with plaintext private data
+ */
+export async function openPersona(
+  persona: StoredPersona,
+  { exclusive = true }: { exclusive?: boolean } = {}
+): Promise<Persona> {
+  const compartmentKey = await unwrapCompartmentKey(persona);
+  const opened = await decryptCompartment(persona, compartmentKey);
+
+  if (exclusive) {
+    openCompartments.clear();
+  }
+  openCompartments.set(persona.id, compartmentKey);
+  return opened;
+}
+
+/**
+ * Opens every persona's compartment at once. Only meant for cross-persona
+ * work such as privacy analysis; close them again when done.
+ * @param personas Sealed personas
+ * @returns Personas with plaintext private data
+ */
+export async function openAllPersonas(personas: StoredPersona[]): Promise<Persona[]> {
+  const opened: Persona[] = [];
+  for (const persona of personas) {
+    opened.push(await openPersona(persona, { exclusive: false }));
+  }
+  return opened;
+}
+
+/**
+ * Closes a persona's compartment, forgetting its key
+ */
+export function closePersona(personaId: string): void {
+  openCompartments.delete(personaId);
+}
+
+/**
+ * Closes every open compartment
+ */
+export function closeAllPersonas(): void {
+  openCompartments.clear();
+}
+
+/**
+ * Checks whether a persona's compartment is open in this session
+ */
+export function isPersonaOpen(personaId: string): boolean {
+  return openCompartments.has(personaId);
+}
+
+/**
+ * Returns the key of an open compartment
+ * @param personaId Persona ID
+ * @returns Hex-encoded compartment key
+ */
+export function getCompartmentKey(personaId: string): string {
+  const compartmentKey = openCompartments.get(personaId);
+  if (!compartmentKey) {
+    throw new Error('Persona is locked. Open it before using its private data or key.');
+  }
+  return compartmentKey;
+}
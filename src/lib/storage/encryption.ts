@@ -0,0 +1,47 @@
+import * as openpgp from 'openpgp';
+
+import { getVaultKey } from './vaultSession';
+
+/**
+ * Encrypts data using PGP
+ * @param data Data to encrypt
+ * @param password Password for encryption (defaults to the unlocked vault key)
+ * @returns Encrypted data as string
+ */
+export async function encryptData(data: unknown, password: string = getVaultKey()): Promise<string> {
+  try {
+    const message = await openpgp.createMessage({ text: JSON.stringify(data) });
+    const encrypted = await openpgp.encrypt({
+      message,
+      passwords: [password],
+      format: 'armored'
+    });
+    return encrypted as string;
+  } catch (error) {
+    console.error('Error encrypting data:', error);
+    throw error;
+  }
+}
+
+/**
+ * Decrypts data using PGP
+ * @param encryptedData Encrypted data as string
+ * @param password Password for decryption (defaults to the unlocked vault key)
+ * @returns Decrypted data, to be validated by the caller
+ */
+export async function decryptData(encryptedData: string, password: string = getVaultKey()): Promise<unknown> {
+  try {
+    const message = await openpgp.readMessage({
+      armoredMessage: encryptedData
+    });
+    const { data: decrypted } = await openpgp.decrypt({
+      message,
+      passwords: [password],
+      format: 'utf8'
+    });
+    return JSON.parse(decrypted as string);
+  } catch (error) {
+    console.error('Error decrypting data:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import * as openpgp from 'openpgp';
+
+import { KeyUserID } from '@/types';
+
+/**
+ * Reads the fingerprint of a key's primary key, which identifies a persona
+ * @param armoredKey Armored public or private key
+ * @returns Fingerprint as uppercase hex
+ */
+export async function getKeyFingerprint(armoredKey: string): Promise<string> {
+  const key = await openpgp.readKey({ armoredKey });
+  return key.getFingerprint().toUpperCase();
+}
+
+/**
+ * Reads the user IDs and lifetime of a key, so a key derived or generated
+ * in its place can carry the same ones
+ * @param armoredKey Armored public key
+ * @returns User IDs and key lifetime in seconds (0 for never)
+ */
+export async function readKeyIdentity(armoredKey: string): Promise<{ userIDs: KeyUserID[]; keyExpirationTime: number }> {
+  const key = await openpgp.readKey({ armoredKey });
+  // openpgp only splits user IDs with an email into name and email when reading a key
+  const userIDs = key.users
+    .map(user => user.userID)
+    .filter(userID => !!userID)
+    .map(userID => userID!.name || userID!.email
+      ? { name: userID!.name, email: userID!.email }
+      : { name: userID!.userID });
+  const expiration = await key.getExpirationTime();
+  const keyExpirationTime = expiration instanceof Date
+    ? Math.round((expiration.getTime() - key.getCreationTime().getTime()) / 1000)
+    : 0;
+  return { userIDs, keyExpirationTime };
+}
+
+/**
+ * Brings a fingerprint as typed or pasted into its stored form
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Formats a fingerprint in groups of four digits for display
+ */
+export function formatFingerprint(fingerprint: string): string {
+  return normalizeFingerprint(fingerprint).match(/.{1,4}/g)?.join(' ') || '';
+}
+
+/**
+ * Shortens a fingerprint to its last 16 digits, the long key ID
+ */
+export function shortFingerprint(fingerprint: string): string {
+  return formatFingerprint(normalizeFingerprint(fingerprint).slice(-16));
+}
+
+/**
+ * Finds a persona by its fingerprint, a fingerprint it rotated away from, or
+ * its local alias. Earlier fingerprints are taken from the key history as
+ * stored; use findPersonaByVerifiedKey where the hand-over must verify.
+ * @param personas Personas to search
+ * @param identity Fingerprint in any formatting, or local persona ID
+ * @returns The matching persona, if any
+ */
+export function findPersonaByIdentity<T extends { id: string; fingerprint: string; keyHistory?: Array<{ previousFingerprint: string }> }>(
+  personas: T[],
+  identity: string
+): T | undefined {
+  const fingerprint = normalizeFingerprint(identity);
+  return personas.find(persona => (!!persona.fingerprint && persona.fingerprint === fingerprint) || persona.id === identity)
+    || personas.find(persona => !!fingerprint
+      && (persona.keyHistory || []).some(rotation => rotation.previousFingerprint === fingerprint));
+}
@@ -0,0 +1,481 @@
+import {
+  AuditEntry,
+  AuditHead,
+  QuarantinedRecord,
+  StoredPersona,
+  ValidationIssue,
+} from '@/types';
+
+import { getStorageAdapter } from './adapters';
+import {
+  AUDIT_LOG_KEY,
+  verifyAuditLog,
+} from './auditLog';
+import {
+  sealPersona,
+  unsealPersona,
+} from './compartments';
+import { decryptData } from './encryption';
+import { getKeyFingerprint } from './identity';
+import { KeyManager } from './keyManager';
+import {
+  encryptStorage,
+  hasInterruptedVaultWrite,
+  isLegacyVault,
+  loadRawVault,
+  loadVaultEnvelope,
+  recoverInterruptedVaultWrite,
+  saveEncryptedStorage,
+  updateVaultDocument,
+  VaultEnvelope,
+} from './localStore';
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+} from './migrations';
+import {
+  formatValidationIssues,
+  quarantinePrivateData,
+  validateExportDocument,
+  validateVaultDocument,
+} from './validation';
+import {
+  computeKeyVerifier,
+  deriveVaultKey,
+} from './vaultKey';
+import {
+  getVaultKey,
+  isVaultUnlocked,
+} from './vaultSession';
+
+export type IntegrityIssueKind =
+  | 'interruptedWrite'
+  | 'missingVault'
+  | 'legacyVault'
+  | 'corruptEnvelope'
+  | 'wrongPassphrase'
+  | 'corruptCiphertext'
+  | 'schemaViolation'
+  | 'corruptCompartment'
+  | 'orphanedPersonaKey'
+  | 'missingPersonaKey'
+  | 'unreadablePersonaKey'
+  | 'fingerprintMismatch'
+  | 'quarantinedRecords'
+  | 'corruptAuditLog'
+  | 'auditChainBroken';
+
+/**
+ * Fixes offered for an issue. None of them writes a vault document that
+ * could not be decrypted.
+ */
+export type RepairAction =
+  | 'rollBackInterruptedWrite'
+  | 'removeOrphanedKey'
+  | 'removeInvalidPersona'
+  | 'recomputeFingerprint'
+  | 'discardQuarantine'
+  | 'archiveAuditLog';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  subject?: string; // persona ID or storage key the issue is about
+  repair?: RepairAction;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  readable: boolean; // whether the vault document could be decrypted
+  issues: IntegrityIssue[];
+}
+
+type VaultRecord = Record<string, unknown>;
+
+/**
+ * Checks the personas of a document written before the current schema. It is
+ * validated in full once it is upgraded, when the vault is next unlocked.
+ */
+function checkLegacyPersonas(personas: unknown[], sealed: boolean): Array<{ id: string; problems: string[] }> {
+  return personas.map((entry, index) => {
+    const persona = entry && typeof entry === 'object' ? entry as VaultRecord : {};
+    const compartment = persona.compartment as VaultRecord | undefined;
+    return {
+      id: typeof persona.id === 'string' && persona.id ? persona.id : `#${index + 1}`,
+      problems: [
+        (typeof persona.id !== 'string' || !persona.id) && 'no ID',
+        typeof persona.name !== 'string' && 'no name',
+        typeof persona.publicKey !== 'string' && 'no public key',
+        sealed && (typeof compartment?.wrappedKey !== 'string' || typeof compartment?.data !== 'string') && 'no sealed compartment',
+      ].filter((problem): problem is string => !!problem),
+    };
+  });
+}
+
+/**
+ * Checks the structure of a decrypted vault document
+ * @returns Schema issues, persona records that are invalid marked as removable
+ */
+function checkSchema(document: unknown): IntegrityIssue[] {
+  const issue = (message: string, subject?: string, repair?: RepairAction): IntegrityIssue =>
+    ({ kind: 'schemaViolation', severity: 'error', message, subject, repair });
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    return [issue('The vault document is not an object.')];
+  }
+  const record = document as VaultRecord;
+  const issues: IntegrityIssue[] = [];
+
+  const version = record.schemaVersion;
+  if (version !== undefined && (typeof version !== 'number' || version > CURRENT_SCHEMA_VERSION)) {
+    issues.push(issue(`Schema version ${String(version)} is not supported by this app.`));
+  }
+  const shapeIssues = validateExportDocument(record);
+  issues.push(...shapeIssues.map(found => issue(`${found.path}: ${found.message}.`)));
+  if (!Array.isArray(record.personas)) {
+    return issues;
+  }
+
+  let invalidPersonas: Array<{ id: string; problems: string[] }>;
+  if (getSchemaVersion(record) < CURRENT_SCHEMA_VERSION) {
+    invalidPersonas = checkLegacyPersonas(record.personas, getSchemaVersion(record) >= 2);
+  } else {
+    const byPersona = new Map<number, ValidationIssue[]>();
+    for (const found of validateVaultDocument(record)) {
+      const index = /^personas\[(\d+)\]/.exec(found.path)?.[1];
+      if (index !== undefined) {
+        byPersona.set(Number(index), [...(byPersona.get(Number(index)) || []), found]);
+      } else if (!shapeIssues.some(shape => shape.path === found.path)) {
+        issues.push(issue(`${found.path}: ${found.message}. It is quarantined when the vault is next unlocked.`));
+      }
+    }
+    invalidPersonas = record.personas.map((entry, index) => {
+      const id = (entry as VaultRecord | null)?.id;
+      return {
+        id: typeof id === 'string' && id ? id : `#${index + 1}`,
+        problems: [formatValidationIssues(byPersona.get(index) || [])].filter(problems => !!problems),
+      };
+    });
+  }
+
+  for (const { id, problems } of invalidPersonas) {
+    if (problems.length > 0) {
+      issues.push(issue(`Persona ${id} is invalid: ${problems.join(', ')}.`, id, 'removeInvalidPersona'));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Describes quarantined records for an issue message
+ */
+function describeQuarantine(quarantine: QuarantinedRecord[]): string {
+  return formatValidationIssues(quarantine.flatMap(entry => entry.issues), 3);
+}
+
+/**
+ * Diagnoses the vault on this device without changing it. Tells apart a
+ * wrong passphrase, corrupt ciphertext, schema violations and orphaned
+ * persona keys, and suggests repairs where one is safe.
+ * @param passphrase Vault passphrase; may be omitted while the vault is unlocked
+ * @returns Integrity report
+ */
+export async function checkVaultIntegrity(passphrase?: string): Promise<IntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+  const report = (readable: boolean): IntegrityReport => ({ checkedAt: new Date().toISOString(), readable, issues });
+
+  if (await hasInterruptedVaultWrite()) {
+    issues.push({
+      kind: 'interruptedWrite',
+      severity: 'warning',
+      message: 'A vault write was interrupted. Rolling it back restores the vault as it was before.',
+      repair: 'rollBackInterruptedWrite',
+    });
+  }
+
+  if (!(await loadRawVault())) {
+    issues.push({ kind: 'missingVault', severity: 'error', message: 'There is no vault on this device.' });
+    return report(false);
+  }
+  if (await isLegacyVault()) {
+    issues.push({
+      kind: 'legacyVault',
+      severity: 'warning',
+      message: 'The vault predates passphrase protection. Unlock it once to upgrade it, then check again.',
+    });
+    return report(false);
+  }
+
+  let envelope: VaultEnvelope | null;
+  try {
+    envelope = await loadVaultEnvelope();
+  } catch (error) {
+    issues.push({
+      kind: 'corruptEnvelope',
+      severity: 'error',
+      message: `The stored vault is damaged and cannot be parsed (${error instanceof Error ? error.message : String(error)}). Keep a copy and restore from a backup.`,
+    });
+    return report(false);
+  }
+  if (!envelope) {
+    issues.push({ kind: 'corruptEnvelope', severity: 'error', message: 'The stored vault has no header.' });
+    return report(false);
+  }
+
+  let vaultKey: string;
+  if (passphrase) {
+    vaultKey = await deriveVaultKey(passphrase, envelope.header.kdf);
+  } else if (isVaultUnlocked()) {
+    vaultKey = getVaultKey();
+  } else {
+    throw new Error('Enter the vault passphrase to run the check.');
+  }
+  if (computeKeyVerifier(vaultKey) !== envelope.header.verifier) {
+    issues.push({
+      kind: 'wrongPassphrase',
+      severity: 'error',
+      message: 'The passphrase does not match this vault. The vault itself may be fine.',
+    });
+    return report(false);
+  }
+
+  let document: VaultRecord;
+  try {
+    document = await decryptData(envelope.data, vaultKey) as VaultRecord;
+  } catch {
+    issues.push({
+      kind: 'corruptCiphertext',
+      severity: 'error',
+      message: 'The passphrase is right but the encrypted vault is damaged. Keep a copy and restore from a backup; the vault will not be written over.',
+    });
+    return report(false);
+  }
+
+  issues.push(...checkSchema(document));
+  if (!document || typeof document !== 'object') {
+    return report(true);
+  }
+
+  const quarantine = (Array.isArray(document.quarantine) ? document.quarantine : []) as QuarantinedRecord[];
+  if (quarantine.length > 0) {
+    issues.push({
+      kind: 'quarantinedRecords',
+      severity: 'warning',
+      message: `${quarantine.length} vault record(s) failed validation and were set aside (${describeQuarantine(quarantine)}). Download a copy of the vault before discarding them.`,
+      repair: 'discardQuarantine',
+    });
+  }
+
+  // Compartments and the persona keys they protect
+  // Trashed personas keep their compartment and key until they are purged
+  const trash = (Array.isArray(document.trash) ? document.trash : []) as VaultRecord[];
+  const personas = [
+    ...(Array.isArray(document.personas) ? document.personas : []),
+    ...trash.map(entry => entry?.persona),
+  ] as VaultRecord[];
+  const personaIds = new Set<string>();
+  for (const persona of personas) {
+    const id = persona?.id;
+    if (typeof id !== 'string') {
+      continue;
+    }
+    // Counted before its compartment is checked, so its key is never offered for removal
+    personaIds.add(id);
+    if (typeof persona.fingerprint === 'string' && typeof persona.publicKey === 'string' && persona.publicKey) {
+      const fingerprint = await getKeyFingerprint(persona.publicKey).catch(() => null);
+      if (fingerprint && fingerprint !== persona.fingerprint) {
+        issues.push({
+          kind: 'fingerprintMismatch',
+          severity: 'error',
+          message: `The fingerprint recorded for persona "${String(persona.name || id)}" does not belong to its key. Proofs and lookups would name the wrong key.`,
+          subject: id,
+          repair: 'recomputeFingerprint',
+        });
+      }
+    }
+    const compartment = persona.compartment as VaultRecord | undefined;
+    if (!compartment || typeof compartment.wrappedKey !== 'string') {
+      continue;
+    }
+
+    let compartmentKey: string;
+    let privateData: unknown;
+    try {
+      compartmentKey = await decryptData(compartment.wrappedKey, vaultKey) as string;
+      privateData = await decryptData(compartment.data as string, compartmentKey);
+    } catch {
+      issues.push({
+        kind: 'corruptCompartment',
+        severity: 'error',
+        message: `The private data of persona "${String(persona.name || id)}" cannot be decrypted.`,
+        subject: id,
+      });
+      continue;
+    }
+
+    // Records already set aside, and those that would be when the persona is opened
+    const personaQuarantine = quarantinePrivateData(privateData).privateData.quarantine || [];
+    if (personaQuarantine.length > 0) {
+      issues.push({
+        kind: 'quarantinedRecords',
+        severity: 'warning',
+        message: `${personaQuarantine.length} record(s) of persona "${String(persona.name || id)}" failed validation and were set aside (${describeQuarantine(personaQuarantine)}).`,
+        subject: id,
+        repair: 'discardQuarantine',
+      });
+    }
+
+    if (!(await KeyManager.hasPersonaKey(id))) {
+      issues.push({
+        kind: 'missingPersonaKey',
+        severity: 'warning',
+        message: `Persona "${String(persona.name || id)}" has no private key on this device. Import it from a key backup to sign with it.`,
+        subject: id,
+      });
+    } else if (!(await KeyManager.isPersonaKeyReadable(id, compartmentKey))) {
+      issues.push({
+        kind: 'unreadablePersonaKey',
+        severity: 'error',
+        message: `The private key of persona "${String(persona.name || id)}" is damaged or protected with another key. Re-import it from a key backup.`,
+        subject: id,
+      });
+    }
+  }
+
+  for (const personaId of Object.keys(await KeyManager.getAllPersonaKeys())) {
+    if (!personaIds.has(personaId)) {
+      issues.push({
+        kind: 'orphanedPersonaKey',
+        severity: 'warning',
+        message: `A private key is stored for persona ${personaId}, which is not in the vault.`,
+        subject: KeyManager.personaKeyEntry(personaId),
+        repair: 'removeOrphanedKey',
+      });
+    }
+  }
+
+  // Audit log, which must still reach the last entry the vault document recorded
+  const auditLog = await getStorageAdapter().getItem(AUDIT_LOG_KEY);
+  const auditHead = document.auditHead as AuditHead | undefined;
+  if (auditLog) {
+    try {
+      const { problems } = verifyAuditLog(await decryptData(auditLog, vaultKey) as AuditEntry[], auditHead);
+      if (problems.length > 0) {
+        issues.push({
+          kind: 'auditChainBroken',
+          severity: 'warning',
+          message: `The audit log has ${problems.length} problem(s): entries were altered or removed. See the audit log for details.`,
+        });
+      }
+    } catch {
+      issues.push({
+        kind: 'corruptAuditLog',
+        severity: 'warning',
+        message: 'The audit log cannot be decrypted. Archiving it starts a new log and keeps the damaged one aside.',
+        repair: 'archiveAuditLog',
+      });
+    }
+  } else if (auditHead) {
+    issues.push({
+      kind: 'auditChainBroken',
+      severity: 'warning',
+      message: `The audit log is missing, though the vault recorded ${auditHead.seq} entr${auditHead.seq === 1 ? 'y' : 'ies'} in it.`,
+    });
+  }
+
+  return report(true);
+}
+
+/**
+ * Applies the repair offered for an issue. Repairs that change the vault
+ * document need the vault unlocked and readable.
+ * @param issue Issue from checkVaultIntegrity
+ */
+export async function repairIntegrityIssue(issue: IntegrityIssue): Promise<void> {
+  const adapter = getStorageAdapter();
+
+  switch (issue.repair) {
+    case 'rollBackInterruptedWrite':
+      await recoverInterruptedVaultWrite();
+      return;
+
+    case 'removeOrphanedKey':
+      if (!issue.subject || !KeyManager.isPersonaKeyEntry(issue.subject)) {
+        throw new Error('This issue does not name a persona key.');
+      }
+      await adapter.removeItem(issue.subject);
+      return;
+
+    case 'removeInvalidPersona': {
+      const envelope = await loadVaultEnvelope();
+      if (!envelope) {
+        throw new Error('No vault found on this device.');
+      }
+      // Decrypting first guarantees the vault being rewritten was readable
+      const document = await decryptData(envelope.data) as VaultRecord;
+      const personas = Array.isArray(document.personas) ? document.personas as VaultRecord[] : [];
+      const remaining = personas.filter((persona, index) =>
+        (typeof persona?.id === 'string' && persona.id ? persona.id : `#${index + 1}`) !== issue.subject
+      );
+      // Written as is, without running migrations on a document known to be broken
+      await saveEncryptedStorage(await encryptStorage({ ...document, personas: remaining }));
+      return;
+    }
+
+    case 'recomputeFingerprint': {
+      const recompute = async (persona: StoredPersona): Promise<StoredPersona> => persona.id === issue.subject && persona.publicKey
+        ? { ...persona, fingerprint: await getKeyFingerprint(persona.publicKey) }
+        : persona;
+      await updateVaultDocument(async latest => ({
+        ...latest,
+        personas: await Promise.all(latest.personas.map(recompute)),
+        trash: latest.trash && await Promise.all(latest.trash.map(async entry => ({ ...entry, persona: await recompute(entry.persona) }))),
+      }));
+      return;
+    }
+
+    case 'discardQuarantine': {
+      const discardFrom = async (persona: StoredPersona): Promise<StoredPersona> => {
+        if (persona.id !== issue.subject) {
+          return persona;
+        }
+        const opened = await unsealPersona(persona);
+        const privateData = { ...opened.privateData };
+        delete privateData.quarantine;
+        return await sealPersona({ ...opened, privateData }, persona);
+      };
+      await updateVaultDocument(async latest => {
+        if (issue.subject) {
+          return {
+            ...latest,
+            personas: await Promise.all(latest.personas.map(discardFrom)),
+            trash: latest.trash && await Promise.all(latest.trash.map(async entry => ({ ...entry, persona: await discardFrom(entry.persona) }))),
+          };
+        }
+        const cleared = { ...latest };
+        delete cleared.quarantine;
+        return cleared;
+      });
+      return;
+    }
+
+    case 'archiveAuditLog': {
+      const damaged = await adapter.getItem(AUDIT_LOG_KEY);
+      if (damaged) {
+        await adapter.setItem(`${AUDIT_LOG_KEY}_damaged_${Date.now()}`, damaged);
+        await adapter.removeItem(AUDIT_LOG_KEY);
+      }
+      // The new log starts over, so the head of the archived one no longer applies
+      await updateVaultDocument(latest => {
+        const cleared = { ...latest };
+        delete cleared.auditHead;
+        return cleared;
+      });
+      return;
+    }
+
+    default:
+      throw new Error('This issue cannot be repaired automatically.');
+  }
+}
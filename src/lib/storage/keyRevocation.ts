@@ -0,0 +1,116 @@
+import {
+  createKeyRevocation,
+  revokeSignedProof,
+  verifySignedProof,
+} from '@/lib/blockchain/signedProofs';
+import {
+  KeyRevocation,
+  ProofLedger,
+  SignedProof,
+  StoredPersona,
+} from '@/types';
+
+import {
+  sealPersona,
+  unsealPersona,
+} from './compartments';
+import { shortFingerprint } from './identity';
+import {
+  loadVaultDocument,
+  recordAuditEvents,
+  updateVaultDocument,
+} from './localStore';
+import { updateAccountsForProof } from './proofs';
+
+/**
+ * Revokes a persona's current key with the revocation certificate made
+ * alongside it, and publishes the revocation on a ledger. Every active proof
+ * signed by the key is revoked along with the accounts it links; proofs that
+ * verify against an earlier key in the persona's history stay active.
+ * Personas without a certificate, from before certificates were kept, are
+ * revoked with their private key and must be open.
+ * @param personaId Persona ID
+ * @param ledger Ledger to publish the revocation on
+ * @returns The updated persona, the revocation record and the number of proofs revoked
+ */
+export async function revokePersona(
+  personaId: string,
+  ledger: ProofLedger
+): Promise<{ persona: StoredPersona; revocation: KeyRevocation; revokedProofs: number }> {
+  const document = await loadVaultDocument();
+  const persona = document.personas.find(candidate => candidate.id === personaId);
+  if (!persona) {
+    throw new Error('Persona not found');
+  }
+  if (persona.revocation) {
+    throw new Error('This persona\'s key has already been revoked.');
+  }
+  if (!persona.publicKey) {
+    throw new Error('This persona has no key to revoke.');
+  }
+
+  const { privateData } = await unsealPersona(persona);
+  const revocation = await createKeyRevocation({
+    personaId,
+    publicKey: persona.publicKey,
+    revocationCertificate: privateData.revocationCertificate,
+    ledger,
+  });
+
+  // Checking each proof again tells which key signed it; proofs that cannot be
+  // traced to an earlier key are revoked with this one
+  const revokedProofs = new Map<string, SignedProof>();
+  for (const proof of privateData.signedProofs) {
+    if (proof.status !== 'active') {
+      continue;
+    }
+    const verification = await verifySignedProof(proof, { ...persona, revocation });
+    if (!verification.signatureValid || verification.keyRevoked) {
+      revokedProofs.set(proof.id, await revokeSignedProof({
+        ...proof,
+        verifications: [...proof.verifications, verification],
+      }));
+    }
+  }
+
+  const { document: updated } = await updateVaultDocument(async latest => {
+    const current = latest.personas.find(candidate => candidate.id === personaId);
+    if (!current || current.publicKey !== persona.publicKey) {
+      throw new Error('The persona changed in another tab while its key was being revoked. Please try again.');
+    }
+
+    const opened = await unsealPersona(current);
+    let accounts = opened.privateData.accounts;
+    const signedProofs = opened.privateData.signedProofs.map(proof => {
+      const revoked = revokedProofs.get(proof.id);
+      if (!revoked || proof.status !== 'active') {
+        return proof;
+      }
+      accounts = updateAccountsForProof(accounts, revoked);
+      return revoked;
+    });
+    const sealed = await sealPersona({
+      ...opened,
+      privateData: { ...opened.privateData, accounts, signedProofs },
+      revocation,
+      updatedAt: revocation.revokedAt,
+    }, current);
+
+    return {
+      ...latest,
+      personas: latest.personas.map(candidate => candidate.id === personaId ? sealed : candidate),
+    };
+  });
+
+  await recordAuditEvents([{
+    action: 'persona.revoked',
+    personaId,
+    details: `Revoked the key ${shortFingerprint(revocation.fingerprint)} of "${persona.name}" and ${revokedProofs.size} proof(s) signed with it`,
+  }]);
+
+  return {
+    persona: updated.personas.find(candidate => candidate.id === personaId) as StoredPersona,
+    revocation,
+    revokedProofs: revokedProofs.size,
+  };
+}
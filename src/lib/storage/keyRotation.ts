@@ -0,0 +1,129 @@
+import { createKeyRotation } from '@/lib/blockchain/signedProofs';
+import {
+  KeyRotation,
+  PersonaKeyAlgorithm,
+  PersonaKeyOptions,
+  ProofLedger,
+  StoredPersona,
+} from '@/types';
+
+import {
+  sealPersona,
+  unsealPersona,
+} from './compartments';
+import {
+  readKeyIdentity,
+  shortFingerprint,
+} from './identity';
+import { KeyManager } from './keyManager';
+import {
+  generatePersonaKeyPair,
+  loadVaultDocument,
+  recordAuditEvents,
+  updateVaultDocument,
+} from './localStore';
+import { getSubkeyExpiryDays } from './subkeys';
+
+export interface KeyRotationOptions {
+  algorithm: PersonaKeyAlgorithm;
+  expiresInDays?: number; // the new key never expires when unset or 0
+  ledger: ProofLedger;    // where the hand-over is anchored
+}
+
+/**
+ * Rotates a persona to a new key. The new key keeps the user IDs of the
+ * current one, and in a vault with a recovery phrase it is derived as the
+ * persona's next key generation where the options allow. The hand-over is
+ * signed by both keys, anchored on the ledger and kept in the persona's key
+ * history, so proofs made with earlier keys keep verifying. The persona must be open.
+ * @param personaId Persona ID
+ * @param options Algorithm and lifetime of the new key, and the ledger to anchor the rotation on
+ * @returns The updated persona and the rotation record. The new private key
+ * is only kept sealed in the persona's compartment.
+ */
+export async function rotatePersonaKey(
+  personaId: string,
+  { algorithm, expiresInDays, ledger }: KeyRotationOptions
+): Promise<{ persona: StoredPersona; rotation: KeyRotation }> {
+  const document = await loadVaultDocument();
+  const persona = document.personas.find(candidate => candidate.id === personaId);
+  if (!persona) {
+    throw new Error('Persona not found');
+  }
+  if (!persona.publicKey) {
+    throw new Error('This persona has no key to rotate from.');
+  }
+  if (persona.revocation) {
+    throw new Error('This persona\'s key has been revoked, so it can no longer hand over to a new key.');
+  }
+
+  const { userIDs } = await readKeyIdentity(persona.publicKey);
+  // Subkeys of the new key live as long as the ones they replace
+  const keyOptions: PersonaKeyOptions = {
+    algorithm,
+    userIDs,
+    expiresInDays,
+    subkeyExpiresInDays: getSubkeyExpiryDays(persona.subkeys),
+  };
+  const rotatedAt = new Date().toISOString();
+  const { publicKey, privateKey, revocationCertificate, subkeys } = await generatePersonaKeyPair(
+    document.recovery?.personaKeySeed,
+    { id: persona.id, createdAt: rotatedAt },
+    keyOptions,
+    (persona.keyHistory?.length || 0) + 1
+  );
+
+  const handOver = await createKeyRotation({
+    personaId,
+    previousPublicKey: persona.publicKey,
+    publicKey,
+    privateKey,
+    ledger,
+    rotatedAt,
+  });
+  // The previous key's subkey roles stay in the history, so proofs it signed can still be checked
+  const rotation: KeyRotation = persona.subkeys ? { ...handOver, previousSubkeys: persona.subkeys } : handOver;
+  // The new private key is written together with the document that names it
+  const { entry, protectedKey } = await KeyManager.protectPersonaKey(personaId, privateKey);
+
+  const { document: updated } = await updateVaultDocument(async latest => {
+    const current = latest.personas.find(candidate => candidate.id === personaId);
+    if (!current || current.publicKey !== persona.publicKey || current.revocation) {
+      throw new Error('The persona changed in another tab while its key was being rotated. Please try again.');
+    }
+
+    // The previous key stays trusted through the history, so its revocation certificate is kept too
+    const opened = await unsealPersona(current);
+    const { revocationCertificate: previousCertificate, previousRevocationCertificates } = opened.privateData;
+    const sealed = await sealPersona({
+      ...opened,
+      publicKey,
+      fingerprint: rotation.fingerprint,
+      subkeys,
+      privateData: {
+        ...opened.privateData,
+        revocationCertificate,
+        ...(previousCertificate ? {
+          previousRevocationCertificates: { ...previousRevocationCertificates, [rotation.previousFingerprint]: previousCertificate },
+        } : {}),
+      },
+      keyHistory: [...(current.keyHistory || []), rotation],
+      updatedAt: rotatedAt,
+    }, current);
+    return {
+      ...latest,
+      personas: latest.personas.map(candidate => candidate.id === personaId ? sealed : candidate),
+    };
+  }, { [entry]: protectedKey });
+
+  await recordAuditEvents([{
+    action: 'key.rotated',
+    personaId,
+    details: `Rotated the key of "${persona.name}" from ${shortFingerprint(rotation.previousFingerprint)} to ${shortFingerprint(rotation.fingerprint)}`,
+  }]);
+
+  return {
+    persona: updated.personas.find(candidate => candidate.id === personaId) as StoredPersona,
+    rotation,
+  };
+}
@@ -0,0 +1,152 @@
+import { sha256 } from '@noble/hashes/sha2';
+import {
+  bytesToHex,
+  hexToBytes,
+  randomBytes,
+  utf8ToBytes,
+} from '@noble/hashes/utils';
+
+import { KeyShareSet } from '@/types';
+
+import { KeyManager } from './keyManager';
+import {
+  recordAuditEvents,
+  unlockVaultWithKey,
+  updateVaultDocument,
+} from './localStore';
+import {
+  combineShares,
+  SecretShare,
+  splitSecret,
+} from './shamir';
+import { isVaultUnlocked } from './vaultSession';
+
+// Shares are written in upper case with ':' separators, which QR codes
+// encode in their compact alphanumeric mode
+const SHARE_PREFIX = 'WHOIM-SHARE';
+const SHARE_VERSION = 1;
+
+export interface ParsedKeyShare {
+  setId: string;
+  threshold: number;
+  share: SecretShare;
+}
+
+function shareChecksum(body: string): string {
+  return bytesToHex(sha256(utf8ToBytes(body)).slice(0, 4)).toUpperCase();
+}
+
+function encodeKeyShare(setId: string, threshold: number, share: SecretShare): string {
+  const body = [SHARE_PREFIX, SHARE_VERSION, setId, threshold, share.x, bytesToHex(share.y).toUpperCase()].join(':');
+  return `${body}:${shareChecksum(body)}`;
+}
+
+/**
+ * Parses a key share string and checks its checksum
+ * @param text Key share as written by createKeyShares
+ * @returns Share set ID, threshold and share
+ */
+export function parseKeyShare(text: string): ParsedKeyShare {
+  const parts = text.trim().toUpperCase().split(':');
+  if (parts.length !== 7 || parts[0] !== SHARE_PREFIX) {
+    throw new Error('This is not a WHOIM key share.');
+  }
+
+  const [, version, setId, threshold, x, data, checksum] = parts;
+  if (Number(version) !== SHARE_VERSION) {
+    throw new Error(`Key share version ${version} is not supported.`);
+  }
+  if (shareChecksum(parts.slice(0, 6).join(':')) !== checksum) {
+    throw new Error(`Key share ${x} is damaged or mistyped.`);
+  }
+
+  return {
+    setId,
+    threshold: Number(threshold),
+    share: { x: Number(x), y: hexToBytes(data.toLowerCase()) },
+  };
+}
+
+/**
+ * Splits access to the vault into key shares. A random secret protects a key
+ * backup holding the master key, persona keys and vault key; the secret is
+ * split so any threshold of the shares recombine it.
+ * @param shareCount Number of shares to hand out
+ * @param threshold Number of shares needed to recover
+ * @returns Share strings, the key backup to keep alongside them, and the set record
+ */
+export async function createKeyShares(shareCount: number, threshold: number): Promise<{
+  shares: string[];
+  keyBackup: string;
+  shareSet: KeyShareSet;
+}> {
+  const secret = randomBytes(32);
+  const shares = splitSecret(secret, shareCount, threshold);
+  const keyBackup = await KeyManager.createKeyBackup(bytesToHex(secret), { includeVaultKey: true });
+
+  const shareSet: KeyShareSet = {
+    id: bytesToHex(randomBytes(4)).toUpperCase(),
+    threshold,
+    shareCount,
+    createdAt: new Date().toISOString(),
+  };
+  await updateVaultDocument(storage => ({ ...storage, keyShareSets: [...(storage.keyShareSets || []), shareSet] }));
+  await recordAuditEvents([{
+    action: 'keys.exported',
+    details: `Exported keys for share set ${shareSet.id} (${threshold} of ${shareCount})`,
+  }]);
+
+  return {
+    shares: shares.map(share => encodeKeyShare(shareSet.id, threshold, share)),
+    keyBackup,
+    shareSet,
+  };
+}
+
+/**
+ * Recombines key shares into the secret protecting their key backup
+ * @param shareTexts Key share strings, at least the threshold of one set
+ * @returns Backup passphrase
+ */
+export function combineKeyShares(shareTexts: string[]): string {
+  const parsed = shareTexts.filter(text => text.trim()).map(parseKeyShare);
+  if (parsed.length === 0) {
+    throw new Error('Enter the key shares to combine.');
+  }
+  if (new Set(parsed.map(share => share.setId)).size > 1) {
+    throw new Error('These shares come from different share sets.');
+  }
+
+  const { threshold } = parsed[0];
+  if (parsed.length < threshold) {
+    throw new Error(`${threshold} shares are needed; only ${parsed.length} given.`);
+  }
+  return bytesToHex(combineShares(parsed.map(({ share }) => share)));
+}
+
+/**
+ * Restores access from key shares and their key backup. A locked vault is
+ * unlocked with the vault key from the backup, then the backup's persona keys
+ * are imported.
+ * @param shareTexts Key share strings
+ * @param keyBackup Key backup created with the shares
+ */
+export async function restoreFromKeyShares(shareTexts: string[], keyBackup: string): Promise<void> {
+  const passphrase = combineKeyShares(shareTexts);
+  if (!isVaultUnlocked()) {
+    await unlockVaultWithKey(await KeyManager.readVaultKeyFromBackup(keyBackup, passphrase));
+  }
+  await KeyManager.importKeyBackup(keyBackup, passphrase);
+}
+
+/**
+ * Removes a share set from the vault's records. Shares already handed out
+ * keep working with their key backup until the vault is rekeyed.
+ * @param setId Share set ID
+ */
+export async function forgetKeyShareSet(setId: string): Promise<void> {
+  await updateVaultDocument(storage => ({
+    ...storage,
+    keyShareSets: (storage.keyShareSets || []).filter(set => set.id !== setId),
+  }));
+}
@@ -1,83 +1,234 @@
 import * as openpgp from 'openpgp';
 
 import {
-  CreatePersonaInput,
+  AuditEntry,
+  AuditEvent,
+  LocalStorage,
   Persona,
+  PersonaKeyOptions,
+  PersonaSubkey,
+  PersonaSubkeyRole,
+  QuarantinedRecord,
+  StoredPersona,
+  VaultHeader,
+  VaultRecoverySecrets,
 } from '@/types';
 
+import {
+  getDeviceStorageAdapter,
+  getStorageAdapter,
+} from './adapters';
+import {
+  AUDIT_LOG_KEY,
+  AuditVerification,
+  chainAuditEvents,
+  loadAuditLog,
+  verifyAuditLog,
+} from './auditLog';
+import {
+  createBackupBundle,
+  isSameKey,
+  openBackupBundle,
+} from './backup';
+import {
+  isSealedPersona,
+  sealPersona,
+  sealPersonas,
+  unsealPersona,
+} from './compartments';
+import {
+  decryptData,
+  encryptData,
+} from './encryption';
+import {
+  MergeChoices,
+  mergeVaultDocuments,
+  MergeStrategy,
+  recordMergeBases,
+  VaultMergePreview,
+} from './merge';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateVaultDocument,
+} from './migrations';
+import {
+  deriveMasterKeyPair,
+  derivePersonaKeyPair,
+  deriveRecoverySecrets,
+} from './mnemonic';
+import {
+  bindAsAuthenticationSubkey,
+  PERSONA_SUBKEY_ROLES,
+  planPersonaSubkeys,
+  readPersonaSubkeys,
+} from './subkeys';
+import {
+  formatValidationIssues,
+  mergeQuarantine,
+  quarantineInvalidRecords,
+  validateExportDocument,
+} from './validation';
+import {
+  computeKeyVerifier,
+  createKdfParams,
+  deriveVaultKey,
+} from './vaultKey';
+import {
+  DEFAULT_VAULT_ID,
+  getActiveVaultId,
+  getVaultNamespace,
+  removeVaultEntry,
+} from './vaultRegistry';
+import {
+  clearVaultKey,
+  getVaultKey,
+  setVaultKey,
+} from './vaultSession';
+import {
+  broadcastVaultChange,
+  withVaultWriteLock,
+} from './vaultSync';
+
 // Storage keys
+const STORAGE_KEY = 'whoim_storage';
+
+// Keys of the old split layout, folded into the vault document on load
 const PERSONAS_KEY = 'whoim_personas';
 const KEYS_KEY = 'whoim_keys';
 const SETTINGS_KEY = 'whoim_settings';
-const STORAGE_KEY = 'whoim_storage';
+const LEGACY_ENCRYPTED_STORAGE_KEY = 'whoim_encrypted_storage';
+
+// Previous values of the entries being replaced by an unfinished vault write
+const JOURNAL_KEY = 'whoim_vault_journal';
 
-// Default password for encryption (in a real app, this would be user-provided)
-const DEFAULT_PASSWORD = 'whoim_default_password';
+// Version of the export file format
+export const EXPORT_FORMAT_VERSION = '2.1.0';
+
+// Password used by vaults created before passphrases were introduced.
+// Only used once, to upgrade such a vault to a passphrase-derived key.
+const LEGACY_DEFAULT_PASSWORD = 'whoim_default_password';
+
+const VAULT_FORMAT = 'whoim-vault';
+
+// How often a write is retried when another tab keeps writing first
+const MAX_WRITE_ATTEMPTS = 5;
+
+export interface VaultEnvelope {
+  format: typeof VAULT_FORMAT;
+  header: VaultHeader;
+  data: string;
+  revision?: number; // increases with every write; missing in vaults written before it existed
+}
+
+export { decryptData, encryptData };
 
 export function getStorageKey():string{
   return STORAGE_KEY;
 }
 
 /**
- * Generates a PGP key pair
- * @returns Public and private keys
+ * Checks if a storage key belongs to the vault document or its old split layout
  */
-export async function generateKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
-  const { privateKey, publicKey } = await openpgp.generateKey({
-    type: 'rsa',         // You can also use 'ecc'
-    rsaBits: 2048,       // RSA key size (2048 is a good default)
-    userIDs: [{ name: 'Persona', email: 'persona@example.com' }], // placeholder user ID
-    format: 'armored',   // output as ASCII armored string
-  });
+export function isVaultStorageKey(key: string): boolean {
+  return [STORAGE_KEY, PERSONAS_KEY, KEYS_KEY, SETTINGS_KEY, JOURNAL_KEY, AUDIT_LOG_KEY].includes(key);
+}
 
-  return {
-    publicKey,
-    privateKey,
-  };
+/**
+ * Key options used when none are given: an ECC key that names no one
+ */
+export const DEFAULT_KEY_OPTIONS: PersonaKeyOptions = { algorithm: 'ecc', userIDs: [] };
+
+/**
+ * Converts a key lifetime in days to OpenPGP's key expiration time
+ * @param expiresInDays Lifetime in days; unset or 0 for a key that never expires
+ * @returns Lifetime in seconds, 0 for never
+ */
+export function toKeyExpirationTime(expiresInDays?: number): number {
+  return expiresInDays && expiresInDays > 0 ? Math.round(expiresInDays * 24 * 60 * 60) : 0;
 }
 
 /**
- * Encrypts data using PGP
- * @param data Data to encrypt
- * @param password Password for encryption
- * @returns Encrypted data as string
+ * Checks whether a key with these options can be derived from a recovery phrase
  */
-export async function encryptData(data: any, password: string = DEFAULT_PASSWORD): Promise<string> {
-  try {
-    const message = await openpgp.createMessage({ text: JSON.stringify(data) });
-    const encrypted = await openpgp.encrypt({
-      message,
-      passwords: [password],
-      format: 'armored'
-    });
-    return encrypted as string;
-  } catch (error) {
-    console.error('Error encrypting data:', error);
-    throw error;
-  }
+export function canDerivePersonaKey({ algorithm, userIDs }: PersonaKeyOptions): boolean {
+  return algorithm === 'ecc' && userIDs.length > 0;
 }
 
 /**
- * Decrypts data using PGP
- * @param encryptedData Encrypted data as string
- * @param password Password for decryption
- * @returns Decrypted data
+ * Generates a PGP key pair.
+ * A key without user IDs is a v6 key, since v4 keys must name someone;
+ * keys with user IDs stay v4 so older keyrings can read them.
+ * Without subkey roles the key gets openpgp's single encryption subkey;
+ * with them it gets one subkey per role instead, in the order given.
+ * @param options Algorithm, user IDs and lifetimes of the key and its subkeys
+ * @param subkeyRoles Roles of the subkeys to add
+ * @returns Public and private keys, and a certificate that revokes them
  */
-export async function decryptData(encryptedData: string, password: string = DEFAULT_PASSWORD): Promise<any> {
-  try {
-    const message = await openpgp.readMessage({
-      armoredMessage: encryptedData
-    });
-    const { data: decrypted } = await openpgp.decrypt({
-      message,
-      passwords: [password],
-      format: 'utf8'
-    });
-    return JSON.parse(decrypted as string);
-  } catch (error) {
-    console.error('Error decrypting data:', error);
-    throw error;
+export async function generateKeyPair(
+  { algorithm, userIDs, expiresInDays, subkeyExpiresInDays }: PersonaKeyOptions = DEFAULT_KEY_OPTIONS,
+  subkeyRoles: PersonaSubkeyRole[] = []
+): Promise<{ publicKey: string; privateKey: string; revocationCertificate: string }> {
+  const v6Keys = userIDs.length === 0;
+  const { privateKey, revocationCertificate } = await openpgp.generateKey({
+    ...(algorithm === 'rsa4096'
+      ? { type: 'rsa', rsaBits: 4096 }
+      : v6Keys ? { type: 'curve25519' } : { type: 'ecc', curve: 'curve25519Legacy' }),
+    userIDs,
+    keyExpirationTime: toKeyExpirationTime(expiresInDays),
+    // A subkey expiration time of 0 makes openpgp use the key's
+    ...(subkeyRoles.length > 0 ? {
+      subkeys: subkeyRoles.map(role => ({
+        sign: role !== 'encryption',
+        keyExpirationTime: toKeyExpirationTime(subkeyExpiresInDays?.[role]),
+      })),
+    } : {}),
+    format: 'object',
+    config: { v6Keys },
+  });
+  // openpgp only generates signing and encryption subkeys, so the
+  // authentication subkey is generated for signing and then rebound
+  for (const [index, role] of subkeyRoles.entries()) {
+    if (role === 'authentication') {
+      await bindAsAuthenticationSubkey(privateKey, index);
+    }
   }
+
+  return {
+    publicKey: privateKey.toPublic().armor(),
+    privateKey: privateKey.armor(),
+    revocationCertificate,
+  };
+}
+
+/**
+ * Makes a persona key with a signing, an encryption and an authentication
+ * subkey. Vaults with a recovery phrase derive it where the options allow,
+ * so a restore can re-create it.
+ * @param personaKeySeed The vault's persona key seed, if it has a recovery phrase
+ * @param persona Persona ID and the creation date of the key
+ * @param keyOptions Algorithm, user IDs and lifetimes of the key and its subkeys
+ * @param generation Key generation, counting the persona's key rotations
+ * @returns Key pair, its revocation certificate and the records of its subkeys
+ */
+export async function generatePersonaKeyPair(
+  personaKeySeed: string | undefined,
+  persona: { id: string; createdAt: string },
+  keyOptions: PersonaKeyOptions,
+  generation: number = 0
+): Promise<{ publicKey: string; privateKey: string; revocationCertificate: string; subkeys: PersonaSubkey[] }> {
+  // Only v4 ECC keys can be derived, which must carry a user ID
+  const derived = personaKeySeed && canDerivePersonaKey(keyOptions)
+    ? await derivePersonaKeyPair(
+      personaKeySeed,
+      persona,
+      keyOptions.userIDs,
+      toKeyExpirationTime(keyOptions.expiresInDays),
+      generation,
+      planPersonaSubkeys(persona.createdAt, keyOptions)
+    )
+    : null;
+  const keyPair = derived || await generateKeyPair(keyOptions, PERSONA_SUBKEY_ROLES);
+  return { ...keyPair, subkeys: await readPersonaSubkeys(keyPair.publicKey) };
 }
 
 /**
@@ -86,10 +237,10 @@ export async function decryptData(encryptedData: string, password: string = DEFA
  * @param data Data to store
  * @param password Password for encryption
  */
-export async function saveToStorage(key: string, data: any, password: string = DEFAULT_PASSWORD): Promise<void> {
+export async function saveToStorage(key: string, data: any, password: string = getVaultKey()): Promise<void> {
   try {
     const encrypted = await encryptData(data, password);
-    localStorage.setItem(key, encrypted);
+    await getStorageAdapter().setItem(key, encrypted);
   } catch (error) {
     console.error(`Error saving to storage (${key}):`, error);
     throw error;
@@ -97,92 +248,125 @@ export async function saveToStorage(key: string, data: any, password: string = D
 }
 
 /**
- * Loads data from local storage with decryption
+ * Loads data from local storage with decryption. Only a missing entry gives
+ * the default value; an entry that cannot be decrypted is an error, so it is
+ * never mistaken for an empty one and overwritten.
  * @param key Storage key
  * @param defaultValue Default value if key doesn't exist
  * @param password Password for decryption
  * @returns Decrypted data or default value
  */
-export async function loadFromStorage<T>(key: string, defaultValue: T, password: string = DEFAULT_PASSWORD): Promise<T> {
+export async function loadFromStorage<T>(key: string, defaultValue: T, password: string = getVaultKey()): Promise<T> {
+  const encrypted = await getStorageAdapter().getItem(key);
+  if (!encrypted) {
+    return defaultValue;
+  }
   try {
-    const encrypted = localStorage.getItem(key);
-    if (!encrypted) {
-      return defaultValue;
-    }
-    return await decryptData(encrypted, password);
+    return await decryptData(encrypted, password) as T;
   } catch (error) {
     console.error(`Error loading from storage (${key}):`, error);
-    return defaultValue;
+    throw new Error(`Storage entry ${key} could not be decrypted. Run the integrity check from the settings page.`);
   }
 }
 
 /**
- * Saves personas to local storage
+ * Saves personas to the vault document
  * @param personas Array of personas
  */
-export async function savePersonas(personas: Persona[]): Promise<void> {
-  await saveToStorage(PERSONAS_KEY, personas);
+export async function savePersonas(personas: StoredPersona[]): Promise<void> {
+  await updateVaultDocument(storage => ({ ...storage, personas }));
 }
 
 /**
- * Loads personas from local storage
+ * Loads personas from the vault document
  * @returns Array of personas
  */
-export async function loadPersonas(): Promise<Persona[]> {
-  return await loadFromStorage<Persona[]>(PERSONAS_KEY, []);
+export async function loadPersonas(): Promise<StoredPersona[]> {
+  return (await loadVaultDocument()).personas;
 }
 
 /**
- * Saves keys to local storage
+ * Saves keys to the vault document
  * @param keys Key-value pairs of keys
  */
 export async function saveKeys(keys: Record<string, string>): Promise<void> {
-  await saveToStorage(KEYS_KEY, keys);
+  await updateVaultDocument(storage => ({ ...storage, keys }));
 }
 
 /**
- * Loads keys from local storage
+ * Loads keys from the vault document
  * @returns Key-value pairs of keys
  */
 export async function loadKeys(): Promise<Record<string, string>> {
-  return await loadFromStorage<Record<string, string>>(KEYS_KEY, {});
+  return (await loadVaultDocument()).keys || {};
 }
 
 /**
- * Saves settings to local storage
+ * Saves settings to the vault document
  * @param settings Settings object
  */
-export async function saveSettings(settings: Record<string, any>): Promise<void> {
-  await saveToStorage(SETTINGS_KEY, settings);
+export async function saveSettings(settings: LocalStorage['settings']): Promise<void> {
+  await updateVaultDocument(storage => ({ ...storage, settings }));
 }
 
 /**
- * Loads settings from local storage
+ * Loads settings from the vault document
  * @returns Settings object
  */
-export async function loadSettings(): Promise<Record<string, any>> {
-  return await loadFromStorage<Record<string, any>>(SETTINGS_KEY, {});
+export async function loadSettings(): Promise<LocalStorage['settings']> {
+  return (await loadVaultDocument()).settings;
 }
 
 /**
- * Exports all storage data to a file
- * @returns JSON string of all data
+ * Exports all storage data as an encrypted backup bundle signed by the
+ * vault's master key. Persona compartments are unsealed inside the bundle,
+ * since their keys are bound to this vault.
+ * @param passphrase Backup passphrase the bundle is encrypted to
+ * @returns Backup bundle as a JSON string
  */
-export async function exportStorage(): Promise<string> {
+export async function exportStorage(passphrase: string): Promise<string> {
   try {
-    const personas = await loadPersonas();
-    const keys = await loadKeys();
-    const settings = await loadSettings();
+    const storage = await loadVaultDocument();
+    if (!storage.masterKey) {
+      throw new Error('This vault has no master key to sign backups with.');
+    }
     
-    const exportData = {
+    const personas: Persona[] = [];
+    for (const persona of storage.personas) {
+      personas.push(await unsealPersona(persona));
+    }
+    
+    const exportData: Record<string, unknown> = {
+      ...storage,
       personas,
-      keys,
-      settings,
       exportDate: new Date().toISOString(),
-      version: '2.0.0'
+      version: EXPORT_FORMAT_VERSION
     };
+    // Merge bases and the audit head describe this device's sync state and
+    // log, not the vault contents, and trashed personas stay sealed to this
+    // device until they are purged. The recovery secrets would let a backup
+    // and its passphrase derive every persona key without the recovery
+    // phrase, so a restore derives them from the phrase again.
+    delete exportData.mergeBases;
+    delete exportData.auditHead;
+    delete exportData.trash;
+    delete exportData.recovery;
+    
+    const bundle = await createBackupBundle(exportData, {
+      contents: 'vault',
+      passphrase,
+      masterKey: storage.masterKey,
+      exportVersion: EXPORT_FORMAT_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION
+    });
     
-    return JSON.stringify(exportData, null, 2);
+    // The exported state is the base for merging this bundle back in later
+    await updateVaultDocument(async latest => ({
+      ...latest,
+      mergeBases: await recordMergeBases(latest.mergeBases, personas, latest.personas),
+    }));
+    await recordAuditEvents([{ action: 'vault.exported', details: `Exported a backup of ${personas.length} persona(s)` }]);
+    return bundle;
   } catch (error) {
     console.error('Error exporting storage:', error);
     throw error;
@@ -190,33 +374,155 @@ export async function exportStorage(): Promise<string> {
 }
 
 /**
- * Imports data from a file to storage
- * @param jsonData JSON string of data to import
+ * Exports a backup bundle encrypted to the passphrase derived from the vault's
+ * recovery phrase, so the phrase alone can open it when restoring
+ * @returns Backup bundle as a JSON string
+ */
+export async function exportRecoveryBackup(): Promise<string> {
+  const storage = await loadVaultDocument();
+  if (!storage.recovery) {
+    throw new Error('This vault was not created with a recovery phrase.');
+  }
+  return await exportStorage(storage.recovery.backupPassphrase);
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  strategy?: MergeStrategy;
+  choices?: MergeChoices;
+}
+
+/**
+ * Verifies and decrypts a vault backup bundle and upgrades its document to
+ * the current schema. The bundle must be signed by this vault's master key
+ * or the master key it carries.
+ * @param bundleText Backup bundle as a JSON string
+ * @param passphrase Backup passphrase
+ * @returns Current vault document and the imported document
+ */
+async function openVaultBundle(bundleText: string, passphrase: string): Promise<{
+  current: LocalStorage;
+  imported: LocalStorage;
+  quarantined: QuarantinedRecord[];
+}> {
+  const { document: importData, signerPublicKey } = await openBackupBundle(bundleText, passphrase, 'vault');
+  
+  const shapeIssues = validateExportDocument(importData);
+  if (shapeIssues.length > 0) {
+    throw new Error(`Backup rejected: the export document is invalid (${formatValidationIssues(shapeIssues)}).`);
+  }
+  
+  const current = await loadVaultDocument();
+  const bundledMasterKey = importData.masterKey as LocalStorage['masterKey'];
+  const trustedSigners = [current.masterKey?.publicKey, bundledMasterKey?.publicKey]
+    .filter((key): key is string => !!key);
+  let signerTrusted = false;
+  for (const key of trustedSigners) {
+    signerTrusted = signerTrusted || await isSameKey(key, signerPublicKey);
+  }
+  if (!signerTrusted) {
+    throw new Error('Backup rejected: it was signed by a key that is not this vault\'s master key.');
+  }
+  
+  // Strip export metadata and upgrade the document to the current schema
+  const document = { ...importData };
+  delete document.exportDate;
+  delete document.version;
+  delete document.mergeBases;
+  delete document.auditHead;
+  delete document.recovery;
+  const { document: migrated } = await migrateVaultDocument(document);
+  // Invalid records in the backup are imported into the quarantine, not loaded
+  const { document: imported, quarantined } = quarantineInvalidRecords(migrated);
+  
+  return { current, imported, quarantined };
+}
+
+/**
+ * Shows what merging a backup bundle into this vault would change, without
+ * changing any stored data
+ * @param bundleText Backup bundle as a JSON string
+ * @param passphrase Backup passphrase
+ * @param options Strategy for fields changed on both sides, and manual choices
+ * @returns Merge preview
+ */
+export async function previewStorageImport(
+  bundleText: string,
+  passphrase: string,
+  options: { strategy: MergeStrategy; choices?: MergeChoices }
+): Promise<VaultMergePreview> {
+  const { current, imported, quarantined } = await openVaultBundle(bundleText, passphrase);
+  const { preview } = await mergeVaultDocuments(current, imported, options);
+  return { ...preview, quarantined };
+}
+
+/**
+ * Imports a backup bundle into storage. The bundle's integrity hash and
+ * signature are verified before any stored data is touched, and it must be
+ * signed by this vault's master key or the master key it carries.
+ * Exports from older versions are upgraded through the vault migrations.
+ * In replace mode (the default) the bundle overwrites personas, keys and
+ * settings; in merge mode it is merged in with mergeVaultDocuments.
+ * @param bundleText Backup bundle as a JSON string
+ * @param passphrase Backup passphrase
+ * @param options Import mode, and for merges the strategy and manual choices
  * @returns Success status
  */
-export async function importStorage(jsonData: string): Promise<boolean> {
+export async function importStorage(
+  bundleText: string,
+  passphrase: string,
+  { mode = 'replace', strategy = 'newerWins', choices }: ImportOptions = {}
+): Promise<boolean> {
   try {
-    const importData = JSON.parse(jsonData);
+    const { imported } = await openVaultBundle(bundleText, passphrase);
     
-    if (!importData.personas || !importData.keys || !importData.version) {
-      throw new Error('Invalid import data format');
+    if (mode === 'merge') {
+      // Merged into the latest document, in case another tab wrote since the preview
+      let details = '';
+      await updateVaultDocument(async latest => {
+        const merged = await mergeVaultDocuments(latest, imported, { strategy, choices });
+        if (merged.preview.conflicts > 0) {
+          throw new Error(`Merge has ${merged.preview.conflicts} unresolved conflict(s). Choose a side for each before importing.`);
+        }
+        details = `Merged a backup: ${merged.preview.added.length} persona(s) added, ${merged.preview.merged.length} merged`;
+        return merged.document;
+      });
+      await recordAuditEvents([{ action: 'vault.imported', details }]);
+      return true;
     }
     
-    // Verify version compatibility
-    const versionParts = importData.version.split('.');
-    const majorVersion = parseInt(versionParts[0], 10);
+    // Keep this device's master key unless the export carries one
+    const personas = imported.personas as Array<Persona | StoredPersona>;
+    const unsealed = await Promise.all(personas.map(persona => isSealedPersona(persona) ? unsealPersona(persona) : persona));
     
-    if (majorVersion < 2) {
-      throw new Error('Incompatible version. Only version 2.x or higher is supported.');
-    }
-    
-    // Import data
-    await savePersonas(importData.personas);
-    await saveKeys(importData.keys);
-    
-    if (importData.settings) {
-      await saveSettings(importData.settings);
-    }
+    await updateVaultDocument(async latest => {
+      // Recovery secrets are never exported; this vault's stay while its master key does
+      const keepsMasterKey = !imported.masterKey ||
+        (!!latest.masterKey && await isSameKey(latest.masterKey.publicKey, imported.masterKey.publicKey));
+      // Personas already on this device, trashed or not, keep their
+      // compartment key, which protects their stored private key
+      const existing = new Map([...latest.personas, ...(latest.trash || []).map(entry => entry.persona)]
+        .map(persona => [persona.id, persona]));
+      const sealed = await Promise.all(unsealed.map(persona => sealPersona(persona, existing.get(persona.id))));
+      return {
+        ...imported,
+        personas: sealed,
+        masterKey: imported.masterKey || latest.masterKey,
+        recovery: keepsMasterKey ? latest.recovery : undefined,
+        mergeBases: await recordMergeBases({}, unsealed, sealed),
+        // The audit log stays on this device, so its head does too
+        auditHead: latest.auditHead,
+        quarantine: mergeQuarantine(latest.quarantine, imported.quarantine),
+        // The trash is not part of backups; keep it unless the backup brings a persona back
+        trash: latest.trash?.filter(entry => !unsealed.some(persona => persona.id === entry.persona.id))
+      };
+    });
+    await recordAuditEvents([{
+      action: 'vault.imported',
+      details: `Replaced the vault with a backup of ${unsealed.length} persona(s)`,
+    }]);
     
     return true;
   } catch (error) {
@@ -225,14 +531,36 @@ export async function importStorage(jsonData: string): Promise<boolean> {
   }
 }
 
+/**
+ * Deletes a named vault and everything stored in it from this device
+ * @param vaultId Vault ID; neither the default nor the active vault
+ */
+export async function deleteNamedVault(vaultId: string): Promise<void> {
+  if (vaultId === DEFAULT_VAULT_ID || vaultId === getActiveVaultId()) {
+    throw new Error('The default vault cannot be deleted, and another vault has to be opened before this one can be.');
+  }
+  const device = getDeviceStorageAdapter();
+  const namespace = getVaultNamespace(vaultId);
+  for (const key of await device.keys()) {
+    if (key.startsWith(namespace)) {
+      await device.removeItem(key);
+    }
+  }
+  removeVaultEntry(vaultId);
+}
+
 /**
  * Clears all storage data
  */
 export async function clearStorage(): Promise<void> {
-  localStorage.removeItem(PERSONAS_KEY);
-  localStorage.removeItem(KEYS_KEY);
-  localStorage.removeItem(SETTINGS_KEY);
-  localStorage.removeItem(STORAGE_KEY);
+  const adapter = getStorageAdapter();
+  await adapter.removeItem(PERSONAS_KEY);
+  await adapter.removeItem(KEYS_KEY);
+  await adapter.removeItem(SETTINGS_KEY);
+  await adapter.removeItem(LEGACY_ENCRYPTED_STORAGE_KEY);
+  await adapter.removeItem(STORAGE_KEY);
+  await adapter.removeItem(AUDIT_LOG_KEY);
+  broadcastVaultChange(0);
 }
 
 /**
@@ -241,7 +569,7 @@ export async function clearStorage(): Promise<void> {
  * @param password Password for encryption
  * @returns Encrypted storage data
  */
-export async function encryptStorage(data: any, password: string = DEFAULT_PASSWORD): Promise<string> {
+export async function encryptStorage(data: any, password: string = getVaultKey()): Promise<string> {
   return await encryptData(data, password);
 }
 
@@ -251,115 +579,593 @@ export async function encryptStorage(data: any, password: string = DEFAULT_PASSW
  * @param password Password for decryption
  * @returns Decrypted storage data
  */
-export async function decryptStorage(encryptedData: string, password: string = DEFAULT_PASSWORD): Promise<any> {
+export async function decryptStorage(encryptedData: string, password: string = getVaultKey()): Promise<unknown> {
   return await decryptData(encryptedData, password);
 }
 
 /**
- * Saves encrypted storage data
+ * Reads the raw vault entry from the storage backend
+ * @returns Raw stored value or null if no vault exists
+ */
+export async function loadRawVault(): Promise<string | null> {
+  return await getStorageAdapter().getItem(STORAGE_KEY);
+}
+
+/**
+ * Parses the stored vault envelope
+ * @returns Vault envelope or null if no vault or a legacy vault exists
+ */
+export async function loadVaultEnvelope(): Promise<VaultEnvelope | null> {
+  const raw = await loadRawVault();
+  if (!raw || isLegacyVaultData(raw)) {
+    return null;
+  }
+
+  const envelope = JSON.parse(raw) as VaultEnvelope;
+  if (envelope.format !== VAULT_FORMAT || !envelope.header || !envelope.data) {
+    throw new Error('Unrecognized vault format');
+  }
+  return envelope;
+}
+
+function isLegacyVaultData(raw: string): boolean {
+  return raw.trimStart().startsWith('-----BEGIN PGP MESSAGE-----');
+}
+
+/**
+ * Checks whether a vault exists on this device
+ */
+export async function hasVault(): Promise<boolean> {
+  return !!(await loadRawVault());
+}
+
+/**
+ * Checks whether the stored vault predates passphrase protection
+ */
+export async function isLegacyVault(): Promise<boolean> {
+  const raw = await loadRawVault();
+  return !!raw && isLegacyVaultData(raw);
+}
+
+/**
+ * Loads the plaintext vault header (KDF parameters and key verifier)
+ * @returns Vault header or null if not found
+ */
+export async function loadVaultHeader(): Promise<VaultHeader | null> {
+  return (await loadVaultEnvelope())?.header ?? null;
+}
+
+/**
+ * Saves encrypted storage data, keeping the existing vault header
  * @param encryptedData Encrypted storage data
  */
 export async function saveEncryptedStorage(encryptedData: string): Promise<void> {
-  localStorage.setItem(STORAGE_KEY, encryptedData);
+  await compareAndWriteVault(encryptedData);
 }
 
 /**
- * Loads encrypted storage data
- * @returns Encrypted storage data or null if not found
+ * Writes the encrypted document under the current header and the next
+ * revision, unless the vault is no longer at the expected revision
+ * @param encryptedData Encrypted vault document
+ * @param expectedRevision Revision the document was based on; omit to write unconditionally
+ * @param entries Other storage entries written together with the document
+ * @returns New revision, or null if another write came first
  */
-export async function loadEncryptedStorage(): Promise<string | null> {
-  return localStorage.getItem(STORAGE_KEY);
+async function compareAndWriteVault(
+  encryptedData: string,
+  expectedRevision?: number,
+  entries: Record<string, string> = {}
+): Promise<number | null> {
+  return await withVaultWriteLock(async () => {
+    const envelope = await loadVaultEnvelope();
+    if (!envelope) {
+      throw new Error('Cannot save storage: vault header is missing');
+    }
+    // Never write over a vault the unlocked key cannot read
+    if (computeKeyVerifier(getVaultKey()) !== envelope.header.verifier) {
+      throw new Error('Cannot save storage: the vault on this device was re-encrypted with another key.');
+    }
+    const revision = envelope.revision ?? 0;
+    if (expectedRevision !== undefined && revision !== expectedRevision) {
+      return null;
+    }
+    await writeVault(envelope.header, encryptedData, revision + 1, entries);
+    return revision + 1;
+  });
+}
+
+async function writeVault(
+  header: VaultHeader,
+  encryptedData: string,
+  revision = 0,
+  entries: Record<string, string> = {}
+): Promise<void> {
+  const envelope: VaultEnvelope = {
+    format: VAULT_FORMAT,
+    header,
+    data: encryptedData,
+    revision,
+  };
+  if (Object.keys(entries).length > 0) {
+    await writeEntriesAtomically({ ...entries, [STORAGE_KEY]: JSON.stringify(envelope) });
+  } else {
+    await getStorageAdapter().setItem(STORAGE_KEY, JSON.stringify(envelope));
+  }
+  broadcastVaultChange(revision);
 }
 
 /**
- * Initializes storage with default values if not already initialized
+ * Returns the vault's revision, which increases with every write
  */
-export async function initializeStorage(): Promise<void> {
-  const encryptedStorage = await loadEncryptedStorage();
-  if (!encryptedStorage) {
-    const defaultStorage = {
-      personas: [],
-      keys: {},
-      settings: {
-        theme: 'dark',
-        privacyLevel: 'high',
-        initialized: true
-      }
-    };
-    const encrypted = await encryptStorage(defaultStorage);
-    await saveEncryptedStorage(encrypted);
-  }
+export async function loadVaultRevision(): Promise<number> {
+  return (await loadVaultEnvelope())?.revision ?? 0;
 }
 
 /**
- * Securely loads and returns the decrypted storage
- * Initializes default storage if none exists
- * @returns Decrypted storage object
+ * Checks whether the unlocked vault key still opens the stored vault. It
+ * stops doing so when another tab rekeys or resets the vault.
+ */
+export async function isVaultKeyCurrent(): Promise<boolean> {
+  const header = await loadVaultHeader();
+  return !!header && computeKeyVerifier(getVaultKey()) === header.verifier;
+}
+
+/**
+ * Writes several storage entries as one unit. The previous values are
+ * journaled first, so an interrupted write is rolled back on the next load.
+ * @param entries New values by storage key
  */
-export async function SecureStorage(): Promise<any> {
+async function writeEntriesAtomically(entries: Record<string, string>): Promise<void> {
+  const adapter = getStorageAdapter();
+  await recoverInterruptedVaultWrite();
+
+  const previous: Record<string, string | null> = {};
+  for (const key of Object.keys(entries)) {
+    previous[key] = await adapter.getItem(key);
+  }
+  await adapter.setItem(JOURNAL_KEY, JSON.stringify(previous));
+
   try {
-    let encryptedStorage = await loadEncryptedStorage();
-    if (!encryptedStorage) {
-      await initializeStorage();
-      encryptedStorage = await loadEncryptedStorage();
+    for (const [key, value] of Object.entries(entries)) {
+      await adapter.setItem(key, value);
     }
-    if (!encryptedStorage) {
-      throw new Error('Failed to initialize secure storage.');
-    }
-    const storage = await decryptStorage(encryptedStorage);
-    return storage;
   } catch (error) {
-    console.error('Error accessing SecureStorage:', error);
+    console.error('Vault write failed, restoring the previous vault:', error);
+    await recoverInterruptedVaultWrite();
     throw error;
   }
+  await adapter.removeItem(JOURNAL_KEY);
 }
 
 /**
- * Creates a new persona
- * @param input Persona creation data
- * @returns Updated storage, created persona, and new private key
+ * Checks whether a vault write was interrupted and not yet rolled back
  */
-export async function createPersona(
-  { name, email, isPublic }: CreatePersonaInput
-): Promise<{ updatedStorage: any; persona: Persona; privateKey: string }> {
-  let encryptedStorage = await loadEncryptedStorage();
-  if (!encryptedStorage) {
-    await initializeStorage();
-    encryptedStorage = await loadEncryptedStorage();
+export async function hasInterruptedVaultWrite(): Promise<boolean> {
+  return !!(await getStorageAdapter().getItem(JOURNAL_KEY));
+}
+
+/**
+ * Restores the entries of a vault write that did not finish
+ * @returns Whether an interrupted write was rolled back
+ */
+export async function recoverInterruptedVaultWrite(): Promise<boolean> {
+  const adapter = getStorageAdapter();
+  const journal = await adapter.getItem(JOURNAL_KEY);
+  if (!journal) {
+    return false;
   }
 
-  const storage = await decryptStorage(encryptedStorage);
+  const previous = JSON.parse(journal) as Record<string, string | null>;
+  for (const [key, value] of Object.entries(previous)) {
+    if (value === null) {
+      await adapter.removeItem(key);
+    } else {
+      await adapter.setItem(key, value);
+    }
+  }
+  await adapter.removeItem(JOURNAL_KEY);
+  return true;
+}
+
+/**
+ * Replaces the vault with a document under a new header and vault key,
+ * together with other entries that must change with it, then unlocks the
+ * vault with the new key. Either everything is written or nothing is.
+ * @param header New vault header
+ * @param document Vault document
+ * @param vaultKey Vault key matching the header
+ * @param entries Other storage entries to write, by storage key
+ */
+export async function replaceVault(
+  header: VaultHeader,
+  document: LocalStorage,
+  vaultKey: string,
+  entries: Record<string, string> = {}
+): Promise<void> {
+  const data = await encryptStorage({ ...document, schemaVersion: CURRENT_SCHEMA_VERSION }, vaultKey);
+  const revision = await withVaultWriteLock(async () => {
+    const envelope: VaultEnvelope = {
+      format: VAULT_FORMAT,
+      header,
+      data,
+      revision: await loadVaultRevision() + 1,
+    };
+    await writeEntriesAtomically({ ...entries, [STORAGE_KEY]: JSON.stringify(envelope) });
+    return envelope.revision as number;
+  });
+  setVaultKey(vaultKey);
+  broadcastVaultChange(revision);
+}
 
-  const { publicKey, privateKey } = await generateKeyPair();
+/**
+ * Loads encrypted storage data
+ * @returns Encrypted storage data or null if not found
+ */
+export async function loadEncryptedStorage(): Promise<string | null> {
+  const raw = await loadRawVault();
+  if (!raw) {
+    return null;
+  }
+  if (isLegacyVaultData(raw)) {
+    return raw;
+  }
+  return (await loadVaultEnvelope())?.data ?? null;
+}
 
-  const persona: Persona = {
-    id: `persona_${Date.now()}`, // simple ID generation (or use uuidv4() if you prefer)
-    publicKey,
-    privateData: {
-      accounts: [],
-      signedProofs: [],
-      notes: `Created with email: ${email}`, // store hidden email
+/**
+ * Builds a fresh vault header for a passphrase
+ * @param passphrase User-supplied passphrase
+ * @returns Header and the derived vault key
+ */
+export async function createVaultHeader(passphrase: string): Promise<{ header: VaultHeader; vaultKey: string }> {
+  const kdf = createKdfParams();
+  const vaultKey = await deriveVaultKey(passphrase, kdf);
+  return {
+    header: {
+      kdf,
+      verifier: computeKeyVerifier(vaultKey),
+      createdAt: new Date().toISOString(),
     },
-    createdAt: new Date().toISOString(),
-    isPublic,
-    name,
+    vaultKey,
   };
+}
 
-  storage.personas = storage.personas || [];
-  storage.personas.push(persona);
+/**
+ * Creates a new vault protected by a user-supplied passphrase and unlocks it.
+ * With a recovery phrase, the master key and later persona keys are derived
+ * from the phrase, so they can be derived again when restoring the vault.
+ * @param input Owner name, email, vault passphrase and optional recovery phrase
+ * @returns The master private key generated for the vault
+ */
+export async function initializeStorage(
+  { name, email, passphrase, recoveryPhrase }: { name: string; email: string; passphrase: string; recoveryPhrase?: string }
+): Promise<{ privateKey: string }> {
+  if (await hasVault()) {
+    throw new Error('A vault already exists on this device.');
+  }
+  if (!passphrase) {
+    throw new Error('A passphrase is required to create a vault.');
+  }
 
-  const newEncryptedStorage = await encryptStorage(storage);
-  await saveEncryptedStorage(newEncryptedStorage);
+  let recovery: VaultRecoverySecrets | undefined;
+  let masterKey: { publicKey: string; privateKey: string } | null;
+  if (recoveryPhrase) {
+    const { masterKeySeed, ...secrets } = deriveRecoverySecrets(recoveryPhrase);
+    recovery = secrets;
+    masterKey = await deriveMasterKeyPair(masterKeySeed, [{ name, email }]);
+    if (!masterKey) {
+      throw new Error('This browser cannot derive keys from a recovery phrase. Create the vault without one.');
+    }
+  } else {
+    masterKey = await generateKeyPair({ algorithm: 'ecc', userIDs: [{ name, email }] });
+  }
 
-  
+  const { header, vaultKey } = await createVaultHeader(passphrase);
+  const { publicKey, privateKey } = masterKey;
 
-  return {
-    updatedStorage: storage,
-    persona,
-    privateKey,
+  const defaultStorage: LocalStorage = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    personas: [],
+    keys: {},
+    masterKey: {
+      publicKey,
+      privateKey,
+    },
+    recovery,
+    settings: {
+      theme: 'dark',
+      privacyLevel: 'high',
+      initialized: true
+    }
   };
+  const encrypted = await encryptStorage(defaultStorage, vaultKey);
+  await writeVault(header, encrypted);
+  setVaultKey(vaultKey);
+
+  return { privateKey };
+}
+
+/**
+ * Unlocks the vault with the user's passphrase.
+ * A legacy vault is re-encrypted under the given passphrase on first unlock.
+ * @param passphrase User-supplied passphrase
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  await recoverInterruptedVaultWrite();
+  if (await isLegacyVault()) {
+    await upgradeLegacyVault(passphrase);
+    return;
+  }
+
+  const header = await loadVaultHeader();
+  if (!header) {
+    throw new Error('No vault found on this device.');
+  }
+
+  const vaultKey = await deriveVaultKey(passphrase, header.kdf);
+  if (computeKeyVerifier(vaultKey) !== header.verifier) {
+    throw new Error('Incorrect passphrase');
+  }
+  setVaultKey(vaultKey);
+}
+
+/**
+ * Unlocks the vault with its key directly, as recovered from key shares
+ * instead of derived from the passphrase
+ * @param vaultKey Hex-encoded vault key
+ */
+export async function unlockVaultWithKey(vaultKey: string): Promise<void> {
+  await recoverInterruptedVaultWrite();
+  const header = await loadVaultHeader();
+  if (!header) {
+    throw new Error('No vault found on this device.');
+  }
+  if (computeKeyVerifier(vaultKey) !== header.verifier) {
+    throw new Error('The recovered key does not unlock this vault.');
+  }
+  setVaultKey(vaultKey);
+}
+
+/**
+ * Locks the vault, forgetting the derived key
+ * @param reason Why the vault locked, when it was not locked by the user
+ */
+export function lockVault(reason?: string): void {
+  clearVaultKey(reason);
+}
+
+/**
+ * Re-encrypts a vault protected by the legacy default password under a passphrase
+ * @param passphrase New passphrase for the vault
+ */
+async function upgradeLegacyVault(passphrase: string): Promise<void> {
+  const raw = await loadRawVault();
+  if (!raw) {
+    throw new Error('No vault found on this device.');
+  }
+
+  const storage = await decryptStorage(raw, LEGACY_DEFAULT_PASSWORD);
+  const { header, vaultKey } = await createVaultHeader(passphrase);
+  const encrypted = await encryptStorage(storage, vaultKey);
+  await writeVault(header, encrypted);
+  setVaultKey(vaultKey);
+}
+
+/**
+ * Decrypts a stored entry of the old split layout, trying the vault key
+ * first and the legacy default password second
+ * @param key Storage key
+ * @returns Decrypted value or null if missing or unreadable
+ */
+async function loadLegacyEntry<T>(key: string): Promise<T | null> {
+  const encrypted = await getStorageAdapter().getItem(key);
+  if (!encrypted) {
+    return null;
+  }
+  for (const password of [getVaultKey(), LEGACY_DEFAULT_PASSWORD]) {
+    try {
+      return await decryptData(encrypted, password) as T;
+    } catch {
+      // try the next password
+    }
+  }
+  console.error(`Could not read legacy storage entry (${key}); leaving it in place`);
+  return null;
+}
+
+/**
+ * Folds personas, keys and settings saved under the old split layout into the
+ * vault document. Documents already in the vault win over loose entries.
+ * @param document Decrypted vault document
+ * @returns Merged document and the storage keys that were absorbed
+ */
+async function absorbLegacyEntries(
+  document: Record<string, unknown>
+): Promise<{ document: Record<string, unknown>; absorbedKeys: string[] }> {
+  const absorbedKeys: string[] = [];
+  const personas = await loadLegacyEntry<Array<{ id: string }>>(PERSONAS_KEY);
+  const keys = await loadLegacyEntry<Record<string, string>>(KEYS_KEY);
+  const settings = await loadLegacyEntry<Record<string, unknown>>(SETTINGS_KEY);
+
+  let merged = document;
+  if (personas) {
+    const existing = (merged.personas as Array<{ id: string }> | undefined) || [];
+    const existingIds = new Set(existing.map(persona => persona.id));
+    merged = { ...merged, personas: [...existing, ...personas.filter(persona => !existingIds.has(persona.id))] };
+    absorbedKeys.push(PERSONAS_KEY);
+  }
+  if (keys) {
+    merged = { ...merged, keys: { ...keys, ...(merged.keys as Record<string, string> | undefined) } };
+    absorbedKeys.push(KEYS_KEY);
+  }
+  if (settings) {
+    merged = { ...merged, settings: { ...settings, ...(merged.settings as Record<string, unknown> | undefined) } };
+    absorbedKeys.push(SETTINGS_KEY);
+  }
+
+  return { document: merged, absorbedKeys };
+}
+
+/**
+ * Loads the vault document, folding in the old split layout and running
+ * schema migrations. An upgraded document is written back immediately.
+ * @returns Decrypted vault document at the current schema version
+ */
+export async function loadVaultDocument(): Promise<LocalStorage> {
+  const encryptedStorage = await loadEncryptedStorage();
+  if (!encryptedStorage) {
+    throw new Error('No vault found. Create one from the dashboard first.');
+  }
+
+  const decrypted = await decryptStorage(encryptedStorage);
+  const shapeIssues = validateExportDocument(decrypted);
+  if (shapeIssues.length > 0) {
+    throw new Error(`The vault document is invalid (${formatValidationIssues(shapeIssues)}). Run the integrity check from the settings page.`);
+  }
+  const { document: absorbed, absorbedKeys } = await absorbLegacyEntries(decrypted as Record<string, unknown>);
+  const { document: migrated, appliedMigrations } = await migrateVaultDocument(absorbed);
+  // Invalid records are set aside in the vault's quarantine instead of being loaded
+  const { document: validated, quarantined } = quarantineInvalidRecords(migrated);
+  if (quarantined.length > 0) {
+    console.warn(`Quarantined ${quarantined.length} invalid vault record(s): ${formatValidationIssues(quarantined.flatMap(record => record.issues))}`);
+  }
+  const document = absorbedKeys.length > 0
+    ? { ...validated, personas: await sealPersonas(validated.personas as Array<Persona | StoredPersona>) }
+    : validated;
+
+  if (absorbedKeys.length > 0 || appliedMigrations.length > 0 || quarantined.length > 0) {
+    await saveVaultDocument(document);
+    for (const key of absorbedKeys) {
+      await getStorageAdapter().removeItem(key);
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Encrypts and saves the vault document under the unlocked vault key,
+ * whatever was written since it was loaded
+ * @param document Vault document
+ */
+export async function saveVaultDocument(document: LocalStorage): Promise<void> {
+  const encrypted = await encryptStorage({ ...document, schemaVersion: CURRENT_SCHEMA_VERSION });
+  await saveEncryptedStorage(encrypted);
+}
+
+/**
+ * Saves the vault document only if no other write happened since the given
+ * revision was read
+ * @param document Vault document
+ * @param expectedRevision Revision the document was loaded at
+ * @param entries Other storage entries written together with the document
+ * @returns New revision, or null if the vault changed in the meantime
+ */
+export async function trySaveVaultDocument(
+  document: LocalStorage,
+  expectedRevision: number,
+  entries: Record<string, string> = {}
+): Promise<number | null> {
+  const encrypted = await encryptStorage({ ...document, schemaVersion: CURRENT_SCHEMA_VERSION });
+  return await compareAndWriteVault(encrypted, expectedRevision, entries);
+}
+
+/**
+ * Applies a change to the latest vault document. If another tab writes in
+ * between, the change is applied again to its version.
+ * @param mutate Returns the changed document; may run more than once
+ * @param entries Other storage entries that must change with the document,
+ * such as a persona's new private key; either all are written or none
+ * @returns Saved document and its revision
+ */
+export async function updateVaultDocument(
+  mutate: (document: LocalStorage) => LocalStorage | Promise<LocalStorage>,
+  entries: Record<string, string> = {}
+): Promise<{ document: LocalStorage; revision: number }> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const revision = await loadVaultRevision();
+    const document = await mutate(await loadVaultDocument());
+    const saved = await trySaveVaultDocument(document, revision, entries);
+    if (saved !== null) {
+      return { document, revision: saved };
+    }
+  }
+  throw new Error('The vault kept changing in another tab. Please try again.');
+}
+
+/**
+ * Appends events to the audit log, each chained to the one before it. The
+ * log and the head recorded in the vault document are written together
+ * under the vault write lock, so tabs cannot drop each other's entries and a
+ * log cut short or rolled back no longer reaches the recorded head.
+ * @param events Events in the order they happened
+ */
+export async function appendAuditEvents(events: AuditEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const revision = await withVaultWriteLock(async () => {
+    const envelope = await loadVaultEnvelope();
+    if (!envelope) {
+      throw new Error('Cannot write the audit log: vault header is missing');
+    }
+    if (computeKeyVerifier(getVaultKey()) !== envelope.header.verifier) {
+      throw new Error('Cannot write the audit log: the vault on this device was re-encrypted with another key.');
+    }
+
+    const document = await decryptStorage(envelope.data) as LocalStorage;
+    const entries = chainAuditEvents(await loadAuditLog(), events, document.auditHead);
+    const { seq, hash } = entries[entries.length - 1];
+    const updated: VaultEnvelope = {
+      ...envelope,
+      data: await encryptStorage({ ...document, auditHead: { seq, hash } }),
+      revision: (envelope.revision ?? 0) + 1,
+    };
+    await writeEntriesAtomically({
+      [AUDIT_LOG_KEY]: await encryptData(entries),
+      [STORAGE_KEY]: JSON.stringify(updated),
+    });
+    return updated.revision as number;
+  });
+  broadcastVaultChange(revision);
+}
+
+/**
+ * Records events without failing the change they describe. A vault change
+ * that was saved stays saved even if logging it fails.
+ */
+export async function recordAuditEvents(events: AuditEvent[]): Promise<void> {
+  try {
+    await appendAuditEvents(events);
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
 
+/**
+ * Loads the audit log and verifies it against the head recorded in the vault
+ * document
+ * @returns Entries, oldest first, and the verification result
+ */
+export async function loadVerifiedAuditLog(): Promise<{ entries: AuditEntry[]; verification: AuditVerification }> {
+  const { auditHead } = await loadVaultDocument();
+  const entries = await loadAuditLog();
+  return { entries, verification: verifyAuditLog(entries, auditHead) };
+}
 
+/**
+ * Securely loads and returns the decrypted storage
+ * Requires the vault to exist and be unlocked
+ * @returns Decrypted storage object
+ */
+export async function SecureStorage(): Promise<LocalStorage> {
+  try {
+    return await loadVaultDocument();
+  } catch (error) {
+    console.error('Error accessing SecureStorage:', error);
+    throw error;
+  }
 }
 
   // Default export for the entire module
@@ -372,12 +1178,20 @@ export default {
     saveSettings,
     loadSettings,
     exportStorage,
+    exportRecoveryBackup,
     importStorage,
+    previewStorageImport,
     clearStorage,
     encryptStorage,
     decryptStorage,
     saveEncryptedStorage,
     loadEncryptedStorage,
     initializeStorage,
-    createPersona
+    unlockVault,
+    unlockVaultWithKey,
+    lockVault,
+    updateVaultDocument,
+    replaceVault,
+    recoverInterruptedVaultWrite,
+    hasVault
   };
\ No newline at end of file
@@ -0,0 +1,397 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import {
+  bytesToHex,
+  hexToBytes,
+  utf8ToBytes,
+} from '@noble/hashes/utils';
+
+import {
+  ConnectedAccount,
+  LocalStorage,
+  Persona,
+  PersonaMergeBase,
+  PersonaMergeField,
+  QuarantinedRecord,
+  SignedProof,
+  StoredPersona,
+} from '@/types';
+
+import { getAccountKey } from './accounts';
+import {
+  isSealedPersona,
+  sealPersona,
+  sealPersonas,
+  unsealPersona,
+  unwrapCompartmentKey,
+} from './compartments';
+import { mergeQuarantine } from './validation';
+
+/**
+ * How to settle a field changed on both sides since the last sync.
+ * newerWins: take the side whose persona was updated most recently.
+ * manual: take the side chosen for that field in the merge choices.
+ */
+export type MergeStrategy = 'newerWins' | 'manual';
+
+export type MergeSide = 'local' | 'incoming';
+
+// Manual choices, keyed by mergeChoiceKey(personaId, field)
+export type MergeChoices = Record<string, MergeSide>;
+
+export interface FieldChange {
+  field: PersonaMergeField;
+  local: unknown;
+  incoming: unknown;
+  changedOn: 'incoming' | 'both';
+  resolution: MergeSide | null; // null until a manual choice is made
+}
+
+export interface PersonaMergeDiff {
+  personaId: string;
+  incomingId: string;
+  name: string;
+  matchedBy: 'id' | 'key';
+  newer: MergeSide;
+  fields: FieldChange[];
+  addedAccounts: ConnectedAccount[];
+  addedProofs: SignedProof[];
+}
+
+export interface VaultMergePreview {
+  strategy: MergeStrategy;
+  added: Array<{ id: string; name: string }>;
+  merged: PersonaMergeDiff[];
+  unchanged: number;
+  addedSettings: string[];
+  conflicts: number;
+  quarantined: QuarantinedRecord[]; // invalid records in the backup, imported into the quarantine
+}
+
+const MERGE_FIELDS: PersonaMergeField[] = ['name', 'isPublic', 'publicKey', 'notes', 'settingsOverrides'];
+
+// Settings tied to this device, never taken from an import
+const DEVICE_SETTINGS = ['initialized', 'storageBackend'];
+
+/**
+ * Builds the key under which a manual choice for a persona field is recorded
+ */
+export function mergeChoiceKey(personaId: string, field: PersonaMergeField): string {
+  return `${personaId}:${field}`;
+}
+
+function fieldValue(persona: Persona, field: PersonaMergeField): unknown {
+  return field === 'notes' ? persona.privateData.notes : persona[field];
+}
+
+// Keyed with the persona's compartment key, so the bases kept outside the
+// compartment cannot be used to guess its private values
+function hashValue(value: unknown, compartmentKey: string): string {
+  return bytesToHex(hmac(sha256, hexToBytes(compartmentKey), utf8ToBytes(JSON.stringify(value ?? null))));
+}
+
+/**
+ * Records the current state of each persona as the base of its next merge
+ * @param mergeBases Existing merge bases
+ * @param personas Personas now in sync with another device
+ * @param storedPersonas Sealed records of those personas, whose compartment keys the bases are hashed with
+ * @returns Updated merge bases
+ */
+export async function recordMergeBases(
+  mergeBases: LocalStorage['mergeBases'],
+  personas: Persona[],
+  storedPersonas: StoredPersona[]
+): Promise<Record<string, PersonaMergeBase>> {
+  const updated = { ...mergeBases };
+  for (const persona of personas) {
+    const stored = storedPersonas.find(candidate => candidate.id === persona.id);
+    if (!stored) {
+      continue;
+    }
+    const compartmentKey = await unwrapCompartmentKey(stored);
+    updated[persona.id] = Object.fromEntries(
+      MERGE_FIELDS.map(field => [field, hashValue(fieldValue(persona, field), compartmentKey)])
+    );
+  }
+  return updated;
+}
+
+function lastUpdated(persona: Persona): string {
+  return persona.updatedAt || persona.createdAt;
+}
+
+/**
+ * Lists the fingerprints of every key a persona has had
+ */
+function knownFingerprints(persona: Persona): string[] {
+  return [persona.fingerprint, ...(persona.keyHistory || []).map(rotation => rotation.previousFingerprint)].filter(Boolean);
+}
+
+/**
+ * Finds the local persona an incoming one merges into, by ID first and then
+ * by key fingerprint, including keys either side has rotated away from
+ */
+function findMatch(
+  incoming: Persona,
+  local: Persona[]
+): { persona: Persona; matchedBy: 'id' | 'key' } | null {
+  const byId = local.find(persona => persona.id === incoming.id);
+  if (byId) {
+    return { persona: byId, matchedBy: 'id' };
+  }
+  const incomingFingerprints = knownFingerprints(incoming);
+  const byKey = local.find(persona => knownFingerprints(persona).some(fingerprint => incomingFingerprints.includes(fingerprint)));
+  return byKey ? { persona: byKey, matchedBy: 'key' } : null;
+}
+
+/**
+ * Three-way merge of one persona field. Only sides that differ from the
+ * merge base count as changed; without a base both sides are treated as changed.
+ */
+function mergeField(
+  field: PersonaMergeField,
+  local: Persona,
+  incoming: Persona,
+  base: PersonaMergeBase | undefined,
+  compartmentKey: string,
+  newer: MergeSide,
+  strategy: MergeStrategy,
+  choices: MergeChoices
+): FieldChange | null {
+  const localValue = fieldValue(local, field);
+  const incomingValue = fieldValue(incoming, field);
+  if (hashValue(localValue, compartmentKey) === hashValue(incomingValue, compartmentKey)) {
+    return null;
+  }
+
+  const baseHash = base?.[field];
+  if (baseHash !== undefined && hashValue(incomingValue, compartmentKey) === baseHash) {
+    return null;
+  }
+  if (baseHash !== undefined && hashValue(localValue, compartmentKey) === baseHash) {
+    return { field, local: localValue, incoming: incomingValue, changedOn: 'incoming', resolution: 'incoming' };
+  }
+
+  return {
+    field,
+    local: localValue,
+    incoming: incomingValue,
+    changedOn: 'both',
+    resolution: strategy === 'newerWins' ? newer : choices[mergeChoiceKey(local.id, field)] ?? null,
+  };
+}
+
+function applyChanges(local: Persona, incoming: Persona, diff: PersonaMergeDiff): Persona {
+  const merged: Persona = {
+    ...local,
+    privateData: {
+      ...local.privateData,
+      accounts: [...local.privateData.accounts, ...diff.addedAccounts],
+      signedProofs: [...local.privateData.signedProofs, ...diff.addedProofs],
+    },
+  };
+
+  for (const change of diff.fields) {
+    if (change.resolution !== 'incoming') {
+      continue;
+    }
+    if (change.field === 'notes') {
+      merged.privateData.notes = incoming.privateData.notes;
+    } else if (change.field === 'publicKey') {
+      // A rotated key brings its fingerprint, its subkey roles, the history linking it to the earlier keys and its revocation certificate
+      Object.assign(merged, {
+        publicKey: incoming.publicKey,
+        fingerprint: incoming.fingerprint,
+        subkeys: incoming.subkeys,
+        keyHistory: incoming.keyHistory,
+      });
+      merged.privateData.revocationCertificate = incoming.privateData.revocationCertificate;
+      merged.privateData.previousRevocationCertificates = {
+        ...local.privateData.previousRevocationCertificates,
+        ...incoming.privateData.previousRevocationCertificates,
+      };
+    } else {
+      Object.assign(merged, { [change.field]: incoming[change.field] });
+    }
+  }
+
+  // A revocation cannot be taken back, so one made on either side holds
+  if (!merged.revocation && incoming.revocation?.fingerprint === merged.fingerprint) {
+    merged.revocation = incoming.revocation;
+  }
+
+  if (lastUpdated(incoming) > lastUpdated(local)) {
+    merged.updatedAt = incoming.updatedAt;
+  }
+  return merged;
+}
+
+/**
+ * Merges an imported vault document into the current one. Personas are
+ * matched by ID or key fingerprint; matched personas keep their local ID and
+ * compartment, take the union of both sides' accounts and proofs, and have
+ * each remaining field merged against the base recorded at the last sync.
+ * Unmatched personas are added, and settings missing locally are taken over.
+ * @param current Current vault document
+ * @param imported Imported vault document, with sealed or unsealed personas
+ * @param options Strategy for fields changed on both sides, and manual choices
+ * @returns Preview of every change, and the merged document. The document
+ * keeps local values for conflicts that have no resolution yet.
+ */
+export async function mergeVaultDocuments(
+  current: LocalStorage,
+  imported: Omit<LocalStorage, 'personas'> & { personas: Array<Persona | StoredPersona> },
+  { strategy, choices = {} }: { strategy: MergeStrategy; choices?: MergeChoices }
+): Promise<{ preview: VaultMergePreview; document: LocalStorage }> {
+  const localPersonas = await Promise.all(current.personas.map(persona => unsealPersona(persona)));
+  const incomingPersonas = await Promise.all(imported.personas.map(
+    persona => isSealedPersona(persona) ? unsealPersona(persona) : persona
+  ));
+
+  const preview: VaultMergePreview = {
+    strategy,
+    added: [],
+    merged: [],
+    unchanged: 0,
+    addedSettings: [],
+    conflicts: 0,
+    quarantined: [],
+  };
+  const mergedById = new Map<string, Persona>();
+  const added: Persona[] = [];
+  const synced: Persona[] = [];
+
+  for (const incoming of incomingPersonas) {
+    const match = findMatch(incoming, localPersonas);
+    if (!match) {
+      preview.added.push({ id: incoming.id, name: incoming.name });
+      added.push(incoming);
+      synced.push(incoming);
+      continue;
+    }
+
+    const local = mergedById.get(match.persona.id) ?? match.persona;
+    const newer: MergeSide = lastUpdated(incoming) > lastUpdated(local) ? 'incoming' : 'local';
+    const base = current.mergeBases?.[local.id];
+    const compartmentKey = await unwrapCompartmentKey(current.personas.find(stored => stored.id === local.id) as StoredPersona);
+    const diff: PersonaMergeDiff = {
+      personaId: local.id,
+      incomingId: incoming.id,
+      name: local.name,
+      matchedBy: match.matchedBy,
+      newer,
+      fields: MERGE_FIELDS
+        .map(field => mergeField(field, local, incoming, base, compartmentKey, newer, strategy, choices))
+        .filter((change): change is FieldChange => change !== null),
+      addedAccounts: incoming.privateData.accounts.filter(account =>
+        !local.privateData.accounts.some(existing => getAccountKey(existing) === getAccountKey(account))
+      ),
+      addedProofs: incoming.privateData.signedProofs.filter(proof =>
+        !local.privateData.signedProofs.some(existing => existing.id === proof.id)
+      ),
+    };
+
+    const revokedIncoming = !local.revocation && incoming.revocation?.fingerprint === local.fingerprint;
+    if (diff.fields.length === 0 && diff.addedAccounts.length === 0 && diff.addedProofs.length === 0 && !revokedIncoming) {
+      preview.unchanged++;
+      synced.push(local);
+      continue;
+    }
+
+    preview.merged.push(diff);
+    preview.conflicts += diff.fields.filter(change => change.resolution === null).length;
+    const merged = applyChanges(local, incoming, diff);
+    mergedById.set(local.id, merged);
+    synced.push(merged);
+  }
+
+  const settings = { ...current.settings };
+  for (const [key, value] of Object.entries(imported.settings || {})) {
+    if (!(key in settings) && !DEVICE_SETTINGS.includes(key)) {
+      preview.addedSettings.push(key);
+      Object.assign(settings, { [key]: value });
+    }
+  }
+
+  const personas: StoredPersona[] = [];
+  for (const stored of current.personas) {
+    const merged = mergedById.get(stored.id);
+    personas.push(merged ? await sealPersona(merged, stored) : stored);
+  }
+  personas.push(...await sealPersonas(added));
+
+  return {
+    preview,
+    document: {
+      ...current,
+      personas,
+      keys: { ...imported.keys, ...current.keys },
+      masterKey: current.masterKey || imported.masterKey,
+      settings,
+      mergeBases: await recordMergeBases(current.mergeBases, synced, personas),
+      quarantine: mergeQuarantine(current.quarantine, imported.quarantine),
+    },
+  };
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Rebases a list of records by ID: records the change touched take its
+ * version, records it removed stay removed and records it added are added
+ */
+function rebaseRecords<T>(base: T[], changed: T[], latest: T[], idOf: (record: T) => string): T[] {
+  const baseById = new Map(base.map(record => [idOf(record), record]));
+  const changedById = new Map(changed.map(record => [idOf(record), record]));
+  const records = latest
+    .filter(record => !baseById.has(idOf(record)) || changedById.has(idOf(record)))
+    .map(record => {
+      const ours = changedById.get(idOf(record));
+      return ours && !isSame(ours, baseById.get(idOf(record))) ? ours : record;
+    });
+  const latestIds = new Set(latest.map(idOf));
+  records.push(...changed.filter(record => !baseById.has(idOf(record)) && !latestIds.has(idOf(record))));
+  return records;
+}
+
+/**
+ * Re-applies a change made to one copy of the vault document on top of a
+ * newer copy written in the meantime, such as by another tab. Personas,
+ * trashed personas, settings and other fields the change touched take its
+ * version; everything else keeps the newer copy's. A persona removed by the
+ * newer copy stays removed.
+ * @param base Document the change was made to
+ * @param changed Document with the change applied
+ * @param latest Document currently stored
+ * @returns Latest document with the change applied
+ */
+export function rebaseVaultChanges(base: LocalStorage | null, changed: LocalStorage, latest: LocalStorage): LocalStorage {
+  if (!base) {
+    return changed;
+  }
+
+  const personas = rebaseRecords(base.personas, changed.personas, latest.personas, persona => persona.id);
+  const trash = rebaseRecords(base.trash || [], changed.trash || [], latest.trash || [], entry => entry.persona.id);
+
+  const settings: Record<string, unknown> = { ...latest.settings };
+  const baseSettings = base.settings as Record<string, unknown>;
+  const changedSettings = changed.settings as Record<string, unknown>;
+  for (const key of Object.keys({ ...baseSettings, ...changedSettings })) {
+    if (!isSame(baseSettings[key], changedSettings[key])) {
+      settings[key] = changedSettings[key];
+    }
+  }
+
+  const rebased: Record<string, unknown> = { ...latest };
+  const baseFields = base as unknown as Record<string, unknown>;
+  const changedFields = changed as unknown as Record<string, unknown>;
+  for (const key of Object.keys({ ...baseFields, ...changedFields })) {
+    if (key !== 'personas' && key !== 'trash' && key !== 'settings' && !isSame(baseFields[key], changedFields[key])) {
+      rebased[key] = changedFields[key];
+    }
+  }
+
+  return { ...rebased, personas, trash, settings } as unknown as LocalStorage;
+}
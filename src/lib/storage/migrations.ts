@@ -0,0 +1,269 @@
+import {
+  ConnectedAccount,
+  LocalStorage,
+  Persona,
+  SignedProof,
+  StoredPersona,
+} from '@/types';
+
+import { toConnectedAccount } from './accounts';
+import { getKeyFingerprint } from './identity';
+import { toSignedProof } from './proofs';
+import {
+  isSealedPersona,
+  sealPersona,
+  sealPersonas,
+  unsealStoredPersona,
+} from './compartments';
+
+/**
+ * Schema version written by this version of the app
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+// Documents are handled as loose records while they are being migrated
+type VaultRecord = Record<string, unknown>;
+
+/**
+ * A single upgrade step from one schema version to the next
+ */
+export interface VaultMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (document: VaultRecord) => VaultRecord | Promise<VaultRecord>;
+}
+
+const migrations = new Map<number, VaultMigration>();
+
+/**
+ * Registers a migration step. Each source version may only have one step.
+ * @param migration Migration to register
+ */
+export function registerMigration(migration: VaultMigration): void {
+  if (migration.to !== migration.from + 1) {
+    throw new Error(`Migration ${migration.from} -> ${migration.to} must upgrade exactly one version`);
+  }
+  if (migrations.has(migration.from)) {
+    throw new Error(`A migration from schema version ${migration.from} is already registered`);
+  }
+  migrations.set(migration.from, migration);
+}
+
+/**
+ * Reads the schema version of a document. Unversioned documents are version 0.
+ * @param document Vault document or export
+ * @returns Schema version
+ */
+export function getSchemaVersion(document: VaultRecord): number {
+  const version = document.schemaVersion;
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Upgrades a vault document to the current schema by running every registered
+ * migration between its version and CURRENT_SCHEMA_VERSION in order
+ * @param document Vault document in any known layout
+ * @returns The upgraded document and the descriptions of applied migrations
+ */
+export async function migrateVaultDocument(document: VaultRecord): Promise<{
+  document: LocalStorage;
+  appliedMigrations: string[];
+}> {
+  let version = getSchemaVersion(document);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Vault schema version ${version} is newer than this app supports (${CURRENT_SCHEMA_VERSION}). Please update WHOIM.`
+    );
+  }
+
+  let current = document;
+  const appliedMigrations: string[] = [];
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new Error(`No migration registered from schema version ${version}`);
+    }
+    current = { ...(await migration.migrate(current)), schemaVersion: migration.to };
+    appliedMigrations.push(migration.description);
+    version = migration.to;
+  }
+
+  return {
+    document: current as unknown as LocalStorage,
+    appliedMigrations,
+  };
+}
+
+function asRecord(value: unknown): VaultRecord {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as VaultRecord : {};
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * v0 -> v1: normalizes unversioned documents. Covers the split
+ * personas/keys/settings layout, 1.x/2.0 exports and the snake_case model
+ * from the original specification.
+ */
+registerMigration({
+  from: 0,
+  to: 1,
+  description: 'Normalize unversioned vault layout',
+  migrate: (document) => {
+    const personas = Array.isArray(document.personas) ? document.personas : [];
+    const settings = asRecord(document.settings);
+
+    return {
+      ...document,
+      personas: personas.map((entry, index) => {
+        const persona = asRecord(entry);
+        const privateData = asRecord(persona.privateData ?? persona.private_data);
+        const legacyPublicKey = persona.public_key;
+        const rest = { ...persona };
+        delete rest.public_key;
+        delete rest.private_data;
+
+        return {
+          ...rest,
+          // The index keeps personas migrated in the same millisecond apart
+          id: String(persona.id ?? `persona_${Date.now()}_${index}`),
+          name: typeof persona.name === 'string' ? persona.name : '',
+          publicKey: String(persona.publicKey ?? legacyPublicKey ?? ''),
+          createdAt: typeof persona.createdAt === 'string' ? persona.createdAt : new Date().toISOString(),
+          isPublic: persona.isPublic === true,
+          privateData: {
+            accounts: asStringArray(privateData.accounts),
+            signedProofs: asStringArray(privateData.signedProofs ?? privateData.signed_proofs),
+            notes: typeof privateData.notes === 'string' ? privateData.notes : '',
+          },
+        };
+      }),
+      keys: asRecord(document.keys),
+      settings: {
+        theme: 'dark',
+        ...settings,
+      },
+    };
+  },
+});
+
+/**
+ * v1 -> v2: seals each persona's private data in its own compartment,
+ * encrypted under a per-persona key that is itself wrapped by the vault key.
+ * Needs the vault to be unlocked.
+ */
+registerMigration({
+  from: 1,
+  to: 2,
+  description: 'Seal persona private data in per-persona compartments',
+  migrate: async (document) => ({
+    ...document,
+    personas: await sealPersonas((document.personas || []) as Array<Persona | StoredPersona>),
+  }),
+});
+
+/**
+ * Replaces "platform:@handle" account strings with connected-account records
+ */
+function upgradeAccounts(persona: Persona): Persona {
+  const linkedAt = persona.updatedAt || persona.createdAt;
+  const accounts = (Array.isArray(persona.privateData.accounts) ? persona.privateData.accounts as unknown[] : [])
+    .map(account => toConnectedAccount(account, linkedAt))
+    .filter((account): account is ConnectedAccount => account !== null);
+  return { ...persona, privateData: { ...persona.privateData, accounts } };
+}
+
+/**
+ * Applies a change to the private data of every persona. Sealed personas are
+ * resealed under their existing compartment key; exported personas travel
+ * unsealed and are changed as they are. Needs the vault to be unlocked.
+ */
+async function upgradePrivateData(document: VaultRecord, upgrade: (persona: Persona) => Persona): Promise<VaultRecord> {
+  const personas: Array<Persona | StoredPersona> = [];
+  for (const persona of (document.personas || []) as Array<Persona | StoredPersona>) {
+    personas.push(isSealedPersona(persona)
+      ? await sealPersona(upgrade(await unsealStoredPersona(persona)), persona)
+      : upgrade(persona));
+  }
+  return { ...document, personas };
+}
+
+/**
+ * v2 -> v3: turns connected accounts into structured records
+ */
+registerMigration({
+  from: 2,
+  to: 3,
+  description: 'Store connected accounts as structured records',
+  migrate: (document) => upgradePrivateData(document, upgradeAccounts),
+});
+
+/**
+ * Replaces bare proof hashes with signed-proof records, taking URLs and
+ * ledger records from the accounts linked by the same proof
+ */
+function upgradeProofs(persona: Persona): Persona {
+  const linkedAt = persona.updatedAt || persona.createdAt;
+  const signedProofs = (Array.isArray(persona.privateData.signedProofs) ? persona.privateData.signedProofs as unknown[] : [])
+    .map(proof => toSignedProof(proof, persona.privateData.accounts, linkedAt))
+    .filter((proof): proof is SignedProof => proof !== null);
+  return { ...persona, privateData: { ...persona.privateData, signedProofs } };
+}
+
+/**
+ * v3 -> v4: turns signed proofs into structured records
+ */
+registerMigration({
+  from: 3,
+  to: 4,
+  description: 'Store signed proofs as structured records',
+  migrate: (document) => upgradePrivateData(document, upgradeProofs),
+});
+
+/**
+ * Adds the primary key fingerprint to a persona record. Personas without a
+ * readable key get an empty fingerprint and keep being known by their local ID.
+ */
+async function withFingerprint(entry: unknown): Promise<unknown> {
+  const persona = asRecord(entry);
+  if (typeof persona.fingerprint === 'string') {
+    return entry;
+  }
+  let fingerprint = '';
+  if (typeof persona.publicKey === 'string' && persona.publicKey) {
+    try {
+      fingerprint = await getKeyFingerprint(persona.publicKey);
+    } catch (error) {
+      console.warn(`Persona ${String(persona.id)} has an unreadable public key:`, error);
+    }
+  }
+  return { ...persona, fingerprint };
+}
+
+/**
+ * v4 -> v5: identifies personas by their key fingerprint; the old persona ID
+ * stays as a local alias
+ */
+registerMigration({
+  from: 4,
+  to: 5,
+  description: 'Identify personas by their key fingerprint',
+  migrate: async (document) => {
+    const personas: unknown[] = [];
+    for (const persona of (Array.isArray(document.personas) ? document.personas : [])) {
+      personas.push(await withFingerprint(persona));
+    }
+    if (!Array.isArray(document.trash)) {
+      return { ...document, personas };
+    }
+    const trash: unknown[] = [];
+    for (const entry of document.trash) {
+      const record = asRecord(entry);
+      trash.push(record.persona ? { ...record, persona: await withFingerprint(record.persona) } : entry);
+    }
+    return { ...document, personas, trash };
+  },
+});
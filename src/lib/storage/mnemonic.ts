@@ -0,0 +1,295 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { hkdf } from '@noble/hashes/hkdf';
+import {
+  bytesToHex,
+  hexToBytes,
+  randomBytes,
+  utf8ToBytes,
+} from '@noble/hashes/utils';
+import {
+  Mnemonic,
+  wordlists,
+} from 'ethers';
+import * as openpgp from 'openpgp';
+
+import {
+  KeyUserID,
+  PersonaSubkeyRole,
+  VaultRecoverySecrets,
+} from '@/types';
+
+import {
+  applySubkeyRevocations,
+  bindSubkey,
+  getSubkeyExpirationTime,
+  PersonaSubkeySpec,
+} from './subkeys';
+
+const VALID_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+// Creation date of keys derived from a recovery phrase, fixed so the same
+// phrase always yields the same key
+const RECOVERY_MASTER_KEY_DATE = new Date('2020-01-01T00:00:00Z');
+
+// PKCS#8 prefixes wrapping a raw 32-byte private key, for Web Crypto import
+const PKCS8_PREFIX = {
+  Ed25519: '302e020100300506032b657004220420',
+  X25519: '302e020100300506032b656e04220420',
+};
+
+// OpenPGP tags and algorithm IDs of the key packets written below
+const SECRET_KEY_TAG = 5;
+const SECRET_SUBKEY_TAG = 7;
+const ED25519_ALGORITHM = 27;
+const X25519_ALGORITHM = 25;
+
+/**
+ * Generates a new 24-word BIP39 recovery phrase
+ * @returns Space-separated English mnemonic
+ */
+export function generateRecoveryPhrase(): string {
+  return Mnemonic.entropyToPhrase(randomBytes(32));
+}
+
+/**
+ * Normalizes whitespace and case in a typed recovery phrase
+ */
+export function normalizeRecoveryPhrase(phrase: string): string {
+  return phrase.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Checks a recovery phrase's length, words and BIP39 checksum
+ * @param phrase Recovery phrase
+ * @throws Error describing the first problem found
+ */
+export function validateRecoveryPhrase(phrase: string): void {
+  const words = normalizeRecoveryPhrase(phrase).split(' ');
+  if (!VALID_WORD_COUNTS.includes(words.length)) {
+    throw new Error(`A recovery phrase has 12, 15, 18, 21 or 24 words, not ${words.length}.`);
+  }
+
+  const unknown = words.filter(word => wordlists.en.getWordIndex(word) === -1);
+  if (unknown.length > 0) {
+    throw new Error(`Not in the recovery word list: ${unknown.join(', ')}.`);
+  }
+  if (!Mnemonic.isValidMnemonic(words.join(' '))) {
+    throw new Error('The recovery phrase checksum does not match. Check the words and their order.');
+  }
+}
+
+function deriveSecret(seed: Uint8Array, label: string): Uint8Array {
+  return hkdf(sha256, seed, undefined, utf8ToBytes(`whoim:${label}`), 32);
+}
+
+/**
+ * Derives the vault's master secrets from a recovery phrase
+ * @param phrase Valid recovery phrase
+ * @returns Seed for the master key and the secrets kept in the vault
+ */
+export function deriveRecoverySecrets(phrase: string): VaultRecoverySecrets & { masterKeySeed: string } {
+  validateRecoveryPhrase(phrase);
+  const seed = hexToBytes(Mnemonic.fromPhrase(normalizeRecoveryPhrase(phrase)).computeSeed().slice(2));
+
+  return {
+    masterKeySeed: bytesToHex(deriveSecret(seed, 'master-key')),
+    personaKeySeed: bytesToHex(deriveSecret(seed, 'persona-keys')),
+    backupPassphrase: bytesToHex(deriveSecret(seed, 'backup')),
+  };
+}
+
+/**
+ * Computes the public half of a raw X25519 or Ed25519 private key.
+ * Returns null where Web Crypto does not support the curve.
+ */
+async function derivePublicKey(name: 'Ed25519' | 'X25519', privateKey: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const der = new Uint8Array([...hexToBytes(PKCS8_PREFIX[name]), ...privateKey]);
+    const key = await crypto.subtle.importKey('pkcs8', der, { name }, true, name === 'Ed25519' ? ['sign'] : ['deriveBits']);
+    const { x } = await crypto.subtle.exportKey('jwk', key);
+    if (!x) {
+      return null;
+    }
+    const binary = atob(x.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch (error) {
+    console.error(`${name} is not available for key derivation:`, error);
+    return null;
+  }
+}
+
+/**
+ * Serializes an unencrypted v4 secret key packet
+ */
+function secretKeyPacket(tag: number, algorithm: number, created: Date, publicKey: Uint8Array, secret: Uint8Array): number[] {
+  const time = Math.floor(created.getTime() / 1000);
+  const checksum = secret.reduce((sum, byte) => (sum + byte) % 65536, 0);
+  const body = [
+    4,
+    (time >>> 24) & 0xff, (time >>> 16) & 0xff, (time >>> 8) & 0xff, time & 0xff,
+    algorithm,
+    ...publicKey,
+    0, // not passphrase-protected
+    ...secret,
+    checksum >> 8, checksum & 0xff,
+  ];
+  return [0xc0 | tag, body.length, ...body];
+}
+
+/**
+ * Names the seed label of a subkey. The first encryption subkey keeps the
+ * label of the encryption subkey of keys without role subkeys.
+ */
+function subkeyLabel(label: string, role: PersonaSubkeyRole, generation: number): string {
+  return role === 'encryption' && generation === 0 ? `${label}:encrypt` : `${label}:${role}:${generation}`;
+}
+
+/**
+ * Derives an OpenPGP key pair (Ed25519 signing key with an X25519 encryption
+ * subkey) from a seed. The same seed, label and date always give the same key;
+ * user IDs and expiry only change its self-signatures.
+ * When subkeys are given, the key gets exactly those instead: Ed25519 for
+ * signing and authentication, X25519 for encryption, each bound with its own
+ * creation date and expiry, and revoked where the spec says so.
+ * @param seed Hex-encoded seed
+ * @param label Distinguishes the keys derived from one seed
+ * @param userIDs User IDs bound to the key; at least one
+ * @param created Key creation date
+ * @param keyExpirationTime Key lifetime in seconds, 0 for never
+ * @param subkeys Role subkeys of the key, in order
+ * @returns Armored key pair and its revocation certificate, or null where the browser cannot derive it
+ */
+export async function deriveKeyPair(
+  seed: string,
+  label: string,
+  userIDs: KeyUserID[],
+  created: Date,
+  keyExpirationTime: number = 0,
+  subkeys?: PersonaSubkeySpec[]
+): Promise<{ publicKey: string; privateKey: string; revocationCertificate: string } | null> {
+  if (subkeys) {
+    return await deriveKeyPairWithSubkeys(seed, label, userIDs, created, keyExpirationTime, subkeys);
+  }
+
+  const signingSecret = deriveSecret(hexToBytes(seed), `${label}:sign`);
+  const encryptionSecret = deriveSecret(hexToBytes(seed), `${label}:encrypt`);
+  const [signingPublic, encryptionPublic] = await Promise.all([
+    derivePublicKey('Ed25519', signingSecret),
+    derivePublicKey('X25519', encryptionSecret),
+  ]);
+  if (!signingPublic || !encryptionPublic) {
+    return null;
+  }
+
+  const privateKey = await openpgp.readPrivateKey({
+    binaryKey: new Uint8Array([
+      ...secretKeyPacket(SECRET_KEY_TAG, ED25519_ALGORITHM, created, signingPublic, signingSecret),
+      ...secretKeyPacket(SECRET_SUBKEY_TAG, X25519_ALGORITHM, created, encryptionPublic, encryptionSecret),
+    ]),
+  });
+
+  // Ed25519 signatures are deterministic once openpgp stops salting them.
+  // The option is missing from openpgp's type definitions.
+  const { publicKey, privateKey: armoredPrivateKey, revocationCertificate } = await openpgp.reformatKey({
+    privateKey,
+    userIDs,
+    keyExpirationTime,
+    date: created,
+    format: 'armored',
+    config: { nonDeterministicSignaturesViaNotation: false } as openpgp.PartialConfig,
+  });
+  return { publicKey, privateKey: armoredPrivateKey, revocationCertificate };
+}
+
+/**
+ * Derives a key pair whose subkeys each have a role, as described at deriveKeyPair
+ */
+async function deriveKeyPairWithSubkeys(
+  seed: string,
+  label: string,
+  userIDs: KeyUserID[],
+  created: Date,
+  keyExpirationTime: number,
+  subkeys: PersonaSubkeySpec[]
+): Promise<{ publicKey: string; privateKey: string; revocationCertificate: string } | null> {
+  const primarySecret = deriveSecret(hexToBytes(seed), `${label}:sign`);
+  const primaryPublic = await derivePublicKey('Ed25519', primarySecret);
+  if (!primaryPublic) {
+    return null;
+  }
+  const primaryPacket = secretKeyPacket(SECRET_KEY_TAG, ED25519_ALGORITHM, created, primaryPublic, primarySecret);
+
+  const subkeyPackets: number[] = [];
+  for (const subkey of subkeys) {
+    const isEncryption = subkey.role === 'encryption';
+    const secret = deriveSecret(hexToBytes(seed), subkeyLabel(label, subkey.role, subkey.generation));
+    const publicKey = await derivePublicKey(isEncryption ? 'X25519' : 'Ed25519', secret);
+    if (!publicKey) {
+      return null;
+    }
+    subkeyPackets.push(...secretKeyPacket(
+      SECRET_SUBKEY_TAG,
+      isEncryption ? X25519_ALGORITHM : ED25519_ALGORITHM,
+      new Date(subkey.createdAt),
+      publicKey,
+      secret
+    ));
+  }
+
+  // reformatKey would bind every subkey for encryption with the key's expiry,
+  // so only the primary key goes through it and the subkeys are bound here
+  const { privateKey, revocationCertificate } = await openpgp.reformatKey({
+    privateKey: await openpgp.readPrivateKey({ binaryKey: new Uint8Array(primaryPacket) }),
+    userIDs,
+    keyExpirationTime,
+    date: created,
+    format: 'object',
+    config: { nonDeterministicSignaturesViaNotation: false } as openpgp.PartialConfig,
+  });
+  const { subkeys: unbound } = await openpgp.readPrivateKey({
+    binaryKey: new Uint8Array([...primaryPacket, ...subkeyPackets]),
+  });
+  for (const [index, subkey] of subkeys.entries()) {
+    const keyPacket = unbound[index].keyPacket as openpgp.SecretSubkeyPacket;
+    const bound = new openpgp.Subkey(keyPacket, privateKey);
+    bound.bindingSignatures = [await bindSubkey(
+      privateKey.keyPacket as openpgp.SecretKeyPacket,
+      keyPacket,
+      subkey.role,
+      getSubkeyExpirationTime(subkey),
+      new Date(subkey.createdAt)
+    )];
+    privateKey.subkeys.push(bound);
+  }
+  await applySubkeyRevocations(privateKey, subkeys);
+
+  return { publicKey: privateKey.toPublic().armor(), privateKey: privateKey.armor(), revocationCertificate };
+}
+
+/**
+ * Derives the vault master key from a recovery phrase's master key seed
+ */
+export async function deriveMasterKeyPair(
+  masterKeySeed: string,
+  userIDs: KeyUserID[]
+): Promise<{ publicKey: string; privateKey: string; revocationCertificate: string } | null> {
+  return await deriveKeyPair(masterKeySeed, 'master', userIDs, RECOVERY_MASTER_KEY_DATE);
+}
+
+/**
+ * Derives a persona's key from the vault's persona key seed. Each key
+ * rotation moves on to the next generation, created at the time of the rotation.
+ * Role subkeys are derived per role and generation, so rotating one subkey
+ * leaves the others as they were.
+ */
+export async function derivePersonaKeyPair(
+  personaKeySeed: string,
+  persona: { id: string; createdAt: string },
+  userIDs: KeyUserID[],
+  keyExpirationTime: number = 0,
+  generation: number = 0,
+  subkeys?: PersonaSubkeySpec[]
+): Promise<{ publicKey: string; privateKey: string; revocationCertificate: string } | null> {
+  const label = generation > 0 ? `persona:${persona.id}:${generation}` : `persona:${persona.id}`;
+  return await deriveKeyPair(personaKeySeed, label, userIDs, new Date(persona.createdAt), keyExpirationTime, subkeys);
+}
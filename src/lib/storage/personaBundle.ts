@@ -0,0 +1,239 @@
+import * as openpgp from 'openpgp';
+
+import {
+  Persona,
+  StoredPersona,
+} from '@/types';
+
+import {
+  createBackupBundle,
+  isSameKey,
+  openBackupBundle,
+} from './backup';
+import {
+  closePersona,
+  sealPersonas,
+  unsealPersona,
+} from './compartments';
+import { getKeyFingerprint } from './identity';
+import { KeyManager } from './keyManager';
+import {
+  EXPORT_FORMAT_VERSION,
+  loadVaultDocument,
+  recordAuditEvents,
+  updateVaultDocument,
+} from './localStore';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateVaultDocument,
+} from './migrations';
+import {
+  formatValidationIssues,
+  quarantineInvalidRecords,
+} from './validation';
+
+/**
+ * How to import a persona that collides with existing ones.
+ * replace: remove the colliding personas and their keys first.
+ * keepBoth: keep them, giving the imported persona a new ID if its ID is taken.
+ */
+export type PersonaImportResolution = 'replace' | 'keepBoth';
+
+export interface PersonaCollision {
+  personaId: string;
+  name: string;
+  reason: 'id' | 'key';
+}
+
+export interface PersonaImportPreview {
+  persona: {
+    id: string;
+    fingerprint: string;
+    name: string;
+    createdAt: string;
+    isPublic: boolean;
+    accounts: number;
+    proofs: number;
+  };
+  hasPrivateKey: boolean;
+  signerFingerprint: string;
+  signedByThisVault: boolean;
+  collisions: PersonaCollision[];
+}
+
+interface OpenedPersonaBundle {
+  persona: Persona;
+  privateKey: string | null;
+  signerPublicKey: string;
+}
+
+/**
+ * Exports a single persona as an encrypted bundle signed by the master key.
+ * The bundle carries the persona record with its private data and proofs,
+ * its settings overrides, and its private key protected with the passphrase.
+ * @param personaId Persona to export
+ * @param passphrase Bundle passphrase
+ * @returns Persona bundle as a JSON string
+ */
+export async function exportPersona(personaId: string, passphrase: string): Promise<string> {
+  const storage = await loadVaultDocument();
+  if (!storage.masterKey) {
+    throw new Error('This vault has no master key to sign bundles with.');
+  }
+
+  const stored = storage.personas.find(persona => persona.id === personaId);
+  if (!stored) {
+    throw new Error('Persona not found');
+  }
+
+  const exportData = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    persona: await unsealPersona(stored),
+    privateKey: await KeyManager.exportPersonaKey(stored, passphrase),
+    exportDate: new Date().toISOString(),
+    version: EXPORT_FORMAT_VERSION
+  };
+
+  return await createBackupBundle(exportData, {
+    contents: 'persona',
+    passphrase,
+    masterKey: storage.masterKey,
+    exportVersion: EXPORT_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  });
+}
+
+/**
+ * Verifies and decrypts a persona bundle, upgrading the persona record
+ * through the vault migrations
+ */
+async function openPersonaBundle(bundleText: string, passphrase: string): Promise<OpenedPersonaBundle> {
+  const { document, signerPublicKey } = await openBackupBundle(bundleText, passphrase, 'persona');
+  if (!document.persona || typeof document.persona !== 'object') {
+    throw new Error('Backup rejected: the bundle does not contain a persona.');
+  }
+  if ('compartment' in document.persona) {
+    throw new Error('Backup rejected: the persona in this bundle is still sealed to another vault.');
+  }
+
+  const { document: migrated } = await migrateVaultDocument({
+    schemaVersion: document.schemaVersion,
+    personas: [document.persona],
+    settings: {},
+  });
+  // Invalid accounts and proofs go to the persona's quarantine; an invalid persona is rejected
+  const { document: validated, quarantined } = quarantineInvalidRecords(migrated);
+  const rejected = quarantined.filter(record => record.collection === 'personas').flatMap(record => record.issues);
+  if (rejected.length > 0) {
+    throw new Error(`Backup rejected: the bundled persona is invalid (${formatValidationIssues(rejected)}).`);
+  }
+  // Bundled personas travel unsealed; they are only sealed when imported
+  const [persona] = validated.personas as unknown as Persona[];
+  // Collisions are found by fingerprint, so it has to belong to the bundled key
+  if (persona.publicKey && persona.fingerprint !== await getKeyFingerprint(persona.publicKey)) {
+    throw new Error('Backup rejected: the persona\'s fingerprint does not match its key.');
+  }
+
+  return {
+    persona,
+    privateKey: typeof document.privateKey === 'string' ? document.privateKey : null,
+    signerPublicKey,
+  };
+}
+
+/**
+ * Finds existing personas that share the imported persona's ID or key
+ */
+function findCollisions(persona: Persona, existing: StoredPersona[]): PersonaCollision[] {
+  const collisions: PersonaCollision[] = [];
+  for (const candidate of existing) {
+    if (candidate.id === persona.id) {
+      collisions.push({ personaId: candidate.id, name: candidate.name, reason: 'id' });
+    } else if (candidate.fingerprint && candidate.fingerprint === persona.fingerprint) {
+      collisions.push({ personaId: candidate.id, name: candidate.name, reason: 'key' });
+    }
+  }
+  return collisions;
+}
+
+/**
+ * Verifies a persona bundle and reports what importing it would do,
+ * without changing any stored data
+ * @param bundleText Persona bundle as a JSON string
+ * @param passphrase Bundle passphrase
+ * @returns Summary of the bundled persona, its signer and any collisions
+ */
+export async function previewPersonaImport(bundleText: string, passphrase: string): Promise<PersonaImportPreview> {
+  const { persona, privateKey, signerPublicKey } = await openPersonaBundle(bundleText, passphrase);
+  const storage = await loadVaultDocument();
+
+  const signerKey = await openpgp.readKey({ armoredKey: signerPublicKey });
+  return {
+    persona: {
+      id: persona.id,
+      fingerprint: persona.fingerprint,
+      name: persona.name,
+      createdAt: persona.createdAt,
+      isPublic: persona.isPublic,
+      accounts: persona.privateData.accounts.length,
+      proofs: persona.privateData.signedProofs.length,
+    },
+    hasPrivateKey: !!privateKey,
+    signerFingerprint: signerKey.getFingerprint(),
+    signedByThisVault: !!storage.masterKey && await isSameKey(storage.masterKey.publicKey, signerPublicKey),
+    collisions: findCollisions(persona, storage.personas),
+  };
+}
+
+/**
+ * Imports a persona bundle into the vault
+ * @param bundleText Persona bundle as a JSON string
+ * @param passphrase Bundle passphrase
+ * @param resolution How to handle collisions; required when there are any
+ * @returns ID of the imported persona
+ */
+export async function importPersona(
+  bundleText: string,
+  passphrase: string,
+  resolution?: PersonaImportResolution
+): Promise<string> {
+  const { persona, privateKey } = await openPersonaBundle(bundleText, passphrase);
+  const storage = await loadVaultDocument();
+
+  const collisions = findCollisions(persona, storage.personas);
+  if (collisions.length > 0 && !resolution) {
+    throw new Error(
+      `Persona collides with ${collisions.map(c => `"${c.name || c.personaId}" (same ${c.reason === 'id' ? 'ID' : 'key'})`).join(', ')}. Choose to replace or keep both.`
+    );
+  }
+
+  let imported = persona;
+  const replacedIds = new Set(resolution === 'replace' ? collisions.map(c => c.personaId) : []);
+  if (resolution !== 'replace' && collisions.some(c => c.reason === 'id')) {
+    imported = { ...persona, id: `persona_${Date.now()}` };
+  }
+
+  // Store the key first, so a failure cannot leave a persona without its key
+  const [sealed] = await sealPersonas([imported]);
+  if (privateKey) {
+    await KeyManager.importPersonaKey(sealed, privateKey, passphrase);
+  }
+  await updateVaultDocument(latest => ({
+    ...latest,
+    personas: [...latest.personas.filter(p => !replacedIds.has(p.id)), sealed]
+  }));
+
+  for (const personaId of replacedIds) {
+    closePersona(personaId);
+    if (personaId !== sealed.id) {
+      await KeyManager.removePersonaKey(personaId);
+    }
+  }
+  await recordAuditEvents([{
+    action: 'vault.imported',
+    personaId: sealed.id,
+    details: `Imported persona "${sealed.name}"${replacedIds.size > 0 ? `, replacing ${replacedIds.size}` : ''}`,
+  }]);
+
+  return sealed.id;
+}
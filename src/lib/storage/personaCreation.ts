@@ -0,0 +1,75 @@
+import {
+  CreatePersonaInput,
+  LocalStorage,
+  Persona,
+} from '@/types';
+
+import {
+  openPersona,
+  sealPersona,
+} from './compartments';
+import { getKeyFingerprint } from './identity';
+import { KeyManager } from './keyManager';
+import {
+  DEFAULT_KEY_OPTIONS,
+  generatePersonaKeyPair,
+  loadVaultDocument,
+  recordAuditEvents,
+  updateVaultDocument,
+} from './localStore';
+
+/**
+ * Creates a new persona in its own compartment and opens it. Without key
+ * options, a vault with a recovery phrase names the persona on its key, so
+ * the key can be derived again when restoring. The private key is only kept
+ * sealed in the persona's compartment; back it up with a persona export.
+ * @param input Persona creation data
+ * @returns Updated storage and the created persona
+ */
+export async function createPersona(
+  { name, email, isPublic, keyOptions }: CreatePersonaInput
+): Promise<{ updatedStorage: LocalStorage; persona: Persona }> {
+  const storage = await loadVaultDocument();
+  if (!keyOptions) {
+    keyOptions = storage.recovery ? { ...DEFAULT_KEY_OPTIONS, userIDs: [{ name }] } : DEFAULT_KEY_OPTIONS;
+  }
+
+  const id = `persona_${Date.now()}`; // simple ID generation (or use uuidv4() if you prefer)
+  const createdAt = new Date().toISOString();
+
+  const { publicKey, privateKey, revocationCertificate, subkeys } = await generatePersonaKeyPair(
+    storage.recovery?.personaKeySeed,
+    { id, createdAt },
+    keyOptions
+  );
+
+  const persona: Persona = {
+    id,
+    fingerprint: await getKeyFingerprint(publicKey),
+    publicKey,
+    privateData: {
+      accounts: [],
+      signedProofs: [],
+      notes: `Created with email: ${email}`, // store hidden email
+      // Kept sealed with the persona, ready to publish if the key leaks
+      revocationCertificate,
+    },
+    createdAt,
+    isPublic,
+    name,
+    subkeys,
+  };
+
+  // The key is sealed in the new compartment before the vault names the persona
+  const sealed = await sealPersona(persona);
+  const opened = await openPersona(sealed);
+  await KeyManager.storePersonaKey(id, privateKey);
+
+  const { document: updatedStorage } = await updateVaultDocument(latest => ({
+    ...latest,
+    personas: [...latest.personas, sealed],
+  }));
+  await recordAuditEvents([{ action: 'persona.created', personaId: id, details: `Created persona "${name}"` }]);
+
+  return { updatedStorage, persona: opened };
+}
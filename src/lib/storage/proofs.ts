@@ -0,0 +1,100 @@
+import {
+  ConnectedAccount,
+  ProofLedger,
+  ProofVerification,
+  SignedProof,
+} from '@/types';
+
+const PROOF_LEDGERS: ProofLedger[] = ['solana', 'ethereum', 'none'];
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Reads a signed proof from stored data. Accepts the bare proof hashes kept
+ * by older versions, which the connect page recorded on Solana; their
+ * message and signature were not kept.
+ * @param value Stored proof
+ * @param accounts Accounts of the same persona, to find the ones a legacy proof linked
+ * @param recordedAt Timestamp to use where the stored data has none
+ * @returns Signed proof, or null if the value is not a proof
+ */
+export function toSignedProof(value: unknown, accounts: ConnectedAccount[], recordedAt: string): SignedProof | null {
+  if (typeof value === 'string') {
+    if (!value) {
+      return null;
+    }
+    const linked = accounts.filter(account => account.proofHash === value);
+    return {
+      id: `proof_${value.substring(0, 16)}`,
+      hash: value,
+      accounts: linked.map(({ platform, handle }) => ({ platform, handle })),
+      urls: linked.map(account => account.proofUrl).filter((url): url is string => !!url),
+      ledger: 'solana',
+      transactionId: linked.find(account => account.onChainProofId)?.onChainProofId,
+      status: 'active',
+      createdAt: recordedAt,
+      verifications: [],
+    };
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || typeof record.hash !== 'string') {
+    return null;
+  }
+  const optionalString = (field: string) => typeof record[field] === 'string' ? record[field] as string : undefined;
+  return {
+    id: record.id,
+    message: optionalString('message'),
+    signature: optionalString('signature'),
+    hash: record.hash,
+    accounts: (Array.isArray(record.accounts) ? record.accounts as Array<Record<string, unknown>> : [])
+      .filter(account => typeof account?.platform === 'string' && typeof account?.handle === 'string')
+      .map(account => ({ platform: account.platform as string, handle: account.handle as string })),
+    urls: asStrings(record.urls),
+    ledger: PROOF_LEDGERS.includes(record.ledger as ProofLedger) ? record.ledger as ProofLedger : 'none',
+    transactionId: optionalString('transactionId'),
+    status: record.status === 'revoked' ? 'revoked' : 'active',
+    createdAt: optionalString('createdAt') || recordedAt,
+    revokedAt: optionalString('revokedAt'),
+    verifications: Array.isArray(record.verifications) ? record.verifications as ProofVerification[] : [],
+  };
+}
+
+/**
+ * Checks whether a verification found nothing wrong
+ */
+export function isVerificationValid(verification: ProofVerification): boolean {
+  return verification.hashValid && verification.signatureValid && verification.ledgerValid !== false
+    && !verification.keyRevoked;
+}
+
+/**
+ * Brings the accounts linked by a proof in line with it: revoking the proof
+ * revokes them, and checking it again marks them verified or stale
+ * @param accounts Connected accounts of the persona
+ * @param proof Proof after it was revoked or checked again
+ * @returns Updated accounts
+ */
+export function updateAccountsForProof(accounts: ConnectedAccount[], proof: SignedProof): ConnectedAccount[] {
+  const latest = proof.verifications[proof.verifications.length - 1];
+  const now = new Date().toISOString();
+  return accounts.map(account => {
+    if (account.proofHash !== proof.hash || account.status === 'revoked') {
+      return account;
+    }
+    if (proof.status === 'revoked') {
+      return { ...account, status: 'revoked', updatedAt: now };
+    }
+    if (!latest) {
+      return account;
+    }
+    return isVerificationValid(latest)
+      ? { ...account, status: 'verified', verifiedAt: latest.checkedAt, updatedAt: now }
+      : { ...account, status: 'stale', updatedAt: now };
+  });
+}
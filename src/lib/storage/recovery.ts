@@ -0,0 +1,90 @@
+import {
+  isSameKey,
+  openBackupBundle,
+} from './backup';
+import { readKeyIdentity } from './identity';
+import { KeyManager } from './keyManager';
+import {
+  importStorage,
+  initializeStorage,
+  loadVaultDocument,
+} from './localStore';
+import {
+  deriveMasterKeyPair,
+  derivePersonaKeyPair,
+  deriveRecoverySecrets,
+} from './mnemonic';
+import { hasPersonaSubkeys } from './subkeys';
+
+export interface RecoveryRestoreResult {
+  restoredKeys: string[];      // personas whose keys were derived again
+  unrecoverableKeys: string[]; // personas whose keys were not derived from the phrase
+}
+
+/**
+ * Restores a vault on this device from its recovery phrase and a backup
+ * bundle. The bundle must be signed by the master key derived from the
+ * phrase; nothing is written until that is checked. Persona keys derived from
+ * the phrase are re-created; keys that were generated at random cannot be.
+ * @param input Recovery phrase, backup bundle, the bundle's passphrase (defaults
+ * to the one derived from the phrase) and the new vault passphrase
+ * @returns Names of the personas whose keys were and were not restored
+ */
+export async function restoreVaultFromRecoveryPhrase({
+  recoveryPhrase,
+  bundleText,
+  backupPassphrase,
+  passphrase,
+}: {
+  recoveryPhrase: string;
+  bundleText: string;
+  backupPassphrase?: string;
+  passphrase: string;
+}): Promise<RecoveryRestoreResult> {
+  const { masterKeySeed, ...secrets } = deriveRecoverySecrets(recoveryPhrase);
+  const masterKey = await deriveMasterKeyPair(masterKeySeed, [{ name: 'WHOIM Vault' }]);
+  if (!masterKey) {
+    throw new Error('This browser cannot derive keys from a recovery phrase.');
+  }
+
+  const bundlePassphrase = backupPassphrase || secrets.backupPassphrase;
+  const { signerPublicKey } = await openBackupBundle(bundleText, bundlePassphrase, 'vault');
+  if (!(await isSameKey(masterKey.publicKey, signerPublicKey))) {
+    throw new Error('Backup rejected: it was not made by the vault this recovery phrase belongs to.');
+  }
+
+  await initializeStorage({ name: 'WHOIM Vault', email: '', passphrase, recoveryPhrase });
+  await importStorage(bundleText, bundlePassphrase);
+
+  const result: RecoveryRestoreResult = { restoredKeys: [], unrecoverableKeys: [] };
+  const storage = await loadVaultDocument();
+  for (const persona of storage.personas) {
+    if (await KeyManager.hasPersonaKey(persona.id)) {
+      continue;
+    }
+    const identity = persona.publicKey ? await readKeyIdentity(persona.publicKey) : null;
+    // A rotated key was derived as the next generation, at the time of the rotation.
+    // Its subkeys are derived from their own records, rotated ones included.
+    const rotations = persona.keyHistory || [];
+    const derived = await derivePersonaKeyPair(
+      secrets.personaKeySeed,
+      { id: persona.id, createdAt: rotations[rotations.length - 1]?.rotatedAt || persona.createdAt },
+      identity?.userIDs.length ? identity.userIDs : [{ name: persona.name }],
+      identity?.keyExpirationTime,
+      rotations.length,
+      persona.subkeys
+    );
+    if (
+      derived && persona.publicKey &&
+      await isSameKey(derived.publicKey, persona.publicKey) &&
+      (!persona.subkeys || await hasPersonaSubkeys(derived.publicKey, persona.subkeys))
+    ) {
+      await KeyManager.importPersonaKey(persona, derived.privateKey, '');
+      result.restoredKeys.push(persona.name || persona.id);
+    } else {
+      result.unrecoverableKeys.push(persona.name || persona.id);
+    }
+  }
+
+  return result;
+}
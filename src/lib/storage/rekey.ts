@@ -0,0 +1,95 @@
+import {
+  StoredPersona,
+  TrashedPersona,
+} from '@/types';
+
+import { reencryptAuditLog } from './auditLog';
+import {
+  closeAllPersonas,
+  resealPersona,
+} from './compartments';
+import { KeyManager } from './keyManager';
+import {
+  createVaultHeader,
+  loadVaultDocument,
+  loadVaultHeader,
+  recordAuditEvents,
+  replaceVault,
+} from './localStore';
+import {
+  computeKeyVerifier,
+  deriveVaultKey,
+} from './vaultKey';
+import { getVaultKey } from './vaultSession';
+
+export interface RekeyResult {
+  rekeyedPersonas: number;   // personas moved into new compartments
+  forgottenShareSets: number; // key share sets that no longer unlock the vault
+}
+
+/**
+ * Re-encrypts the vault under a new passphrase. Every derived key changes,
+ * even when the passphrase stays the same: the vault key gets a new salt,
+ * every persona gets a new compartment key and every persona key is
+ * re-protected. Run it again after a suspected compromise. The new vault is
+ * built in memory and written as one unit, so an interruption leaves the old
+ * vault in place.
+ * @param input Current passphrase and the new passphrase
+ * @returns Counts of the rekeyed personas and the share sets made useless
+ */
+export async function rekeyVault({
+  currentPassphrase,
+  newPassphrase,
+}: {
+  currentPassphrase: string;
+  newPassphrase: string;
+}): Promise<RekeyResult> {
+  const header = await loadVaultHeader();
+  if (!header) {
+    throw new Error('No vault found on this device.');
+  }
+  const currentKey = await deriveVaultKey(currentPassphrase, header.kdf);
+  if (computeKeyVerifier(currentKey) !== header.verifier || currentKey !== getVaultKey()) {
+    throw new Error('The current passphrase is incorrect.');
+  }
+  if (!newPassphrase) {
+    throw new Error('A new passphrase is required.');
+  }
+
+  const document = await loadVaultDocument();
+  const { header: newHeader, vaultKey: newKey } = await createVaultHeader(newPassphrase);
+
+  const keyEntries: Record<string, string> = {};
+  const reseal = async (persona: StoredPersona): Promise<StoredPersona> => {
+    const { persona: resealed, compartmentKey } = await resealPersona(persona, newKey);
+    const personaKey = await KeyManager.reprotectForCompartment(persona, compartmentKey);
+    if (personaKey) {
+      keyEntries[personaKey.entry] = personaKey.protectedKey;
+    }
+    return resealed;
+  };
+
+  const personas: StoredPersona[] = [];
+  for (const persona of document.personas) {
+    personas.push(await reseal(persona));
+  }
+  // Trashed personas can still be restored, so they move along
+  const trash: TrashedPersona[] = [];
+  for (const entry of document.trash || []) {
+    trash.push({ ...entry, persona: await reseal(entry.persona) });
+  }
+
+  // Key shares escrow the old vault key, which stops working now
+  const forgottenShareSets = document.keyShareSets?.length || 0;
+
+  // Merge bases are hashed with the old compartment keys, so the next merge starts without them.
+  // Open compartments hold the old keys; close them before the new ones exist
+  closeAllPersonas();
+  await replaceVault(newHeader, { ...document, personas, trash, keyShareSets: [], mergeBases: {} }, newKey, {
+    ...keyEntries,
+    ...(await reencryptAuditLog(newKey)),
+  });
+  await recordAuditEvents([{ action: 'vault.rekeyed', details: `Re-encrypted the vault and ${personas.length} persona key(s)` }]);
+
+  return { rekeyedPersonas: personas.length, forgottenShareSets };
+}
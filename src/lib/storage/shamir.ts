@@ -0,0 +1,99 @@
+import { randomBytes } from '@noble/hashes/utils';
+
+// Log and exponent tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = value;
+  EXP[i + 255] = value;
+  LOG[value] = i;
+  value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0); // multiply by the generator 3
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero in GF(256)');
+  }
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * A single Shamir share: the x coordinate and one y value per secret byte
+ */
+export interface SecretShare {
+  x: number;
+  y: Uint8Array;
+}
+
+/**
+ * Splits a secret into shares, any threshold of which recombine to it
+ * @param secret Secret bytes
+ * @param shareCount Number of shares to create (at most 255)
+ * @param threshold Number of shares needed to recombine
+ * @returns One share per x coordinate 1..shareCount
+ */
+export function splitSecret(secret: Uint8Array, shareCount: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('At least 2 shares must be required to recombine the secret.');
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > 255) {
+    throw new Error('The number of shares must be at least the threshold and at most 255.');
+  }
+
+  const shares: SecretShare[] = Array.from({ length: shareCount }, (_, index) => ({
+    x: index + 1,
+    y: new Uint8Array(secret.length),
+  }));
+
+  for (let byteIndex = 0; byteIndex < secret.length; byteIndex++) {
+    // Random polynomial of degree threshold - 1 whose constant term is the secret byte
+    const coefficients = [secret[byteIndex], ...randomBytes(threshold - 1)];
+    for (const share of shares) {
+      let y = 0;
+      for (let power = coefficients.length - 1; power >= 0; power--) {
+        y = multiply(y, share.x) ^ coefficients[power];
+      }
+      share.y[byteIndex] = y;
+    }
+  }
+
+  return shares;
+}
+
+/**
+ * Recombines a secret from shares by Lagrange interpolation at x = 0.
+ * Too few shares give a wrong secret rather than an error, so callers must
+ * check the threshold and verify the result.
+ * @param shares Distinct shares of the same secret
+ * @returns Secret bytes
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares to combine.');
+  }
+  if (new Set(shares.map(share => share.x)).size !== shares.length) {
+    throw new Error('The same share was given more than once.');
+  }
+  const length = shares[0].y.length;
+  if (shares.some(share => share.y.length !== length)) {
+    throw new Error('The shares belong to different secrets.');
+  }
+
+  const secret = new Uint8Array(length);
+  for (const share of shares) {
+    let basis = 1;
+    for (const other of shares) {
+      if (other.x !== share.x) {
+        basis = multiply(basis, divide(other.x, other.x ^ share.x));
+      }
+    }
+    for (let byteIndex = 0; byteIndex < length; byteIndex++) {
+      secret[byteIndex] ^= multiply(share.y[byteIndex], basis);
+    }
+  }
+  return secret;
+}
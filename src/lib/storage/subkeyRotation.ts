@@ -0,0 +1,181 @@
+import * as openpgp from 'openpgp';
+
+import {
+  PersonaSubkey,
+  PersonaSubkeyRole,
+  StoredPersona,
+} from '@/types';
+
+import {
+  sealPersona,
+  unsealPersona,
+} from './compartments';
+import {
+  readKeyIdentity,
+  shortFingerprint,
+} from './identity';
+import { KeyManager } from './keyManager';
+import {
+  loadVaultDocument,
+  recordAuditEvents,
+  toKeyExpirationTime,
+  updateVaultDocument,
+} from './localStore';
+import { derivePersonaKeyPair } from './mnemonic';
+import {
+  applySubkeyRevocations,
+  bindAsAuthenticationSubkey,
+  describeSubkey,
+  getActiveSubkey,
+  getSubkeyExpirationTime,
+  PersonaSubkeySpec,
+} from './subkeys';
+
+export interface SubkeyRotationOptions {
+  expiresInDays?: number;   // the new subkey expires with the key when unset or 0
+  revokePrevious?: boolean; // revoke the replaced subkey, so nothing it signed counts any more
+}
+
+/**
+ * Makes the persona's private key with the given subkeys. A key derived from
+ * the vault's recovery phrase is derived again with the new subkey, so a
+ * restore can still re-create it; other keys get a random subkey added.
+ * @returns The decrypted private key
+ */
+async function buildKeyWithSubkeys(
+  persona: StoredPersona,
+  privateKey: openpgp.PrivateKey,
+  subkeys: PersonaSubkeySpec[],
+  personaKeySeed?: string
+): Promise<openpgp.PrivateKey> {
+  if (personaKeySeed) {
+    // A rotated key was derived as the next generation, at the time of the rotation
+    const rotations = persona.keyHistory || [];
+    const { userIDs, keyExpirationTime } = await readKeyIdentity(persona.publicKey);
+    const derived = userIDs.length > 0 ? await derivePersonaKeyPair(
+      personaKeySeed,
+      { id: persona.id, createdAt: rotations[rotations.length - 1]?.rotatedAt || persona.createdAt },
+      userIDs,
+      keyExpirationTime,
+      rotations.length,
+      subkeys
+    ) : null;
+    const derivedKey = derived && await openpgp.readPrivateKey({ armoredKey: derived.privateKey });
+    if (derivedKey && derivedKey.getFingerprint() === privateKey.getFingerprint()) {
+      return derivedKey;
+    }
+  }
+
+  const added = subkeys[subkeys.length - 1];
+  // An authentication subkey is added for signing and then rebound, as openpgp cannot add one
+  const rebuilt = await privateKey.addSubkey({
+    sign: added.role !== 'encryption',
+    keyExpirationTime: getSubkeyExpirationTime(added),
+    date: new Date(added.createdAt),
+  });
+  if (added.role === 'authentication') {
+    await bindAsAuthenticationSubkey(rebuilt, subkeys.length - 1);
+  }
+  await applySubkeyRevocations(rebuilt, subkeys);
+  return rebuilt;
+}
+
+/**
+ * Replaces one of a persona's subkeys with a new one for the same role, or
+ * gives the key its first subkey for a role it has none for. The primary key
+ * and the other subkeys stay as they are, so the persona keeps its
+ * fingerprint. The replaced subkey is kept so what it signed before keeps
+ * verifying, unless it is revoked. Keys from before role subkeys first take
+ * their subkey as the encryption subkey. The persona must be open.
+ * @param personaId Persona ID
+ * @param role Role of the subkey to rotate
+ * @param options Lifetime of the new subkey, and whether to revoke the replaced one
+ * @returns The updated persona and the new subkey. The new private key is
+ * only kept sealed in the persona's compartment.
+ */
+export async function rotatePersonaSubkey(
+  personaId: string,
+  role: PersonaSubkeyRole,
+  { expiresInDays, revokePrevious = false }: SubkeyRotationOptions = {}
+): Promise<{ persona: StoredPersona; subkey: PersonaSubkey }> {
+  const document = await loadVaultDocument();
+  const persona = document.personas.find(candidate => candidate.id === personaId);
+  if (!persona) {
+    throw new Error('Persona not found');
+  }
+  if (!persona.publicKey) {
+    throw new Error('This persona has no key to rotate a subkey of.');
+  }
+  if (persona.revocation) {
+    throw new Error('This persona\'s key has been revoked, so its subkeys can no longer be rotated.');
+  }
+
+  const armoredKey = await KeyManager.getPersonaKey(personaId);
+  if (!armoredKey) {
+    throw new Error('This persona has no private key on this device, so it cannot rotate a subkey.');
+  }
+  const privateKey = await openpgp.decryptKey({
+    privateKey: await openpgp.readPrivateKey({ armoredKey }),
+    passphrase: KeyManager.getPersonaKeyPassphrase(personaId),
+  });
+  if (privateKey.getFingerprint().toUpperCase() !== persona.fingerprint) {
+    throw new Error('The private key on this device does not belong to the persona\'s current key.');
+  }
+
+  const records = persona.subkeys ||
+    await Promise.all(privateKey.subkeys.map((_, index) => describeSubkey(privateKey, index, 'encryption', 0)));
+  const previous = getActiveSubkey(records, role);
+
+  // Key packets keep their creation time in whole seconds
+  const rotatedAt = new Date(Math.floor(Date.now() / 1000) * 1000).toISOString();
+  const keyExpiration = await privateKey.getExpirationTime();
+  const expiresAt = expiresInDays
+    ? new Date(Date.parse(rotatedAt) + toKeyExpirationTime(expiresInDays) * 1000).toISOString()
+    : keyExpiration instanceof Date ? keyExpiration.toISOString() : undefined;
+  const specs: PersonaSubkeySpec[] = [
+    ...records.map(record => record === previous
+      ? { ...record, retiredAt: rotatedAt, ...(revokePrevious ? { revokedAt: rotatedAt } : {}) }
+      : record),
+    {
+      role,
+      generation: records.filter(record => record.role === role).length,
+      createdAt: rotatedAt,
+      ...(expiresAt ? { expiresAt } : {}),
+    },
+  ];
+
+  const rebuilt = await buildKeyWithSubkeys(persona, privateKey, specs, document.recovery?.personaKeySeed);
+  const index = specs.length - 1;
+  const subkey = await describeSubkey(rebuilt, index, role, specs[index].generation);
+  const subkeys = [...(specs.slice(0, index) as PersonaSubkey[]), subkey];
+  const publicKey = rebuilt.toPublic().armor();
+  // The rebuilt private key is written together with the document that names its new subkey
+  const { entry, protectedKey } = await KeyManager.protectPersonaKey(personaId, rebuilt.armor());
+
+  const { document: updated } = await updateVaultDocument(async latest => {
+    const current = latest.personas.find(candidate => candidate.id === personaId);
+    if (!current || current.publicKey !== persona.publicKey || current.revocation) {
+      throw new Error('The persona changed in another tab while its subkey was being rotated. Please try again.');
+    }
+
+    const opened = await unsealPersona(current);
+    const sealed = await sealPersona({ ...opened, publicKey, subkeys, updatedAt: rotatedAt }, current);
+    return {
+      ...latest,
+      personas: latest.personas.map(candidate => candidate.id === personaId ? sealed : candidate),
+    };
+  }, { [entry]: protectedKey });
+
+  await recordAuditEvents([{
+    action: 'subkey.rotated',
+    personaId,
+    details: previous
+      ? `Rotated the ${role} subkey of "${persona.name}" from ${shortFingerprint(previous.fingerprint)} to ${shortFingerprint(subkey.fingerprint)}${revokePrevious ? ', revoking the old one' : ''}`
+      : `Added a ${role} subkey ${shortFingerprint(subkey.fingerprint)} to the key of "${persona.name}"`,
+  }]);
+
+  return {
+    persona: updated.personas.find(candidate => candidate.id === personaId) as StoredPersona,
+    subkey,
+  };
+}
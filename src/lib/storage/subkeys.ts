@@ -0,0 +1,352 @@
+import * as openpgp from 'openpgp';
+
+import {
+  PersonaKeyOptions,
+  PersonaSubkey,
+  PersonaSubkeyRole,
+} from '@/types';
+
+// Roles of the subkeys a persona key is made with, in the order they are added
+export const PERSONA_SUBKEY_ROLES: PersonaSubkeyRole[] = ['signing', 'encryption', 'authentication'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A subkey as planned, before it exists and has a fingerprint
+export type PersonaSubkeySpec = Omit<PersonaSubkey, 'fingerprint'>;
+
+// Signatures over keys derived from a recovery phrase have to come out the
+// same every time. The option is missing from openpgp's type definitions.
+const DETERMINISTIC_CONFIG = { ...openpgp.config, nonDeterministicSignaturesViaNotation: false } as openpgp.Config;
+
+/**
+ * Finds the subkey currently in use for a role
+ * @param subkeys Subkeys of a persona's key
+ * @param role Role to look up
+ * @returns The active subkey, or undefined for keys without role subkeys
+ */
+export function getActiveSubkey(subkeys: PersonaSubkey[] | undefined, role: PersonaSubkeyRole): PersonaSubkey | undefined {
+  return subkeys?.find(subkey => subkey.role === role && !subkey.retiredAt);
+}
+
+/**
+ * Checks whether a subkey has passed its expiry date
+ */
+export function isSubkeyExpired(subkey: PersonaSubkey, date: Date = new Date()): boolean {
+  return !!subkey.expiresAt && new Date(subkey.expiresAt) <= date;
+}
+
+/**
+ * Gives a subkey's lifetime in seconds, as written into its binding signature
+ * @returns Lifetime in seconds, 0 for never
+ */
+export function getSubkeyExpirationTime(subkey: Pick<PersonaSubkey, 'createdAt' | 'expiresAt'>): number {
+  return subkey.expiresAt ? Math.round((Date.parse(subkey.expiresAt) - Date.parse(subkey.createdAt)) / 1000) : 0;
+}
+
+/**
+ * Describes one subkey of a key for the persona record
+ * @param key Key holding the subkey
+ * @param index Position of the subkey in the key
+ * @param role Role the subkey was made for
+ * @param generation Rotations of that role so far
+ */
+export async function describeSubkey(
+  key: openpgp.Key,
+  index: number,
+  role: PersonaSubkeyRole,
+  generation: number
+): Promise<PersonaSubkey> {
+  const subkey = key.subkeys[index];
+  if (!subkey) {
+    throw new Error(`The key has no subkey for ${role}.`);
+  }
+  const expiration = await subkey.getExpirationTime();
+  return {
+    role,
+    fingerprint: subkey.getFingerprint().toUpperCase(),
+    generation,
+    createdAt: subkey.getCreationTime().toISOString(),
+    ...(expiration instanceof Date ? { expiresAt: expiration.toISOString() } : {}),
+  };
+}
+
+/**
+ * Describes the subkeys of a newly made persona key, which are added in
+ * the order of PERSONA_SUBKEY_ROLES
+ * @param armoredKey Armored public or private key
+ * @returns Subkey records, one per role
+ */
+export async function readPersonaSubkeys(armoredKey: string): Promise<PersonaSubkey[]> {
+  const key = await openpgp.readKey({ armoredKey });
+  return await Promise.all(PERSONA_SUBKEY_ROLES.map((role, index) => describeSubkey(key, index, role, 0)));
+}
+
+/**
+ * Checks that a key holds exactly the subkeys of a persona's records, in order
+ */
+export async function hasPersonaSubkeys(armoredKey: string, subkeys: PersonaSubkey[]): Promise<boolean> {
+  const key = await openpgp.readKey({ armoredKey });
+  return key.subkeys.length === subkeys.length &&
+    key.subkeys.every((subkey, index) => subkey.getFingerprint().toUpperCase() === subkeys[index].fingerprint);
+}
+
+/**
+ * Finds a subkey of a key by its fingerprint
+ */
+export function findSubkey(key: openpgp.Key, fingerprint: string): openpgp.Subkey {
+  const subkey = key.subkeys.find(candidate => candidate.getFingerprint().toUpperCase() === fingerprint);
+  if (!subkey) {
+    throw new Error('The persona\'s key does not contain the expected subkey.');
+  }
+  return subkey;
+}
+
+/**
+ * Finds the key ID of a key's primary key or one of its subkeys by fingerprint,
+ * to tell openpgp which of them should sign
+ */
+export function getKeyIDByFingerprint(key: openpgp.Key, fingerprint: string): openpgp.KeyID {
+  const match = key.getKeys().find(candidate => candidate.getFingerprint().toUpperCase() === fingerprint);
+  if (!match) {
+    throw new Error('The persona\'s key does not contain the expected subkey.');
+  }
+  return match.getKeyID();
+}
+
+// openpgp's type definitions only know signatures over bytes, not over keys or literal data packets
+function signPacket(
+  signature: openpgp.SignaturePacket,
+  key: openpgp.SecretKeyPacket | openpgp.SecretSubkeyPacket,
+  data: object,
+  date: Date
+): Promise<void> {
+  return (signature.sign as (key: unknown, data: unknown, date: Date, detached: boolean, config: openpgp.Config) => Promise<void>)
+    .call(signature, key, data, date, false, DETERMINISTIC_CONFIG);
+}
+
+/**
+ * Creates the binding signature that attaches a subkey to its primary key.
+ * Signing subkeys are flagged for signing and cross-sign the binding;
+ * authentication subkeys are flagged for authentication only, so openpgp
+ * will not sign messages with them; encryption subkeys are flagged for
+ * encryption.
+ * @param primaryKey Decrypted primary key packet
+ * @param subkey Decrypted subkey packet
+ * @param role Role of the subkey
+ * @param keyExpirationTime Subkey lifetime in seconds, 0 for never
+ * @param date Date of the binding, normally the subkey's creation date
+ * @returns Binding signature packet
+ */
+export async function bindSubkey(
+  primaryKey: openpgp.SecretKeyPacket,
+  subkey: openpgp.SecretSubkeyPacket,
+  role: PersonaSubkeyRole,
+  keyExpirationTime: number,
+  date: Date
+): Promise<openpgp.SignaturePacket> {
+  const dataToSign = { key: primaryKey, bind: subkey };
+  const binding = new openpgp.SignaturePacket();
+  binding.signatureType = openpgp.enums.signature.subkeyBinding;
+  binding.publicKeyAlgorithm = primaryKey.algorithm;
+  binding.hashAlgorithm = openpgp.enums.hash.sha256;
+  if (role === 'encryption') {
+    binding.keyFlags = new Uint8Array([openpgp.enums.keyFlags.encryptCommunication | openpgp.enums.keyFlags.encryptStorage]);
+  } else if (role === 'authentication') {
+    binding.keyFlags = new Uint8Array([openpgp.enums.keyFlags.authentication]);
+  } else {
+    binding.keyFlags = new Uint8Array([openpgp.enums.keyFlags.signData]);
+    const embedded = new openpgp.SignaturePacket();
+    embedded.signatureType = openpgp.enums.signature.keyBinding;
+    embedded.publicKeyAlgorithm = subkey.algorithm;
+    embedded.hashAlgorithm = openpgp.enums.hash.sha256;
+    await signPacket(embedded, subkey, dataToSign, date);
+    binding.embeddedSignature = embedded;
+  }
+  if (keyExpirationTime > 0) {
+    binding.keyExpirationTime = keyExpirationTime;
+    binding.keyNeverExpires = false;
+  }
+  await signPacket(binding, primaryKey, dataToSign, date);
+  return binding;
+}
+
+/**
+ * Rebinds a subkey openpgp generated for signing as an authentication
+ * subkey, since openpgp cannot generate one. Its creation date and lifetime
+ * stay as generated.
+ * @param key Decrypted private key, changed in place
+ * @param index Position of the subkey in the key
+ */
+export async function bindAsAuthenticationSubkey(key: openpgp.PrivateKey, index: number): Promise<void> {
+  const subkey = key.subkeys[index];
+  const [generated] = subkey.bindingSignatures;
+  subkey.bindingSignatures = [await bindSubkey(
+    key.keyPacket as openpgp.SecretKeyPacket,
+    subkey.keyPacket as openpgp.SecretSubkeyPacket,
+    'authentication',
+    generated.keyNeverExpires === false && generated.keyExpirationTime ? generated.keyExpirationTime : 0,
+    generated.created || subkey.getCreationTime()
+  )];
+}
+
+/**
+ * Signs a text with a persona's authentication subkey. openpgp only signs
+ * messages with subkeys flagged for signing, so the signature is made here.
+ * @param key Decrypted private key
+ * @param fingerprint Authentication subkey
+ * @param text Text to sign
+ * @returns Armored signed message
+ */
+export async function signWithAuthenticationSubkey(key: openpgp.PrivateKey, fingerprint: string, text: string): Promise<string> {
+  const subkey = findSubkey(key, fingerprint);
+  const message = await openpgp.createMessage({ text });
+  const signature = new openpgp.SignaturePacket();
+  signature.signatureType = openpgp.enums.signature.text;
+  signature.publicKeyAlgorithm = subkey.keyPacket.algorithm;
+  signature.hashAlgorithm = openpgp.enums.hash.sha256;
+  await signPacket(signature, subkey.keyPacket as openpgp.SecretSubkeyPacket, message.packets[0], new Date());
+  const packets = new openpgp.PacketList<openpgp.AnyPacket>();
+  packets.push(signature, ...message.packets);
+  return new openpgp.Message(packets).armor();
+}
+
+/**
+ * Checks a text signed with signWithAuthenticationSubkey. The subkey must
+ * be bound for authentication, and not expired or revoked when it signed.
+ * @param key Public key holding the subkey
+ * @param fingerprint Authentication subkey
+ * @param armoredMessage Armored signed message
+ * @returns The signed text, or null if the signature does not verify
+ */
+export async function verifyAuthenticationSignature(
+  key: openpgp.Key,
+  fingerprint: string,
+  armoredMessage: string
+): Promise<string | null> {
+  try {
+    const subkey = findSubkey(key, fingerprint);
+    const message = await openpgp.readMessage({ armoredMessage });
+    const signature = message.packets.findPacket(openpgp.enums.packet.signature) as openpgp.SignaturePacket | undefined;
+    const literal = message.packets.findPacket(openpgp.enums.packet.literalData);
+    if (!signature?.created || !literal) {
+      return null;
+    }
+    const binding = await subkey.verify(signature.created);
+    if (!binding.keyFlags || (binding.keyFlags[0] & openpgp.enums.keyFlags.authentication) === 0) {
+      return null;
+    }
+    await signature.verify(subkey.keyPacket, openpgp.enums.signature.text, literal, signature.created);
+    return message.getText() as string;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Revokes the subkeys of a key that the persona record marks as revoked
+ * @param key Decrypted private key, changed in place
+ * @param subkeys Subkey records of the key, in the order of its subkeys
+ */
+export async function applySubkeyRevocations(key: openpgp.PrivateKey, subkeys: PersonaSubkeySpec[]): Promise<void> {
+  for (const [index, record] of subkeys.entries()) {
+    const subkey = key.subkeys[index];
+    if (!record.revokedAt || !subkey || subkey.revocationSignatures.length > 0) {
+      continue;
+    }
+    key.subkeys[index] = await subkey.revoke(
+      key.keyPacket as openpgp.SecretKeyPacket,
+      { flag: openpgp.enums.reasonForRevocation.keyCompromised, string: `${record.role} subkey replaced` },
+      new Date(record.revokedAt),
+      DETERMINISTIC_CONFIG
+    );
+  }
+}
+
+/**
+ * Copies a private key keeping only one subkey's secret, so the copy can
+ * do that subkey's job and nothing else
+ * @param key Private key
+ * @param fingerprint Subkey to keep usable
+ * @returns Private key whose other secrets are stripped
+ */
+export async function keepOnlySubkeySecret(key: openpgp.PrivateKey, fingerprint: string): Promise<openpgp.PrivateKey> {
+  const copy = await openpgp.readPrivateKey({ binaryKey: key.write() });
+  findSubkey(copy, fingerprint);
+  for (const { keyPacket } of copy.getKeys()) {
+    if (keyPacket.getFingerprint().toUpperCase() !== fingerprint) {
+      (keyPacket as openpgp.SecretKeyPacket).makeDummy();
+    }
+  }
+  return copy;
+}
+
+/**
+ * Checks that a signature was made by the persona's subkey for a role, and
+ * not after that subkey was replaced. Keys from before role subkeys sign
+ * with their primary key until they get a subkey for the role.
+ * @param subkeys Subkey records of the key the signature verified against
+ * @param role Role the signature needs
+ * @param signerFingerprint Fingerprint of the (sub)key that made the signature
+ * @param signedAt Creation date of the signature
+ * @returns The problem found, or null if the signer may sign for the role
+ */
+export function checkSubkeyRole(
+  subkeys: PersonaSubkey[],
+  role: PersonaSubkeyRole,
+  signerFingerprint: string,
+  signedAt: Date
+): string | null {
+  const signer = subkeys.find(subkey => subkey.fingerprint === signerFingerprint);
+  // Until a key has a subkey for the role, its primary key does that job
+  if (!signer && !subkeys.some(subkey => subkey.role === role && new Date(subkey.createdAt) <= signedAt)) {
+    return null;
+  }
+  if (!signer || signer.role !== role) {
+    return `It was not signed with the persona's ${role} subkey.`;
+  }
+  if (signer.revokedAt) {
+    return `The ${role} subkey that signed it has been revoked.`;
+  }
+  if (signer.retiredAt && signedAt > new Date(signer.retiredAt)) {
+    return `It was signed after the ${role} subkey that made it was replaced.`;
+  }
+  return null;
+}
+
+/**
+ * Plans the role subkeys of a new persona key. A subkey without its own
+ * expiry expires with the key, as openpgp does for generated keys.
+ * @param createdAt Creation date of the key
+ * @param options Key options with the key's and each subkey's lifetime
+ * @returns Subkeys to derive, one per role
+ */
+export function planPersonaSubkeys(
+  createdAt: string,
+  { expiresInDays, subkeyExpiresInDays }: Pick<PersonaKeyOptions, 'expiresInDays' | 'subkeyExpiresInDays'>
+): PersonaSubkeySpec[] {
+  return PERSONA_SUBKEY_ROLES.map(role => {
+    const days = subkeyExpiresInDays?.[role] || expiresInDays;
+    return {
+      role,
+      generation: 0,
+      createdAt,
+      ...(days ? { expiresAt: new Date(Date.parse(createdAt) + days * DAY_MS).toISOString() } : {}),
+    };
+  });
+}
+
+/**
+ * Reads how long each role's active subkey lives, so a new key can keep the same lifetimes
+ * @returns Lifetime in days per role; roles whose subkey never expires are left out
+ */
+export function getSubkeyExpiryDays(subkeys: PersonaSubkey[] = []): Partial<Record<PersonaSubkeyRole, number>> {
+  const days: Partial<Record<PersonaSubkeyRole, number>> = {};
+  for (const role of PERSONA_SUBKEY_ROLES) {
+    const active = getActiveSubkey(subkeys, role);
+    const lifetime = active ? getSubkeyExpirationTime(active) : 0;
+    if (lifetime > 0) {
+      days[role] = Math.round(lifetime * 1000 / DAY_MS);
+    }
+  }
+  return days;
+}
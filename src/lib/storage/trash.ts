@@ -0,0 +1,167 @@
+import {
+  canHideLedgerRecord,
+  revokeSignedProof,
+} from '@/lib/blockchain/signedProofs';
+import {
+  LocalStorage,
+  TrashedPersona,
+} from '@/types';
+
+import {
+  closePersona,
+  unsealPersona,
+} from './compartments';
+import { KeyManager } from './keyManager';
+import {
+  loadVaultDocument,
+  recordAuditEvents,
+  updateVaultDocument,
+} from './localStore';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Moves a persona to the trash. Its compartment and private key are kept,
+ * so it can be restored as it was.
+ * @param document Vault document
+ * @param personaId Persona ID
+ * @returns Vault document with the persona in the trash
+ */
+export function moveToTrash(document: LocalStorage, personaId: string): LocalStorage {
+  const persona = document.personas.find(candidate => candidate.id === personaId);
+  if (!persona) {
+    throw new Error('Persona not found');
+  }
+  return {
+    ...document,
+    personas: document.personas.filter(candidate => candidate.id !== personaId),
+    trash: [...(document.trash || []), { persona, deletedAt: new Date().toISOString() }],
+  };
+}
+
+/**
+ * Takes a persona back out of the trash
+ * @param document Vault document
+ * @param personaId Persona ID
+ * @returns Vault document with the persona restored
+ */
+export function restoreFromTrash(document: LocalStorage, personaId: string): LocalStorage {
+  const entry = document.trash?.find(candidate => candidate.persona.id === personaId);
+  if (!entry) {
+    throw new Error('Persona is not in the trash');
+  }
+  if (document.personas.some(persona => persona.id === personaId)) {
+    throw new Error('A persona with the same ID exists again. Remove it before restoring this one.');
+  }
+  return {
+    ...document,
+    personas: [...document.personas, entry.persona],
+    trash: document.trash?.filter(candidate => candidate !== entry),
+  };
+}
+
+/**
+ * Works out when a trashed persona is purged
+ * @param entry Trashed persona
+ * @param retentionDays Retention from the settings
+ * @returns Time of the purge, or null if the trash is kept until emptied by hand
+ */
+export function getTrashExpiry(entry: TrashedPersona, retentionDays = DEFAULT_TRASH_RETENTION_DAYS): Date | null {
+  if (retentionDays <= 0) {
+    return null;
+  }
+  return new Date(new Date(entry.deletedAt).getTime() + retentionDays * 86400000);
+}
+
+/**
+ * Counts the active proofs a trashed persona recorded on a ledger. They stay
+ * on the ledger after the persona is purged unless they are revoked.
+ */
+export async function countLedgerProofs(entry: TrashedPersona): Promise<number> {
+  const { privateData } = await unsealPersona(entry.persona);
+  return privateData.signedProofs.filter(proof => proof.status === 'active' && proof.ledger !== 'none').length;
+}
+
+export interface TrashPurgeResult {
+  revokedProofs: number;      // proofs whose ledger record was hidden
+  proofsLeftOnLedger: number; // proofs on a ledger that cannot hide them, still readable there
+}
+
+/**
+ * Purges personas from the trash for good. Their compartment keys go with the
+ * vault document and their private keys are shredded once it is saved.
+ * @param personaIds IDs of trashed personas
+ * @param options Set revokeProofs to revoke their ledger proofs first
+ * @returns Number of proofs revoked, and of proofs that stay on their ledger
+ */
+export async function purgeTrashedPersonas(
+  personaIds: string[],
+  { revokeProofs = false }: { revokeProofs?: boolean } = {}
+): Promise<TrashPurgeResult> {
+  // Proofs are revoked first, so a failed revocation leaves the trash as it was
+  let revokedProofs = 0;
+  let proofsLeftOnLedger = 0;
+  if (revokeProofs) {
+    const document = await loadVaultDocument();
+    for (const entry of document.trash || []) {
+      if (!personaIds.includes(entry.persona.id)) {
+        continue;
+      }
+      const { privateData } = await unsealPersona(entry.persona);
+      for (const proof of privateData.signedProofs) {
+        if (proof.status !== 'active' || proof.ledger === 'none') {
+          continue;
+        }
+        if (canHideLedgerRecord(proof)) {
+          await revokeSignedProof(proof);
+          revokedProofs++;
+        } else {
+          proofsLeftOnLedger++;
+        }
+      }
+    }
+  }
+
+  const purged: TrashedPersona[] = [];
+  await updateVaultDocument(async latest => {
+    purged.length = 0;
+    const remaining: TrashedPersona[] = [];
+    for (const entry of latest.trash || []) {
+      (personaIds.includes(entry.persona.id) ? purged : remaining).push(entry);
+    }
+    return { ...latest, trash: remaining };
+  });
+
+  // Only keys of personas that were still in the trash when it was saved
+  for (const entry of purged) {
+    await KeyManager.shredPersonaKey(entry.persona.id);
+    closePersona(entry.persona.id);
+  }
+
+  await recordAuditEvents(purged.map(entry => ({
+    action: 'persona.purged' as const,
+    personaId: entry.persona.id,
+    details: `Purged persona "${entry.persona.name}" from the trash`,
+  })));
+  return { revokedProofs, proofsLeftOnLedger };
+}
+
+/**
+ * Purges the trashed personas whose retention ran out. Personas with active
+ * ledger proofs are kept until the user decides whether to revoke them.
+ * @returns IDs of the purged personas
+ */
+export async function purgeExpiredTrash(document: LocalStorage, now: Date = new Date()): Promise<string[]> {
+  const retentionDays = document.settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const expired: string[] = [];
+  for (const entry of document.trash || []) {
+    const expiry = getTrashExpiry(entry, retentionDays);
+    if (expiry && expiry <= now && await countLedgerProofs(entry) === 0) {
+      expired.push(entry.persona.id);
+    }
+  }
+  if (expired.length > 0) {
+    await purgeTrashedPersonas(expired);
+  }
+  return expired;
+}
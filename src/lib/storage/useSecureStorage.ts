@@ -1,20 +1,96 @@
 import {
   useEffect,
+  useRef,
   useState,
 } from 'react';
 
 import {
+  AuditEvent,
   LocalStorage,
   Persona,
+  PersonaSubkeyRole,
+  ProofLedger,
+  StorageBackend,
 } from '@/types';
 
+import {
+  describePrivateDataChanges,
+  describeVaultChanges,
+} from './auditLog';
+import {
+  resolveAutoLockSettings,
+  watchAutoLock,
+} from './autoLock';
+import {
+  getStorageAdapter,
+  switchStorageBackend,
+} from './adapters';
+import {
+  closeAllPersonas,
+  closePersona as closePersonaCompartment,
+  isPersonaOpen,
+  openPersona as openPersonaCompartment,
+  sealPersona,
+  unsealPersona,
+} from './compartments';
 import { KeyManager } from './keyManager';
+import { revokePersona as revokeStoredPersona } from './keyRevocation';
+import {
+  KeyRotationOptions,
+  rotatePersonaKey as rotateStoredPersonaKey,
+} from './keyRotation';
 import {
-  decryptStorage,
-  encryptStorage,
-  loadEncryptedStorage,
-  saveEncryptedStorage,
+  clearStorage,
+  hasVault,
+  initializeStorage,
+  isLegacyVault,
+  isVaultKeyCurrent,
+  isVaultStorageKey,
+  loadVaultDocument,
+  loadVaultRevision,
+  lockVault,
+  recordAuditEvents,
+  recoverInterruptedVaultWrite,
+  trySaveVaultDocument,
+  unlockVault,
+  updateVaultDocument,
 } from './localStore';
+import { rebaseVaultChanges } from './merge';
+import {
+  rotatePersonaSubkey as rotateStoredPersonaSubkey,
+  SubkeyRotationOptions,
+} from './subkeyRotation';
+import {
+  moveToTrash,
+  purgeExpiredTrash,
+  purgeTrashedPersonas,
+  restoreFromTrash,
+} from './trash';
+import {
+  getActiveVaultId,
+  subscribeVaultRegistry,
+} from './vaultRegistry';
+import {
+  getLockReason,
+  getVaultUnlockedAt,
+  isVaultUnlocked,
+  subscribeVaultSession,
+} from './vaultSession';
+import { subscribeVaultChanges } from './vaultSync';
+
+/**
+ * Purges deleted personas past their retention. A failed purge is only
+ * logged, so it never keeps the vault from loading.
+ * @returns Whether anything was purged
+ */
+async function purgeExpiredTrashQuietly(document: LocalStorage): Promise<boolean> {
+  try {
+    return (await purgeExpiredTrash(document)).length > 0;
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+    return false;
+  }
+}
 
 /**
  * Custom hook for accessing and managing the encrypted local storage
@@ -22,63 +98,211 @@ import {
 export function useSecureStorage() {
   const [isLoading, setIsLoading] = useState(true);
   const [storage, setStorage] = useState<LocalStorage | null>(null);
-  const [masterKey, setMasterKey] = useState<string | null>(null);
+  const [activePersona, setActivePersona] = useState<Persona | null>(null);
+  const [isLocked, setIsLocked] = useState(!isVaultUnlocked());
+  const [lockReason, setLockReason] = useState<string | null>(getLockReason());
+  const [vaultExists, setVaultExists] = useState(false);
+  const [legacyVault, setLegacyVault] = useState(false);
+  const [storageBackend, setStorageBackend] = useState<StorageBackend>('localStorage');
   const [error, setError] = useState<string | null>(null);
+  // Revision of the vault the storage in state was loaded at
+  const revisionRef = useRef(0);
 
-  // Load storage on component mount
+  // Load storage on mount and whenever the vault is locked or unlocked
   useEffect(() => {
     loadStorage();
+    return subscribeVaultSession(() => {
+      setIsLocked(!isVaultUnlocked());
+      setLockReason(getLockReason());
+      loadStorage();
+    });
+  }, []);
+
+  // Reload when another vault is opened, here or in another tab
+  useEffect(() => {
+    let vaultId = getActiveVaultId();
+    return subscribeVaultRegistry(() => {
+      if (getActiveVaultId() !== vaultId) {
+        vaultId = getActiveVaultId();
+        loadStorage();
+      }
+    });
   }, []);
 
+  // Reload when another tab writes to the vault
+  useEffect(() => {
+    return subscribeVaultChanges(({ revision }) => {
+      if (revision !== revisionRef.current) {
+        refreshStorage();
+      }
+    });
+  }, []);
+
+  // Lock the vault once the session times out; locking reloads storage as null
+  const autoLock = storage?.settings.autoLock;
+  const hasDecryptedStorage = !!storage;
+  useEffect(() => {
+    if (!hasDecryptedStorage) {
+      return;
+    }
+    return watchAutoLock(resolveAutoLockSettings(autoLock), getVaultUnlockedAt, reason => lockVault(reason));
+  }, [hasDecryptedStorage, autoLock]);
+
   /**
-   * Load the encrypted storage using the master key
+   * Load the encrypted storage using the unlocked vault key
    */
   const loadStorage = async () => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const encryptedData = loadEncryptedStorage();
-      if (!encryptedData) {
-        setStorage(null);
-        setIsLoading(false);
-        return;
+      setStorageBackend(getStorageAdapter().backend);
+      if (await recoverInterruptedVaultWrite()) {
+        console.warn('An interrupted vault write was rolled back');
       }
+      const exists = await hasVault();
+      setVaultExists(exists);
+      setLegacyVault(await isLegacyVault());
       
-      // In a real app, we would prompt for the master key
-      // For demo purposes, we'll use a simulated key retrieval
-      const demoKey = localStorage.getItem('whoim_demo_private_key');
-      if (!demoKey) {
-        setError('Master key not found');
-        setIsLoading(false);
+      if (!exists || !isVaultUnlocked()) {
+        setStorage(null);
+        setActivePersona(null);
         return;
       }
       
-      setMasterKey(demoKey);
-      const decryptedStorage = await decryptStorage(encryptedData, demoKey);
+      revisionRef.current = await loadVaultRevision();
+      let decryptedStorage = await loadVaultDocument();
+      if (await purgeExpiredTrashQuietly(decryptedStorage)) {
+        revisionRef.current = await loadVaultRevision();
+        decryptedStorage = await loadVaultDocument();
+      }
       setStorage(decryptedStorage);
     } catch (err) {
       console.error('Failed to load storage:', err);
-      setError('Failed to decrypt storage. Please check your master key.');
+      // An unreadable vault must not look like an empty one that can be written over
+      setStorage(null);
+      setActivePersona(null);
+      setError('Failed to decrypt storage.');
+      if (isVaultUnlocked()) {
+        lockVault(`The vault could not be read (${err instanceof Error ? err.message : String(err)}). Check its integrity before unlocking again.`);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
   /**
-   * Update the storage with new data
+   * Pick up a write made in another tab without showing the loading state.
+   * If that tab rekeyed or reset the vault, this tab's key no longer fits and
+   * the vault is locked.
    */
-  const updateStorage = async (newStorage: LocalStorage) => {
-    if (!masterKey) {
-      setError('Master key not available');
+  const refreshStorage = async () => {
+    if (!isVaultUnlocked()) {
+      setVaultExists(await hasVault());
+      return;
+    }
+    
+    try {
+      if (!(await isVaultKeyCurrent())) {
+        lockVault('The vault was re-encrypted or reset in another tab.');
+        return;
+      }
+      revisionRef.current = await loadVaultRevision();
+      setStorage(await loadVaultDocument());
+    } catch (err) {
+      console.error('Failed to reload storage:', err);
+      setError('Failed to reload storage changed in another tab.');
+    }
+  };
+
+  /**
+   * Create a new passphrase-protected vault
+   */
+  const createVault = async (name: string, email: string, passphrase: string) => {
+    setError(null);
+    try {
+      return await initializeStorage({ name, email, passphrase });
+    } catch (err) {
+      console.error('Failed to create vault:', err);
+      setError('Failed to create vault: ' + (err instanceof Error ? err.message : String(err)));
+      return null;
+    }
+  };
+
+  /**
+   * Unlock the vault with the user's passphrase
+   */
+  const unlock = async (passphrase: string) => {
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      return true;
+    } catch (err) {
+      console.error('Failed to unlock vault:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlock vault');
+      return false;
+    }
+  };
+
+  /**
+   * Lock the vault and drop the decrypted storage from memory
+   */
+  const lock = () => {
+    lockVault();
+    setStorage(null);
+    setActivePersona(null);
+  };
+
+  /**
+   * Open a persona's compartment, closing every other one
+   */
+  const openPersona = async (personaId: string) => {
+    const stored = storage?.personas.find(persona => persona.id === personaId);
+    if (!stored || !isVaultUnlocked()) {
+      setError('Persona not available or vault locked');
+      return null;
+    }
+    
+    try {
+      const persona = await openPersonaCompartment(stored);
+      setActivePersona(persona);
+      return persona;
+    } catch (err) {
+      console.error('Failed to open persona:', err);
+      setError('Failed to decrypt persona');
+      return null;
+    }
+  };
+
+  /**
+   * Close the active persona and drop its private data from memory
+   */
+  const closePersona = () => {
+    closeAllPersonas();
+    setActivePersona(null);
+  };
+
+  /**
+   * Update the storage with new data and record the change in the audit log.
+   * Without explicit events, the changes visible outside compartments are recorded.
+   */
+  const updateStorage = async (newStorage: LocalStorage, events: AuditEvent[] = describeVaultChanges(storage, newStorage)) => {
+    if (!isVaultUnlocked()) {
+      setError('Vault is locked');
       return false;
     }
     
     try {
       setIsLoading(true);
-      const encryptedData = await encryptStorage(newStorage, masterKey);
-      saveEncryptedStorage(encryptedData);
-      setStorage(newStorage);
+      let written = newStorage;
+      let revision = await trySaveVaultDocument(newStorage, revisionRef.current);
+      if (revision === null) {
+        // Another tab wrote since this copy was loaded: apply the change to its version
+        ({ document: written, revision } = await updateVaultDocument(latest => rebaseVaultChanges(storage, newStorage, latest)));
+      }
+      revisionRef.current = revision;
+      setStorage(written);
+      await recordAuditEvents(events);
       return true;
     } catch (err) {
       console.error('Failed to update storage:', err);
@@ -93,19 +317,23 @@ export function useSecureStorage() {
    * Add a new persona to storage
    */
   const addPersona = async (persona: Persona, privateKey: string) => {
-    if (!storage || !masterKey) {
-      setError('Storage or master key not available');
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
       return false;
     }
     
     try {
-      // Store the persona's private key
-      KeyManager.storePersonaKey(persona.id, privateKey);
+      // Seal the persona in a new compartment and open it
+      const sealed = await sealPersona(persona);
+      setActivePersona(await openPersonaCompartment(sealed));
+      
+      // Store the persona's private key in its compartment
+      await KeyManager.storePersonaKey(persona.id, privateKey);
       
       // Update storage with new persona
       const updatedStorage = {
         ...storage,
-        personas: [...storage.personas, persona]
+        personas: [...storage.personas, sealed]
       };
       
       return await updateStorage(updatedStorage);
@@ -117,28 +345,51 @@ export function useSecureStorage() {
   };
 
   /**
-   * Update an existing persona
+   * Update an existing persona. Private data can only be changed while the persona is open.
    */
   const updatePersona = async (personaId: string, updates: Partial<Persona>) => {
-    if (!storage || !masterKey) {
-      setError('Storage or master key not available');
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
       return false;
     }
     
     try {
-      const updatedPersonas = storage.personas.map(persona => {
-        if (persona.id === personaId) {
-          return { ...persona, ...updates };
+      const changes = { ...updates, updatedAt: new Date().toISOString() };
+      const { privateData } = changes;
+      if (privateData && !isPersonaOpen(personaId)) {
+        setError('Open the persona before changing its private data');
+        return false;
+      }
+      
+      const updatedPersonas = await Promise.all(storage.personas.map(async persona => {
+        if (persona.id !== personaId) {
+          return persona;
+        }
+        if (privateData) {
+          return await sealPersona({ ...persona, ...changes, privateData }, persona);
         }
-        return persona;
-      });
+        return { ...persona, ...changes };
+      }));
       
       const updatedStorage = {
         ...storage,
         personas: updatedPersonas
       };
       
-      return await updateStorage(updatedStorage);
+      // Accounts and proofs live in the compartment, so compare them before sealing
+      const stored = storage.personas.find(persona => persona.id === personaId);
+      const privateChanges = privateData && stored
+        ? describePrivateDataChanges(personaId, (await unsealPersona(stored)).privateData, privateData)
+        : [];
+      
+      const saved = await updateStorage(updatedStorage, [
+        ...describeVaultChanges(storage, updatedStorage),
+        ...privateChanges,
+      ]);
+      if (saved) {
+        setActivePersona(current => current?.id === personaId ? { ...current, ...changes } : current);
+      }
+      return saved;
     } catch (err) {
       console.error('Failed to update persona:', err);
       setError('Failed to update persona');
@@ -147,25 +398,22 @@ export function useSecureStorage() {
   };
 
   /**
-   * Remove a persona from storage
+   * Move a persona to the trash. Its key stays on this device until it is purged.
    */
   const removePersona = async (personaId: string) => {
-    if (!storage || !masterKey) {
-      setError('Storage or master key not available');
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
       return false;
     }
     
     try {
-      // Remove the persona's private key
-      KeyManager.removePersonaKey(personaId);
-      
-      // Update storage without the removed persona
-      const updatedStorage = {
-        ...storage,
-        personas: storage.personas.filter(persona => persona.id !== personaId)
-      };
+      // Forget its compartment; restoring the persona opens it again when needed
+      closePersonaCompartment(personaId);
+      if (activePersona?.id === personaId) {
+        setActivePersona(null);
+      }
       
-      return await updateStorage(updatedStorage);
+      return await updateStorage(moveToTrash(storage, personaId));
     } catch (err) {
       console.error('Failed to remove persona:', err);
       setError('Failed to remove persona from storage');
@@ -173,12 +421,123 @@ export function useSecureStorage() {
     }
   };
 
+  /**
+   * Restore a persona from the trash
+   */
+  const restorePersona = async (personaId: string) => {
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
+      return false;
+    }
+    
+    try {
+      return await updateStorage(restoreFromTrash(storage, personaId));
+    } catch (err) {
+      console.error('Failed to restore persona:', err);
+      setError('Failed to restore persona: ' + (err instanceof Error ? err.message : String(err)));
+      return false;
+    }
+  };
+
+  /**
+   * Purge a persona from the trash for good, shredding its private key.
+   * Its ledger proofs are revoked first when asked to.
+   * @returns Numbers of revoked proofs and of proofs left on their ledger, or null if the purge failed
+   */
+  const purgePersona = async (personaId: string, options: { revokeProofs?: boolean } = {}) => {
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
+      return null;
+    }
+    
+    try {
+      const result = await purgeTrashedPersonas([personaId], options);
+      await refreshStorage();
+      return result;
+    } catch (err) {
+      console.error('Failed to purge persona:', err);
+      setError('Failed to purge persona: ' + (err instanceof Error ? err.message : String(err)));
+      return null;
+    }
+  };
+
+  /**
+   * Rotate a persona to a new key, signed over by its current one.
+   * The persona must be open.
+   * @returns Fingerprint of the new key, or null if the rotation failed
+   */
+  const rotatePersonaKey = async (personaId: string, options: KeyRotationOptions) => {
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
+      return null;
+    }
+    
+    try {
+      const { persona, rotation } = await rotateStoredPersonaKey(personaId, options);
+      await refreshStorage();
+      const rotated = await unsealPersona(persona);
+      setActivePersona(current => current?.id === personaId ? rotated : current);
+      return rotation.fingerprint;
+    } catch (err) {
+      console.error('Failed to rotate persona key:', err);
+      setError('Failed to rotate persona key: ' + (err instanceof Error ? err.message : String(err)));
+      return null;
+    }
+  };
+
+  /**
+   * Rotate one of a persona's subkeys, keeping its key and fingerprint.
+   * The persona must be open.
+   * @returns Fingerprint of the new subkey, or null if the rotation failed
+   */
+  const rotatePersonaSubkey = async (personaId: string, role: PersonaSubkeyRole, options: SubkeyRotationOptions) => {
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
+      return null;
+    }
+    
+    try {
+      const { persona, subkey } = await rotateStoredPersonaSubkey(personaId, role, options);
+      await refreshStorage();
+      const rotated = await unsealPersona(persona);
+      setActivePersona(current => current?.id === personaId ? rotated : current);
+      return subkey.fingerprint;
+    } catch (err) {
+      console.error('Failed to rotate persona subkey:', err);
+      setError('Failed to rotate persona subkey: ' + (err instanceof Error ? err.message : String(err)));
+      return null;
+    }
+  };
+
+  /**
+   * Revoke a persona's key, publishing the revocation and revoking the proofs signed with it
+   * @returns Number of revoked proofs, or null if the revocation failed
+   */
+  const revokePersona = async (personaId: string, ledger: ProofLedger) => {
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
+      return null;
+    }
+    
+    try {
+      const { persona, revokedProofs } = await revokeStoredPersona(personaId, ledger);
+      await refreshStorage();
+      const revoked = await unsealPersona(persona);
+      setActivePersona(current => current?.id === personaId ? revoked : current);
+      return revokedProofs;
+    } catch (err) {
+      console.error('Failed to revoke persona:', err);
+      setError('Failed to revoke persona: ' + (err instanceof Error ? err.message : String(err)));
+      return null;
+    }
+  };
+
   /**
    * Update application settings
    */
   const updateSettings = async (newSettings: Partial<LocalStorage['settings']>) => {
-    if (!storage || !masterKey) {
-      setError('Storage or master key not available');
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
       return false;
     }
     
@@ -199,21 +558,41 @@ export function useSecureStorage() {
     }
   };
 
+  /**
+   * Move the vault to another storage backend and remember the choice
+   */
+  const changeStorageBackend = async (backend: StorageBackend) => {
+    if (!storage || !isVaultUnlocked()) {
+      setError('Storage not available or vault locked');
+      return false;
+    }
+    
+    try {
+      await switchStorageBackend(backend, key => isVaultStorageKey(key) || KeyManager.isPersonaKeyEntry(key));
+      setStorageBackend(backend);
+      return await updateSettings({ storageBackend: backend });
+    } catch (err) {
+      console.error('Failed to change storage backend:', err);
+      setError('Failed to change storage backend');
+      return false;
+    }
+  };
+
   /**
    * Reset all storage data
    */
-  const resetStorage = () => {
-    localStorage.removeItem('whoim_encrypted_storage');
-    localStorage.removeItem('whoim_demo_private_key');
+  const resetStorage = async () => {
+    await clearStorage();
     
     // Remove all persona keys
-    const personaKeys = KeyManager.getAllPersonaKeys();
-    Object.keys(personaKeys).forEach(personaId => {
-      KeyManager.removePersonaKey(personaId);
-    });
+    const personaKeys = await KeyManager.getAllPersonaKeys();
+    for (const personaId of Object.keys(personaKeys)) {
+      await KeyManager.removePersonaKey(personaId);
+    }
     
+    lockVault();
     setStorage(null);
-    setMasterKey(null);
+    setActivePersona(null);
     return true;
   };
 
@@ -226,9 +605,25 @@ export function useSecureStorage() {
     addPersona,
     updatePersona,
     removePersona,
+    restorePersona,
+    purgePersona,
+    rotatePersonaKey,
+    rotatePersonaSubkey,
+    revokePersona,
+    activePersona,
+    openPersona,
+    closePersona,
     updateSettings,
     resetStorage,
-    hasStorage: !!storage,
-    hasMasterKey: !!masterKey
+    changeStorageBackend,
+    storageBackend,
+    createVault,
+    unlock,
+    lock,
+    isLocked,
+    lockReason,
+    hasVault: vaultExists,
+    isLegacyVault: legacyVault,
+    hasStorage: !!storage
   };
 }
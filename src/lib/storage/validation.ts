@@ -0,0 +1,633 @@
+import {
+  LocalStorage,
+  Persona,
+  PersonaPrivateData,
+  QuarantinedRecord,
+  StoredPersona,
+  ValidationIssue,
+} from '@/types';
+
+type VaultRecord = Record<string, unknown>;
+
+const ACCOUNT_STATUSES = ['pending', 'verified', 'stale', 'revoked'];
+const PROOF_LEDGERS = ['solana', 'ethereum', 'none'];
+const PROOF_STATUSES = ['active', 'revoked'];
+const SUBKEY_ROLES = ['signing', 'encryption', 'authentication'];
+const STORAGE_BACKENDS = ['localStorage', 'indexedDB', 'memory', 'fileSystem'];
+
+export const DEFAULT_THEME = 'dark';
+
+function isRecord(value: unknown): value is VaultRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'a list' : typeof value;
+}
+
+/**
+ * Collects issues for one record. Each check names the field it is about,
+ * relative to the record's path.
+ */
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  constructor(private readonly record: VaultRecord, private readonly path: string) {}
+
+  at(field: string): string {
+    return this.path ? `${this.path}.${field}` : field;
+  }
+
+  fail(field: string, message: string): void {
+    this.issues.push({ path: this.at(field), message });
+  }
+
+  string(field: string, { optional = false, nonEmpty = false } = {}): void {
+    const value = this.record[field];
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'string') {
+      this.fail(field, `must be a string, got ${describe(value)}`);
+    } else if (nonEmpty && !value) {
+      this.fail(field, 'must not be empty');
+    }
+  }
+
+  date(field: string, { optional = false } = {}): void {
+    const value = this.record[field];
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      this.fail(field, 'must be a date');
+    }
+  }
+
+  boolean(field: string, { optional = false, nullable = false } = {}): void {
+    const value = this.record[field];
+    if ((value === undefined && optional) || (value === null && nullable)) {
+      return;
+    }
+    if (typeof value !== 'boolean') {
+      this.fail(field, `must be true or false, got ${describe(value)}`);
+    }
+  }
+
+  number(field: string, { optional = false, min = -Infinity } = {}): void {
+    const value = this.record[field];
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(field, `must be a number, got ${describe(value)}`);
+    } else if (value < min) {
+      this.fail(field, `must be at least ${min}`);
+    }
+  }
+
+  oneOf(field: string, allowed: string[], { optional = false } = {}): void {
+    const value = this.record[field];
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.fail(field, `must be one of ${allowed.join(', ')}`);
+    }
+  }
+
+  list(field: string, check?: (item: unknown, path: string) => ValidationIssue[], { optional = false } = {}): void {
+    const value = this.record[field];
+    if (value === undefined && optional) {
+      return;
+    }
+    if (!Array.isArray(value)) {
+      this.fail(field, `must be a list, got ${describe(value)}`);
+      return;
+    }
+    if (check) {
+      value.forEach((item, index) => this.issues.push(...check(item, `${this.at(field)}[${index}]`)));
+    }
+  }
+
+  object(field: string, check?: (value: unknown, path: string) => ValidationIssue[], { optional = false } = {}): void {
+    const value = this.record[field];
+    if (value === undefined && optional) {
+      return;
+    }
+    if (!isRecord(value)) {
+      this.fail(field, `must be an object, got ${describe(value)}`);
+      return;
+    }
+    if (check) {
+      this.issues.push(...check(value, this.at(field)));
+    }
+  }
+}
+
+/**
+ * Runs checks against a value that has to be an object
+ */
+function validateObject(value: unknown, path: string, check: (fields: IssueCollector) => void): ValidationIssue[] {
+  if (!isRecord(value)) {
+    return [{ path: path || '(document)', message: `must be an object, got ${describe(value)}` }];
+  }
+  const fields = new IssueCollector(value, path);
+  check(fields);
+  return fields.issues;
+}
+
+function validateStringMap(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    for (const key of Object.keys(value as VaultRecord)) {
+      fields.string(key);
+    }
+  });
+}
+
+/**
+ * Validates the vault settings
+ * @param value Settings as stored
+ * @param path Field path of the settings, for issue messages
+ * @returns Issues found, empty if the settings are valid
+ */
+export function validateSettings(value: unknown, path = 'settings'): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('theme');
+    fields.boolean('notifications', { optional: true });
+    fields.string('privacyLevel', { optional: true });
+    fields.boolean('initialized', { optional: true });
+    fields.oneOf('storageBackend', STORAGE_BACKENDS, { optional: true });
+    fields.object('autoLock', (autoLock, autoLockPath) => validateObject(autoLock, autoLockPath, lock => {
+      lock.number('idleMinutes', { min: 0 });
+      lock.number('absoluteMinutes', { min: 0 });
+      lock.boolean('lockOnHide');
+    }), { optional: true });
+    fields.number('trashRetentionDays', { optional: true, min: 0 });
+  });
+}
+
+/**
+ * Validates a connected account record
+ */
+export function validateConnectedAccount(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('platform', { nonEmpty: true });
+    fields.string('handle', { nonEmpty: true });
+    fields.string('profileUrl', { optional: true });
+    fields.string('proofUrl', { optional: true });
+    fields.string('proofHash', { optional: true });
+    fields.string('onChainProofId', { optional: true });
+    fields.oneOf('status', ACCOUNT_STATUSES);
+    fields.date('createdAt');
+    fields.date('updatedAt');
+    fields.date('verifiedAt', { optional: true });
+  });
+}
+
+function validateProofVerification(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.date('checkedAt');
+    fields.boolean('hashValid');
+    fields.boolean('signatureValid');
+    fields.boolean('ledgerValid', { nullable: true });
+    fields.string('keyFingerprint', { optional: true });
+    fields.boolean('keyRevoked', { optional: true });
+    fields.string('error', { optional: true });
+  });
+}
+
+/**
+ * Validates a signed proof record
+ */
+export function validateSignedProof(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('id', { nonEmpty: true });
+    fields.string('message', { optional: true });
+    fields.string('signature', { optional: true });
+    fields.string('hash', { nonEmpty: true });
+    fields.list('accounts', (account, accountPath) => validateObject(account, accountPath, claimed => {
+      claimed.string('platform');
+      claimed.string('handle');
+    }));
+    fields.list('urls', (url, urlPath) =>
+      typeof url === 'string' ? [] : [{ path: urlPath, message: `must be a string, got ${describe(url)}` }]
+    );
+    fields.oneOf('ledger', PROOF_LEDGERS);
+    fields.string('transactionId', { optional: true });
+    fields.oneOf('status', PROOF_STATUSES);
+    fields.date('createdAt');
+    fields.date('revokedAt', { optional: true });
+    fields.list('verifications', validateProofVerification);
+  });
+}
+
+/**
+ * Validates a persona's private data, including every account and proof
+ */
+export function validatePrivateData(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.list('accounts', validateConnectedAccount);
+    fields.list('signedProofs', validateSignedProof);
+    fields.string('notes');
+    fields.string('revocationCertificate', { optional: true });
+    fields.object('previousRevocationCertificates', validateStringMap, { optional: true });
+    fields.list('quarantine', undefined, { optional: true });
+  });
+}
+
+function validatePersonaSubkey(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.oneOf('role', SUBKEY_ROLES);
+    fields.string('fingerprint', { nonEmpty: true });
+    fields.number('generation', { min: 0 });
+    fields.date('createdAt');
+    fields.date('expiresAt', { optional: true });
+    fields.date('retiredAt', { optional: true });
+    fields.date('revokedAt', { optional: true });
+  });
+}
+
+function validateKeyRotation(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('previousPublicKey', { nonEmpty: true });
+    fields.string('previousFingerprint', { nonEmpty: true });
+    fields.string('fingerprint', { nonEmpty: true });
+    fields.string('statement', { nonEmpty: true });
+    fields.string('previousKeySignature', { nonEmpty: true });
+    fields.string('newKeySignature', { nonEmpty: true });
+    fields.string('hash', { nonEmpty: true });
+    fields.oneOf('ledger', PROOF_LEDGERS);
+    fields.string('transactionId', { optional: true });
+    fields.date('rotatedAt');
+    fields.list('previousSubkeys', validatePersonaSubkey, { optional: true });
+  });
+}
+
+function validateKeyRevocation(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('fingerprint', { nonEmpty: true });
+    fields.string('revokedPublicKey', { nonEmpty: true });
+    fields.string('hash', { nonEmpty: true });
+    fields.oneOf('ledger', PROOF_LEDGERS);
+    fields.string('transactionId', { optional: true });
+    fields.date('revokedAt');
+  });
+}
+
+function validatePersonaFields(fields: IssueCollector): void {
+  fields.string('id', { nonEmpty: true });
+  fields.string('fingerprint');
+  fields.string('name');
+  fields.string('publicKey');
+  fields.date('createdAt');
+  fields.boolean('isPublic');
+  fields.date('updatedAt', { optional: true });
+  fields.object('settingsOverrides', (overrides, overridesPath) => validateObject(overrides, overridesPath, override => {
+    override.string('theme', { optional: true });
+    override.boolean('notifications', { optional: true });
+    override.string('privacyLevel', { optional: true });
+  }), { optional: true });
+  fields.list('subkeys', validatePersonaSubkey, { optional: true });
+  fields.list('keyHistory', validateKeyRotation, { optional: true });
+  fields.object('revocation', validateKeyRevocation, { optional: true });
+}
+
+/**
+ * Validates a persona with its private data in plaintext, as found in exports
+ */
+export function validatePersona(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    validatePersonaFields(fields);
+    fields.object('privateData', validatePrivateData);
+  });
+}
+
+/**
+ * Validates a persona as stored in the vault, with its private data sealed
+ */
+export function validateStoredPersona(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    validatePersonaFields(fields);
+    fields.object('compartment', (compartment, compartmentPath) => validateObject(compartment, compartmentPath, sealed => {
+      sealed.string('wrappedKey', { nonEmpty: true });
+      sealed.string('data', { nonEmpty: true });
+    }));
+  });
+}
+
+function validateTrashedPersona(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.object('persona', validateStoredPersona);
+    fields.date('deletedAt');
+  });
+}
+
+function validateKeyShareSet(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('id', { nonEmpty: true });
+    fields.number('threshold', { min: 1 });
+    fields.number('shareCount', { min: 1 });
+    fields.date('createdAt');
+  });
+}
+
+function validateMasterKey(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('publicKey', { nonEmpty: true });
+    fields.string('privateKey', { nonEmpty: true });
+  });
+}
+
+function validateRecovery(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.string('personaKeySeed', { nonEmpty: true });
+    fields.string('backupPassphrase', { nonEmpty: true });
+  });
+}
+
+function validateAuditHead(value: unknown, path: string): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.number('seq', { min: 1 });
+    fields.string('hash', { nonEmpty: true });
+  });
+}
+
+/**
+ * Validates the fields a document cannot be used without. Records that fail
+ * validation further down can be quarantined; these cannot.
+ */
+function validateDocumentShape(value: unknown, path = ''): ValidationIssue[] {
+  return validateObject(value, path, fields => {
+    fields.number('schemaVersion', { optional: true, min: 0 });
+    fields.list('personas');
+  });
+}
+
+/**
+ * Validates a vault document at the current schema version
+ * @param value Decrypted vault document
+ * @returns Issues found, with field paths such as personas[2].compartment
+ */
+export function validateVaultDocument(value: unknown): ValidationIssue[] {
+  const issues = validateDocumentShape(value);
+  if (!isRecord(value)) {
+    return issues;
+  }
+  const fields = new IssueCollector(value, '');
+  fields.list('personas', validateStoredPersona);
+  fields.object('settings', validateSettings);
+  fields.object('keys', validateStringMap, { optional: true });
+  fields.object('masterKey', validateMasterKey, { optional: true });
+  fields.object('recovery', validateRecovery, { optional: true });
+  fields.list('keyShareSets', validateKeyShareSet, { optional: true });
+  fields.list('trash', validateTrashedPersona, { optional: true });
+  fields.object('mergeBases', undefined, { optional: true });
+  fields.list('quarantine', undefined, { optional: true });
+  fields.object('auditHead', validateAuditHead, { optional: true });
+  // The persona list was already reported if it is missing
+  return [...issues, ...fields.issues.filter(issue => issue.path !== 'personas')];
+}
+
+/**
+ * Validates a decrypted export document before it is migrated. Only its
+ * overall shape is checked here; its records are validated once they are
+ * upgraded to the current schema.
+ * @param value Decrypted export document
+ * @returns Issues that make the export unusable
+ */
+export function validateExportDocument(value: unknown): ValidationIssue[] {
+  const issues = validateDocumentShape(value);
+  if (isRecord(value) && value.settings !== undefined && !isRecord(value.settings)) {
+    issues.push({ path: 'settings', message: `must be an object, got ${describe(value.settings)}` });
+  }
+  return issues;
+}
+
+/**
+ * Formats issues for an error message
+ * @param issues Validation issues
+ * @param limit Number of issues to spell out
+ * @returns Issues as "path: message", separated by semicolons
+ */
+export function formatValidationIssues(issues: ValidationIssue[], limit = 5): string {
+  const shown = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) {
+    shown.push(`and ${issues.length - limit} more`);
+  }
+  return shown.join('; ');
+}
+
+function quarantineRecord(collection: string, record: unknown, issues: ValidationIssue[]): QuarantinedRecord {
+  return { collection, record, issues, quarantinedAt: new Date().toISOString() };
+}
+
+/**
+ * Splits a list into valid items and quarantined ones
+ */
+function partition<T>(
+  items: unknown[],
+  collection: string,
+  validate: (item: unknown, path: string) => ValidationIssue[],
+  path = collection
+): { valid: T[]; quarantined: QuarantinedRecord[] } {
+  const valid: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  items.forEach((item, index) => {
+    const issues = validate(item, `${path}[${index}]`);
+    if (issues.length > 0) {
+      quarantined.push(quarantineRecord(collection, item, issues));
+    } else {
+      valid.push(item as T);
+    }
+  });
+  return { valid, quarantined };
+}
+
+/**
+ * Adds newly quarantined records to a quarantine, skipping records it already holds
+ * @param existing Quarantine kept so far
+ * @param incoming Quarantined records to add
+ * @returns Combined quarantine, or undefined if it is empty
+ */
+export function mergeQuarantine(
+  existing: QuarantinedRecord[] = [],
+  incoming: QuarantinedRecord[] = []
+): QuarantinedRecord[] | undefined {
+  const held = new Set(existing.map(entry => JSON.stringify([entry.collection, entry.record])));
+  const merged = [...existing, ...incoming.filter(entry => !held.has(JSON.stringify([entry.collection, entry.record])))];
+  return merged.length > 0 ? merged : undefined;
+}
+
+/**
+ * Validates a persona's private data, moving invalid accounts and proofs into
+ * its quarantine so the rest stays usable
+ * @param value Decrypted private data
+ * @param path Field path of the private data, for issue messages
+ * @returns Private data that passes validation, and the records quarantined now
+ */
+export function quarantinePrivateData(
+  value: unknown,
+  path = 'privateData'
+): { privateData: PersonaPrivateData; quarantined: QuarantinedRecord[] } {
+  const record = isRecord(value) ? value : {};
+  const quarantined: QuarantinedRecord[] = [];
+  if (!isRecord(value)) {
+    quarantined.push(quarantineRecord('privateData', value, [
+      { path, message: `must be an object, got ${describe(value)}` },
+    ]));
+  }
+
+  const listOf = (field: string): unknown[] => {
+    const items = record[field];
+    if (items === undefined || Array.isArray(items)) {
+      return items || [];
+    }
+    quarantined.push(quarantineRecord(field, items, [
+      { path: `${path}.${field}`, message: `must be a list, got ${describe(items)}` },
+    ]));
+    return [];
+  };
+  const accounts = partition<PersonaPrivateData['accounts'][number]>(
+    listOf('accounts'), 'accounts', validateConnectedAccount, `${path}.accounts`
+  );
+  const signedProofs = partition<PersonaPrivateData['signedProofs'][number]>(
+    listOf('signedProofs'), 'signedProofs', validateSignedProof, `${path}.signedProofs`
+  );
+  quarantined.push(...accounts.quarantined, ...signedProofs.quarantined);
+
+  let notes = '';
+  if (typeof record.notes === 'string') {
+    notes = record.notes;
+  } else if (record.notes !== undefined) {
+    quarantined.push(quarantineRecord('notes', record.notes, [
+      { path: `${path}.notes`, message: `must be a string, got ${describe(record.notes)}` },
+    ]));
+  }
+
+  const earlier = Array.isArray(record.quarantine) ? record.quarantine as QuarantinedRecord[] : [];
+  const privateData: PersonaPrivateData = { accounts: accounts.valid, signedProofs: signedProofs.valid, notes };
+  if (typeof record.revocationCertificate === 'string') {
+    privateData.revocationCertificate = record.revocationCertificate;
+  }
+  if (isRecord(record.previousRevocationCertificates) &&
+    validateStringMap(record.previousRevocationCertificates, `${path}.previousRevocationCertificates`).length === 0) {
+    privateData.previousRevocationCertificates = record.previousRevocationCertificates as Record<string, string>;
+  }
+  if (earlier.length > 0 || quarantined.length > 0) {
+    privateData.quarantine = [...earlier, ...quarantined];
+  }
+  return { privateData, quarantined };
+}
+
+/**
+ * Validates a vault document or export at the current schema version. Invalid
+ * records are moved into the document's quarantine instead of being loaded,
+ * so one bad record cannot break the pages that list the rest. Personas that
+ * travel unsealed have their private data checked as well.
+ * @param value Vault document after migrations
+ * @returns Document that passes validation, and every record quarantined now
+ * @throws If the document itself is unusable, listing the fields at fault
+ */
+export function quarantineInvalidRecords(value: unknown): { document: LocalStorage; quarantined: QuarantinedRecord[] } {
+  const fatal = validateDocumentShape(value);
+  if (fatal.length > 0) {
+    throw new Error(`Vault document is invalid: ${formatValidationIssues(fatal)}`);
+  }
+  const document = { ...(value as VaultRecord) };
+  const quarantined: QuarantinedRecord[] = [];
+
+  // Records set aside inside unsealed personas stay with their persona
+  const inPersonas: QuarantinedRecord[] = [];
+  const personas: Array<Persona | StoredPersona> = [];
+  (document.personas as unknown[]).forEach((persona, index) => {
+    const path = `personas[${index}]`;
+    const sealed = isRecord(persona) && 'compartment' in persona;
+    const issues = sealed
+      ? validateStoredPersona(persona, path)
+      : validateObject(persona, path, validatePersonaFields);
+    if (issues.length > 0) {
+      quarantined.push(quarantineRecord('personas', persona, issues));
+    } else if (sealed) {
+      personas.push(persona as unknown as StoredPersona);
+    } else {
+      const exported = persona as unknown as Persona;
+      const { privateData, quarantined: inPersona } = quarantinePrivateData(exported.privateData, `${path}.privateData`);
+      inPersonas.push(...inPersona);
+      personas.push({ ...exported, privateData });
+    }
+  });
+  document.personas = personas;
+
+  for (const [field, validate] of [
+    ['trash', validateTrashedPersona],
+    ['keyShareSets', validateKeyShareSet],
+  ] as const) {
+    if (document[field] === undefined) {
+      continue;
+    }
+    if (!Array.isArray(document[field])) {
+      quarantined.push(quarantineRecord(field, document[field], [{ path: field, message: `must be a list, got ${describe(document[field])}` }]));
+      delete document[field];
+      continue;
+    }
+    const split = partition(document[field] as unknown[], field, validate);
+    quarantined.push(...split.quarantined);
+    document[field] = split.valid;
+  }
+
+  for (const [field, validate] of [
+    ['masterKey', validateMasterKey],
+    ['recovery', validateRecovery],
+    ['keys', validateStringMap],
+    ['auditHead', validateAuditHead],
+  ] as const) {
+    if (document[field] === undefined) {
+      continue;
+    }
+    const issues = validate(document[field], field);
+    if (issues.length > 0) {
+      quarantined.push(quarantineRecord(field, document[field], issues));
+      delete document[field];
+    }
+  }
+
+  if (document.mergeBases !== undefined && !isRecord(document.mergeBases)) {
+    // Only sync state of this device; it is rebuilt on the next export
+    delete document.mergeBases;
+  }
+
+  // Invalid settings are quarantined one by one, keeping the rest
+  const settings = isRecord(document.settings) ? { ...document.settings } : {};
+  if (document.settings !== undefined && !isRecord(document.settings)) {
+    quarantined.push(quarantineRecord('settings', document.settings, validateSettings(document.settings)));
+  }
+  if (settings.theme === undefined) {
+    settings.theme = DEFAULT_THEME;
+  }
+  const settingsIssues = validateSettings(settings);
+  for (const key of new Set(settingsIssues.map(issue => issue.path.split('.')[1]))) {
+    quarantined.push(quarantineRecord('settings', { [key]: settings[key] },
+      settingsIssues.filter(issue => issue.path.split('.')[1] === key)));
+    delete settings[key];
+  }
+  if (typeof settings.theme !== 'string') {
+    settings.theme = DEFAULT_THEME;
+  }
+  document.settings = settings;
+
+  const earlier = Array.isArray(document.quarantine) ? document.quarantine : [];
+  if (document.quarantine !== undefined && !Array.isArray(document.quarantine)) {
+    quarantined.push(quarantineRecord('quarantine', document.quarantine, [
+      { path: 'quarantine', message: `must be a list, got ${describe(document.quarantine)}` },
+    ]));
+  }
+  if (earlier.length > 0 || quarantined.length > 0) {
+    document.quarantine = [...earlier, ...quarantined];
+  }
+
+  return { document: document as unknown as LocalStorage, quarantined: [...quarantined, ...inPersonas] };
+}
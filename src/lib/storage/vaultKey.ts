@@ -0,0 +1,62 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha2';
+import {
+  bytesToHex,
+  hexToBytes,
+  randomBytes,
+  utf8ToBytes,
+} from '@noble/hashes/utils';
+
+import { VaultKdfParams } from '@/types';
+
+// scrypt cost parameters used for new vaults (N=2^17, r=8 needs 128 MiB of memory)
+const DEFAULT_KDF_PARAMS = {
+  N: 2 ** 17,
+  r: 8,
+  p: 1,
+  dkLen: 32,
+};
+
+const VERIFIER_CONTEXT = 'whoim-vault-verifier';
+
+/**
+ * Creates fresh KDF parameters with a random salt for a new vault
+ * @returns KDF parameters to store alongside the vault
+ */
+export function createKdfParams(): VaultKdfParams {
+  return {
+    algorithm: 'scrypt',
+    salt: bytesToHex(randomBytes(16)),
+    ...DEFAULT_KDF_PARAMS,
+  };
+}
+
+/**
+ * Derives the vault key from a passphrase
+ * @param passphrase User-supplied passphrase
+ * @param params KDF parameters stored with the vault
+ * @returns Hex-encoded derived key
+ */
+export async function deriveVaultKey(passphrase: string, params: VaultKdfParams): Promise<string> {
+  if (params.algorithm !== 'scrypt') {
+    throw new Error(`Unsupported key derivation algorithm: ${params.algorithm}`);
+  }
+
+  const derived = await scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), hexToBytes(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: params.dkLen,
+  });
+  return bytesToHex(derived);
+}
+
+/**
+ * Computes a verifier for a derived key, so a wrong passphrase can be
+ * told apart from a corrupt vault without attempting decryption
+ * @param vaultKey Hex-encoded derived key
+ * @returns Hex-encoded verifier
+ */
+export function computeKeyVerifier(vaultKey: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`${VERIFIER_CONTEXT}:${vaultKey}`)));
+}
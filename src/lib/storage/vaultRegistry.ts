@@ -0,0 +1,230 @@
+/**
+ * The named vaults on this device and which one is active. Each vault keeps
+ * its entries under its own storage namespace; only the active one can be
+ * unlocked.
+ */
+
+import { VaultInfo } from '@/types';
+
+import {
+  clearVaultKey,
+  isVaultUnlocked,
+} from './vaultSession';
+
+// The vault list has to be known before any vault can be read, so it is kept
+// in plain localStorage like the storage backend preference
+const REGISTRY_KEY = 'whoim_vaults';
+
+// Entries of named vaults are stored under this prefix and the vault ID.
+// The default vault keeps the unprefixed keys it had before named vaults existed.
+const NAMESPACE_PREFIX = 'whoim_vaults/';
+
+export const DEFAULT_VAULT_ID = 'default';
+
+interface VaultRegistry {
+  vaults: VaultInfo[];
+  activeVaultId: string;
+}
+
+let registry: VaultRegistry | null = null;
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach(listener => listener());
+}
+
+function isVaultInfo(value: unknown): value is VaultInfo {
+  const vault = value as VaultInfo | null;
+  return !!vault && typeof vault.id === 'string' && !!vault.id && typeof vault.name === 'string';
+}
+
+/**
+ * Reads the vault list, falling back to the default vault alone.
+ * Outside the browser the list only lives in memory.
+ */
+function readRegistry(): VaultRegistry {
+  if (registry) {
+    return registry;
+  }
+
+  let stored: Partial<VaultRegistry> = {};
+  if (typeof window !== 'undefined' && window.localStorage) {
+    try {
+      stored = JSON.parse(window.localStorage.getItem(REGISTRY_KEY) || '{}');
+    } catch {
+      console.error('The vault list is damaged; only the default vault is listed');
+    }
+  }
+
+  const vaults = (Array.isArray(stored.vaults) ? stored.vaults : []).filter(isVaultInfo);
+  if (!vaults.some(vault => vault.id === DEFAULT_VAULT_ID)) {
+    vaults.unshift({ id: DEFAULT_VAULT_ID, name: 'Default' });
+  }
+  const activeVaultId = vaults.some(vault => vault.id === stored.activeVaultId)
+    ? stored.activeVaultId as string
+    : DEFAULT_VAULT_ID;
+
+  registry = { vaults, activeVaultId };
+  return registry;
+}
+
+function writeRegistry(next: VaultRegistry): void {
+  registry = next;
+  if (typeof window !== 'undefined' && window.localStorage) {
+    window.localStorage.setItem(REGISTRY_KEY, JSON.stringify(next));
+  }
+}
+
+// Another tab opened a different vault. This tab's key does not fit it, so it locks.
+if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+  window.addEventListener('storage', (event: StorageEvent) => {
+    if (event.key !== REGISTRY_KEY) {
+      return;
+    }
+    const previousVaultId = registry?.activeVaultId;
+    registry = null;
+    if (readRegistry().activeVaultId !== previousVaultId && isVaultUnlocked()) {
+      clearVaultKey('Another vault was opened in another tab.');
+    }
+    notifyListeners();
+  });
+}
+
+/**
+ * Lists the vaults on this device, the default vault first
+ */
+export function listVaults(): VaultInfo[] {
+  return readRegistry().vaults;
+}
+
+/**
+ * Returns the ID of the vault that is read and unlocked
+ */
+export function getActiveVaultId(): string {
+  return readRegistry().activeVaultId;
+}
+
+/**
+ * Returns the vault that is read and unlocked
+ */
+export function getActiveVault(): VaultInfo {
+  const { vaults, activeVaultId } = readRegistry();
+  return vaults.find(vault => vault.id === activeVaultId) as VaultInfo;
+}
+
+/**
+ * Returns the prefix of a vault's storage keys
+ * @param vaultId Vault ID (defaults to the active vault)
+ * @returns Key prefix, empty for the default vault
+ */
+export function getVaultNamespace(vaultId: string = getActiveVaultId()): string {
+  return vaultId === DEFAULT_VAULT_ID ? '' : `${NAMESPACE_PREFIX}${vaultId}/`;
+}
+
+/**
+ * Checks whether a storage key belongs to a named vault rather than the default one
+ */
+export function isNamespacedKey(key: string): boolean {
+  return key.startsWith(NAMESPACE_PREFIX);
+}
+
+/**
+ * Removes the vault namespace from a storage key
+ * @param key Key as stored by the backend
+ * @returns Key as the vault itself names it
+ */
+export function stripVaultNamespace(key: string): string {
+  return isNamespacedKey(key) ? key.slice(key.indexOf('/', NAMESPACE_PREFIX.length) + 1) : key;
+}
+
+function checkVaultName(name: string, exceptVaultId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Please enter a name for the vault.');
+  }
+  if (listVaults().some(vault => vault.id !== exceptVaultId && vault.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A vault named "${trimmed}" already exists on this device.`);
+  }
+  return trimmed;
+}
+
+/**
+ * Adds a named vault to this device. It is set up with its own passphrase
+ * the first time it is opened.
+ * @param name Vault name
+ * @returns The new vault
+ */
+export function addVault(name: string): VaultInfo {
+  const vault: VaultInfo = {
+    id: `vault_${Date.now()}`,
+    name: checkVaultName(name),
+    createdAt: new Date().toISOString(),
+  };
+  const current = readRegistry();
+  writeRegistry({ ...current, vaults: [...current.vaults, vault] });
+  notifyListeners();
+  return vault;
+}
+
+/**
+ * Renames a vault
+ * @param vaultId Vault ID
+ * @param name New name
+ */
+export function renameVault(vaultId: string, name: string): void {
+  const current = readRegistry();
+  if (!current.vaults.some(vault => vault.id === vaultId)) {
+    throw new Error('Vault not found');
+  }
+  const trimmed = checkVaultName(name, vaultId);
+  writeRegistry({
+    ...current,
+    vaults: current.vaults.map(vault => vault.id === vaultId ? { ...vault, name: trimmed } : vault),
+  });
+  notifyListeners();
+}
+
+/**
+ * Removes a vault from the list. Its stored entries have to be removed first.
+ * @param vaultId Vault ID; neither the default nor the active vault
+ */
+export function removeVaultEntry(vaultId: string): void {
+  const current = readRegistry();
+  if (vaultId === DEFAULT_VAULT_ID || vaultId === current.activeVaultId) {
+    throw new Error('The default vault and the open vault cannot be removed.');
+  }
+  writeRegistry({ ...current, vaults: current.vaults.filter(vault => vault.id !== vaultId) });
+  notifyListeners();
+}
+
+/**
+ * Makes another vault the active one. The unlocked vault is locked, so only
+ * one vault is ever unlocked at a time; tabs showing it lock as well.
+ * @param vaultId Vault to switch to
+ */
+export function switchVault(vaultId: string): void {
+  const current = readRegistry();
+  if (!current.vaults.some(vault => vault.id === vaultId)) {
+    throw new Error('Vault not found');
+  }
+  if (vaultId === current.activeVaultId) {
+    return;
+  }
+  // Switched before locking, so everything reloading on the lock reads the new vault
+  writeRegistry({ ...current, activeVaultId: vaultId });
+  if (isVaultUnlocked()) {
+    clearVaultKey();
+  }
+  notifyListeners();
+}
+
+/**
+ * Subscribes to changes of the vault list or the active vault
+ * @returns Unsubscribe function
+ */
+export function subscribeVaultRegistry(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
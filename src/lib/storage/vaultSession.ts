@@ -0,0 +1,76 @@
+/**
+ * In-memory holder for the derived vault key.
+ * The key never touches persistent storage; reloading the page locks the vault.
+ */
+
+let vaultKey: string | null = null;
+let unlockedAt: number | null = null;
+let lockReason: string | null = null;
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Stores the derived vault key for the current session
+ */
+export function setVaultKey(key: string): void {
+  vaultKey = key;
+  unlockedAt = Date.now();
+  lockReason = null;
+  notifyListeners();
+}
+
+/**
+ * Returns the derived vault key, throwing if the vault is locked
+ */
+export function getVaultKey(): string {
+  if (!vaultKey) {
+    throw new Error('Vault is locked. Unlock it with your passphrase first.');
+  }
+  return vaultKey;
+}
+
+/**
+ * Checks whether the vault is currently unlocked
+ */
+export function isVaultUnlocked(): boolean {
+  return vaultKey !== null;
+}
+
+/**
+ * Returns when the vault was unlocked, or null while it is locked
+ */
+export function getVaultUnlockedAt(): number | null {
+  return unlockedAt;
+}
+
+/**
+ * Returns why the vault was last locked automatically, if it was
+ */
+export function getLockReason(): string | null {
+  return lockReason;
+}
+
+/**
+ * Forgets the derived vault key
+ * @param reason Shown on the unlock prompt when the vault locked by itself
+ */
+export function clearVaultKey(reason?: string): void {
+  vaultKey = null;
+  unlockedAt = null;
+  lockReason = reason || null;
+  notifyListeners();
+}
+
+/**
+ * Subscribes to lock/unlock changes
+ * @returns Unsubscribe function
+ */
+export function subscribeVaultSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
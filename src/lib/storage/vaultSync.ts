@@ -0,0 +1,63 @@
+/**
+ * Tells other tabs of this app when the vault was written, so they reload it
+ * instead of writing over the change with a stale copy.
+ */
+
+const CHANNEL_NAME = 'whoim-vault';
+
+export interface VaultChangeMessage {
+  revision: number;
+}
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<(message: VaultChangeMessage) => void>();
+
+// Writes in this tab run one after another where Web Locks are missing
+let localWrites: Promise<unknown> = Promise.resolve();
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<VaultChangeMessage>) => {
+      listeners.forEach(listener => listener(event.data));
+    };
+  }
+  return channel;
+}
+
+/**
+ * Announces a vault write to the other tabs
+ * @param revision Revision of the vault after the write
+ */
+export function broadcastVaultChange(revision: number): void {
+  getChannel()?.postMessage({ revision } satisfies VaultChangeMessage);
+}
+
+/**
+ * Subscribes to vault writes made in other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeVaultChanges(listener: (message: VaultChangeMessage) => void): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Runs a vault write while holding a lock shared by every tab, where the
+ * browser supports the Web Locks API, and otherwise after this tab's earlier
+ * writes
+ */
+export async function withVaultWriteLock<T>(write: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return await navigator.locks.request('whoim-vault-write', write);
+  }
+  const queued = localWrites.then(write);
+  localWrites = queued.catch(() => undefined);
+  return await queued;
+}
@@ -1,30 +1,307 @@
-export interface Persona {
+export type ConnectedAccountStatus = 'pending' | 'verified' | 'stale' | 'revoked';
+
+// An account on another platform linked to a persona through a posted proof
+export interface ConnectedAccount {
+  platform: string;
+  handle: string;          // without a leading @
+  profileUrl?: string;
+  proofUrl?: string;       // where the proof message was posted
+  proofHash?: string;      // hash of the proof message
+  onChainProofId?: string;
+  status: ConnectedAccountStatus;
+  createdAt: string;
+  updatedAt: string;
+  verifiedAt?: string;
+}
+
+// Ledger a proof's hash was recorded on
+export type ProofLedger = 'solana' | 'ethereum' | 'none';
+
+// The outcome of checking a signed proof again
+export interface ProofVerification {
+  checkedAt: string;
+  hashValid: boolean;        // the hash matches the signed message
+  signatureValid: boolean;   // the signature verifies against the persona key
+  ledgerValid: boolean | null; // null when the proof was not recorded on a ledger
+  keyFingerprint?: string;   // key the signature verified against, which may be an earlier one
+  keyRevoked?: boolean;      // that key has since been revoked
+  error?: string;
+}
+
+// A claim signed with a persona's key, kept with everything needed to check it again
+export interface SignedProof {
   id: string;
+  message?: string;   // exact text that was signed; absent for proofs from before signatures were kept
+  signature?: string; // armored detached signature over the message
+  hash: string;       // SHA-256 of the message
+  accounts: Array<Pick<ConnectedAccount, 'platform' | 'handle'>>; // accounts the message claims
+  urls: string[];     // where the message was posted
+  ledger: ProofLedger;
+  transactionId?: string;
+  status: 'active' | 'revoked';
+  createdAt: string;
+  revokedAt?: string;
+  verifications: ProofVerification[];
+}
+
+// A problem found when validating a record, at a field path such as personas[2].name
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// A record that failed validation, set aside with its problems instead of being dropped
+export interface QuarantinedRecord {
+  collection: string; // where it was found, such as personas or signedProofs
+  record: unknown;
+  issues: ValidationIssue[];
+  quarantinedAt: string;
+}
+
+export interface PersonaPrivateData {
+  accounts: ConnectedAccount[];
+  signedProofs: SignedProof[];
+  notes: string;
+  revocationCertificate?: string; // armored revocation certificate of the current key
+  previousRevocationCertificates?: Record<string, string>; // by fingerprint, for the keys rotated away from
+  quarantine?: QuarantinedRecord[];
+}
+
+export interface PersonaSettingsOverrides {
+  theme?: string;
+  notifications?: boolean;
+  privacyLevel?: string;
+}
+
+export interface Persona {
+  id: string;          // local alias; never leaves this vault's records
+  fingerprint: string; // primary key fingerprint, the persona's identity everywhere else
   publicKey: string;
-  privateData: {
-    accounts: string[];
-    signedProofs: string[];
-    notes: string;
-  };
+  privateData: PersonaPrivateData;
   createdAt : string;
   isPublic : boolean;
   name : string;
+  settingsOverrides?: PersonaSettingsOverrides;
+  subkeys?: PersonaSubkey[];  // subkeys of the current key by role; absent where one key does everything
+  keyHistory?: KeyRotation[]; // earlier keys of the persona, oldest first
+  revocation?: KeyRevocation; // set once the current key has been revoked
+  updatedAt?: string;
+}
+
+// Hand-over from one persona key to the next. The statement is signed by the
+// key rotated away from and cross-signed by the key rotated to.
+export interface KeyRotation {
+  previousPublicKey: string;
+  previousFingerprint: string;
+  fingerprint: string;          // key rotated to
+  statement: string;
+  previousKeySignature: string; // armored detached signature by the previous key
+  newKeySignature: string;      // armored detached signature by the new key
+  hash: string;                 // SHA-256 of the statement
+  ledger: ProofLedger;
+  transactionId?: string;
+  rotatedAt: string;
+  previousSubkeys?: PersonaSubkey[]; // roles of the previous key's subkeys
+}
+
+// What a persona subkey is used for: signing proofs, receiving encrypted
+// data, or answering login challenges
+export type PersonaSubkeyRole = 'signing' | 'encryption' | 'authentication';
+
+// A subkey of a persona's key. Each role has one active subkey; replaced ones
+// are kept, so what they signed before being replaced still verifies.
+export interface PersonaSubkey {
+  role: PersonaSubkeyRole;
+  fingerprint: string;
+  generation: number; // rotations of this role so far; keys derived from a recovery phrase depend on it
+  createdAt: string;
+  expiresAt?: string;
+  retiredAt?: string; // replaced by a newer subkey of the same role
+  revokedAt?: string; // revoked when it was replaced, so nothing it signed counts
+}
+
+// Published revocation of a persona's key. Proofs signed by the key no longer count.
+export interface KeyRevocation {
+  fingerprint: string;      // key that was revoked
+  revokedPublicKey: string; // the key with its revocation signature, as published
+  hash: string;             // SHA-256 of the revoked key
+  ledger: ProofLedger;
+  transactionId?: string;
+  revokedAt: string;
+}
+
+export interface PersonaCompartment {
+  wrappedKey: string; // compartment key, encrypted under the vault key
+  data: string;       // private data, encrypted under the compartment key
+}
+
+// A persona as persisted in the vault, with its private data sealed
+export interface StoredPersona extends Omit<Persona, 'privateData'> {
+  compartment: PersonaCompartment;
+}
+
+// Algorithm of a persona's PGP key: Ed25519/Curve25519 or RSA-4096
+export type PersonaKeyAlgorithm = 'ecc' | 'rsa4096';
+
+// User ID bound to a PGP key
+export interface KeyUserID {
+  name?: string;
+  email?: string;
+}
+
+export interface PersonaKeyOptions {
+  algorithm: PersonaKeyAlgorithm;
+  userIDs: KeyUserID[];   // empty for a key that names no one
+  expiresInDays?: number; // the key never expires when unset or 0
+  subkeyExpiresInDays?: Partial<Record<PersonaSubkeyRole, number>>; // subkeys expire with the key when unset or 0
 }
 
 export interface CreatePersonaInput {
   name: string;
   email: string;
   isPublic: boolean;
+  keyOptions?: PersonaKeyOptions;
+}
+
+// Persona fields reconciled one by one when merging an import
+export type PersonaMergeField = 'name' | 'isPublic' | 'publicKey' | 'notes' | 'settingsOverrides';
+
+// Hashes of a persona's fields as they were when last synced with another device
+export type PersonaMergeBase = Partial<Record<PersonaMergeField, string>>;
+
+// Secrets derived from the vault's recovery phrase. The phrase itself is never stored.
+export interface VaultRecoverySecrets {
+  personaKeySeed: string;
+  backupPassphrase: string;
+}
+
+// A set of key shares handed out for recovery. The shares themselves are not kept.
+export interface KeyShareSet {
+  id: string;
+  threshold: number;
+  shareCount: number;
+  createdAt: string;
+}
+
+// When an unlocked vault locks itself. A timeout of 0 minutes never expires.
+export interface AutoLockSettings {
+  idleMinutes: number;
+  absoluteMinutes: number;
+  lockOnHide: boolean;
+}
+
+// A deleted persona, kept with its compartment and key until it is purged
+export interface TrashedPersona {
+  persona: StoredPersona;
+  deletedAt: string;
+}
+
+export type AuditAction =
+  | 'persona.created'
+  | 'persona.updated'
+  | 'persona.removed'
+  | 'persona.trashed'
+  | 'persona.restored'
+  | 'persona.purged'
+  | 'persona.revoked'
+  | 'account.linked'
+  | 'account.updated'
+  | 'proof.added'
+  | 'proof.revoked'
+  | 'key.rotated'
+  | 'subkey.rotated'
+  | 'settings.updated'
+  | 'keys.exported'
+  | 'vault.exported'
+  | 'vault.imported'
+  | 'vault.rekeyed';
+
+// One change to the vault, as recorded in the audit log
+export interface AuditEvent {
+  action: AuditAction;
+  personaId?: string;
+  details: string;
+}
+
+// An audit log entry, chained to the previous one by its hash
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+// The last audit log entry, recorded in the vault document with every append
+export interface AuditHead {
+  seq: number;
+  hash: string;
 }
 
 export interface LocalStorage {
-  personas: Persona[];
+  schemaVersion: number;
+  personas: StoredPersona[];
+  mergeBases?: Record<string, PersonaMergeBase>;
+  keys?: Record<string, string>;
+  masterKey?: {
+    publicKey: string;
+    privateKey: string;
+  };
+  recovery?: VaultRecoverySecrets;
+  keyShareSets?: KeyShareSet[];
+  trash?: TrashedPersona[];
+  quarantine?: QuarantinedRecord[];
+  auditHead?: AuditHead;
   settings: {
     theme: string;
-    notifications: boolean;
+    notifications?: boolean;
+    privacyLevel?: string;
+    initialized?: boolean;
+    storageBackend?: StorageBackend;
+    autoLock?: AutoLockSettings;
+    trashRetentionDays?: number; // 0 keeps deleted personas until purged by hand
   };
 }
 
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'memory' | 'fileSystem';
+
+// A named vault on this device. Each one has its own passphrase, settings and storage namespace.
+export interface VaultInfo {
+  id: string;
+  name: string;
+  createdAt?: string; // missing for the default vault, which predates named vaults
+}
+
+export interface VaultKdfParams {
+  algorithm: 'scrypt';
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  dkLen: number;
+}
+
+export interface VaultHeader {
+  kdf: VaultKdfParams;
+  verifier: string;
+  createdAt: string;
+}
+
+export type BackupContents = 'vault' | 'persona';
+
+export interface BackupBundle {
+  format: 'whoim-backup';
+  formatVersion: number;
+  contents: BackupContents;
+  exportVersion: string;
+  schemaVersion: number;
+  createdAt: string;
+  kdf: VaultKdfParams;
+  payload: string;          // export document, encrypted under the backup passphrase
+  payloadHash: string;      // SHA-256 of the payload
+  signature: string;        // detached signature by the vault's master key
+  signerPublicKey: string;
+}
+
 export interface BlockchainProof {
   personaPublicKey: string;
   proofHash: string;